@@ -7,12 +7,17 @@ import { AuthProvider } from "@/hooks/use-auth";
 import { OrganizationProvider } from "@/hooks/use-organization";
 import Login from "@/pages/login";
 import Signup from "@/pages/signup";
+import AcceptInvitation from "@/pages/accept-invitation";
 import Dashboard from "@/pages/dashboard";
 import Members from "@/pages/members";
 import ApiKeys from "@/pages/api-keys";
+import ApiKeyDetail from "@/pages/api-key-detail";
+import ApiReference from "@/pages/api-reference";
 import Integrations from "@/pages/integrations";
 import Billing from "@/pages/billing";
 import AuditLogs from "@/pages/audit-logs";
+import Jobs from "@/pages/jobs";
+import OrganizationSettings from "@/pages/organization-settings";
 import Pipelines from "@/pages/pipelines";
 import PipelineDetail from "@/pages/pipeline-detail";
 import LeadDetail from "@/pages/lead-detail";
@@ -25,6 +30,7 @@ function Router() {
       <Route path="/" component={Login} />
       <Route path="/login" component={Login} />
       <Route path="/signup" component={Signup} />
+      <Route path="/invite/:token" component={AcceptInvitation} />
       <Route path="/dashboard" component={() => (
         <AppShell>
           <Dashboard />
@@ -40,6 +46,16 @@ function Router() {
           <ApiKeys />
         </AppShell>
       )} />
+      <Route path="/api-keys/:id" component={() => (
+        <AppShell>
+          <ApiKeyDetail />
+        </AppShell>
+      )} />
+      <Route path="/api-reference" component={() => (
+        <AppShell>
+          <ApiReference />
+        </AppShell>
+      )} />
       <Route path="/integrations" component={() => (
         <AppShell>
           <Integrations />
@@ -55,6 +71,16 @@ function Router() {
           <AuditLogs />
         </AppShell>
       )} />
+      <Route path="/jobs" component={() => (
+        <AppShell>
+          <Jobs />
+        </AppShell>
+      )} />
+      <Route path="/settings" component={() => (
+        <AppShell>
+          <OrganizationSettings />
+        </AppShell>
+      )} />
       <Route path="/pipelines" component={() => (
         <AppShell>
           <Pipelines />
@@ -1,16 +1,22 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/use-organization";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Copy, Trash2 } from "lucide-react";
+import { Copy, RefreshCw, Trash2 } from "lucide-react";
 import CreateApiKeyModal from "@/components/modals/create-api-key-modal";
+import RotateApiKeyModal from "@/components/modals/rotate-api-key-modal";
+import { isApiKeyExpired } from "@/lib/api-keys";
 
 interface ApiKey {
   id: string;
   name: string;
   keyPreview: string;
+  scopes: string[];
+  expiresAt: string | null;
+  replacedById: string | null;
   lastUsedAt: string | null;
   createdAt: string;
 }
@@ -20,6 +26,7 @@ export default function ApiKeysSection() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [rotatingKey, setRotatingKey] = useState<ApiKey | null>(null);
 
   const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
     queryKey: ["/api/organizations", currentOrganization?.id, "api-keys"],
@@ -70,7 +77,8 @@ export default function ApiKeysSection() {
     return `${diffDays} days ago`;
   };
 
-  const getStatusColor = (lastUsedAt: string | null) => {
+  const getStatusColor = ({ lastUsedAt, expiresAt }: ApiKey) => {
+    if (isApiKeyExpired({ expiresAt })) return 'bg-red-400';
     if (!lastUsedAt) return 'bg-orange-400';
     
     const date = new Date(lastUsedAt);
@@ -157,13 +165,24 @@ export default function ApiKeysSection() {
                 >
                   <div className="flex-1">
                     <div className="flex items-center space-x-3">
-                      <div className={`w-2 h-2 rounded-full ${getStatusColor(apiKey.lastUsedAt)}`}></div>
+                      <div className={`w-2 h-2 rounded-full ${getStatusColor(apiKey)}`}></div>
                       <div>
                         <h4 className="text-sm font-medium text-slate-900" data-testid={`api-key-name-${apiKey.id}`}>
-                          {apiKey.name}
+                          <Link href={`/api-keys/${apiKey.id}`} className="hover:text-blue-600">
+                            {apiKey.name}
+                          </Link>
                         </h4>
                         <p className="text-xs text-slate-500" data-testid={`api-key-created-${apiKey.id}`}>
                           Created {formatTimeAgo(apiKey.createdAt)} • Last used {formatTimeAgo(apiKey.lastUsedAt)}
+                          {isApiKeyExpired(apiKey) && " • Expired"}
+                        </p>
+                        {apiKey.replacedById && !isApiKeyExpired(apiKey) && (
+                          <p className="text-xs text-amber-600" data-testid={`api-key-rotated-${apiKey.id}`}>
+                            Rotated • Stops working {new Date(apiKey.expiresAt!).toLocaleString()}
+                          </p>
+                        )}
+                        <p className="text-xs font-mono text-slate-400" data-testid={`api-key-scopes-${apiKey.id}`}>
+                          {apiKey.scopes.join(", ")}
                         </p>
                       </div>
                     </div>
@@ -181,6 +200,17 @@ export default function ApiKeysSection() {
                     >
                       <Copy className="w-4 h-4" />
                     </Button>
+                    {!apiKey.replacedById && !isApiKeyExpired(apiKey) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-blue-600 p-1"
+                        onClick={() => setRotatingKey(apiKey)}
+                        data-testid={`rotate-api-key-${apiKey.id}`}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -203,6 +233,11 @@ export default function ApiKeysSection() {
         open={showCreateModal}
         onOpenChange={setShowCreateModal}
       />
+
+      <RotateApiKeyModal
+        apiKey={rotatingKey}
+        onOpenChange={(open) => !open && setRotatingKey(null)}
+      />
     </>
   );
 }
@@ -0,0 +1,84 @@
+import { Link } from "wouter";
+import { AlertTriangle, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/use-organization";
+
+// Shown while a payment has failed: to admins during the grace period, and to
+// everyone once the organization is read-only. Admins also see when the
+// subscription was canceled.
+export default function DunningBanner() {
+  const { currentOrganization, subscription, dunning, userRole } = useOrganization();
+  if (!currentOrganization || !subscription) return null;
+  const isAdmin = userRole === "admin";
+
+  const billingButton = isAdmin && (
+    <Link href="/billing">
+      <Button size="sm" variant="outline" data-testid="button-dunning-billing">
+        Update payment method
+      </Button>
+    </Link>
+  );
+
+  if (dunning.status === "restricted") {
+    return (
+      <div
+        className="flex items-center justify-between gap-4 border-b border-red-200 bg-red-50 px-6 py-2 text-sm text-red-900"
+        data-testid="banner-dunning-restricted"
+      >
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          <span>
+            {currentOrganization.name} is read-only because its payment failed. Nothing was deleted.{" "}
+            {isAdmin
+              ? "Everything works again as soon as the payment succeeds."
+              : "Ask an admin to update the payment method."}
+          </span>
+        </div>
+        {billingButton}
+      </div>
+    );
+  }
+
+  if (!isAdmin) return null;
+
+  if (dunning.status === "grace") {
+    return (
+      <div
+        className="flex items-center justify-between gap-4 border-b border-amber-200 bg-amber-50 px-6 py-2 text-sm text-amber-900"
+        data-testid="banner-dunning-grace"
+      >
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            The latest payment for {currentOrganization.name} failed. Update the payment method before{" "}
+            {new Date(dunning.graceEndsAt!).toLocaleDateString()}, or the organization becomes read-only.
+          </span>
+        </div>
+        {billingButton}
+      </div>
+    );
+  }
+
+  if (subscription.status === "canceled") {
+    return (
+      <div
+        className="flex items-center justify-between gap-4 border-b border-slate-200 bg-slate-100 px-6 py-2 text-sm text-slate-700"
+        data-testid="banner-subscription-canceled"
+      >
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            The subscription for {currentOrganization.name} was canceled, so it's on the Free plan.
+          </span>
+        </div>
+        <Link href="/billing">
+          <Button size="sm" variant="outline" data-testid="button-subscription-canceled-plans">
+            View plans
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,68 @@
+import { Link } from "wouter";
+import { Clock, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/use-organization";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counts down the days left on a trial, and once it has ended, says which
+// pipelines became read-only
+export default function TrialBanner() {
+  const { currentOrganization, subscription, readOnlyPipelineIds } = useOrganization();
+  if (!currentOrganization || !subscription) return null;
+
+  if (subscription.status === "trialing" && currentOrganization.trialEnd) {
+    const trialEnd = new Date(currentOrganization.trialEnd);
+    const daysLeft = Math.max(Math.ceil((trialEnd.getTime() - Date.now()) / DAY_MS), 0);
+    const urgent = daysLeft <= 3;
+
+    return (
+      <div
+        className={`flex items-center justify-between gap-4 border-b px-6 py-2 text-sm ${
+          urgent ? "border-amber-200 bg-amber-50 text-amber-900" : "border-blue-200 bg-blue-50 text-blue-900"
+        }`}
+        data-testid="banner-trial"
+      >
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          <span data-testid="text-trial-days-left">
+            {daysLeft === 0
+              ? `Your ${subscription.plan} trial ends today.`
+              : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left in your ${subscription.plan} trial.`}{" "}
+            After {trialEnd.toLocaleDateString()}, {currentOrganization.name} moves to the Free plan unless you choose a plan.
+          </span>
+        </div>
+        <Link href="/billing">
+          <Button size="sm" variant="outline" data-testid="button-trial-choose-plan">
+            Choose a plan
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (readOnlyPipelineIds.length > 0) {
+    const count = readOnlyPipelineIds.length;
+    return (
+      <div
+        className="flex items-center justify-between gap-4 border-b border-slate-200 bg-slate-100 px-6 py-2 text-sm text-slate-700"
+        data-testid="banner-read-only-pipelines"
+      >
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          <span>
+            {count} pipeline{count === 1 ? " is" : "s are"} over the {subscription.plan} plan's limit and
+            read-only. Nothing was deleted: upgrade, or delete other pipelines, to edit {count === 1 ? "it" : "them"}.
+          </span>
+        </div>
+        <Link href="/billing">
+          <Button size="sm" variant="outline" data-testid="button-read-only-upgrade">
+            View plans
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return null;
+}
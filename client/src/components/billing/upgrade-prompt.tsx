@@ -0,0 +1,45 @@
+import { Link } from "wouter";
+import { Sparkles } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import type { PlanLimitExceeded } from "@/lib/plan-limits";
+
+interface UpgradePromptProps {
+  limit: PlanLimitExceeded;
+  onUpgrade?: () => void;
+}
+
+const RESOURCE_NAMES: Record<PlanLimitExceeded['resource'], string> = {
+  members: 'team members',
+  pipelines: 'pipelines',
+  tableMappings: 'table mappings',
+  organizations: 'organizations',
+  operations: 'operations a month',
+};
+
+export default function UpgradePrompt({ limit, onUpgrade }: UpgradePromptProps) {
+  return (
+    <Alert className="border-blue-200 bg-blue-50" data-testid="alert-plan-limit">
+      <Sparkles className="h-4 w-4 text-blue-600" />
+      <AlertTitle className="text-blue-900">
+        You've reached the {limit.plan} plan limit
+      </AlertTitle>
+      <AlertDescription className="text-blue-800">
+        <p>
+          Your plan includes up to {limit.limit} {RESOURCE_NAMES[limit.resource]}. Upgrade
+          to add more.
+        </p>
+        <Link href="/billing">
+          <Button
+            size="sm"
+            className="mt-3 bg-blue-600 text-white hover:bg-blue-700"
+            onClick={onUpgrade}
+            data-testid="button-upgrade-plan"
+          >
+            View plans
+          </Button>
+        </Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
+import { OVERAGE_PRICES, USAGE_WARNING_RATIO } from "@shared/schema";
 
 interface PlanStatusProps {
   stats: {
@@ -42,7 +43,9 @@ export default function PlanStatus({ stats, plan, planLimits }: PlanStatusProps)
 
   const getProgressBarClass = (percentage: number, color: string) => {
     const baseClass = `h-2 rounded-full`;
-    const colorClass = color === "blue" ? "bg-blue-600" : 
+    const colorClass = percentage >= 100 ? "bg-red-600" :
+                      percentage >= USAGE_WARNING_RATIO * 100 ? "bg-amber-500" :
+                      color === "blue" ? "bg-blue-600" : 
                       color === "green" ? "bg-green-600" : 
                       "bg-purple-600";
     return `${baseClass} ${colorClass}`;
@@ -74,6 +77,20 @@ export default function PlanStatus({ stats, plan, planLimits }: PlanStatusProps)
           );
         })}
 
+        {stats.operations >= planLimits.operations && plan in OVERAGE_PRICES ? (
+          <p className="text-sm text-amber-600" data-testid="text-operations-overage">
+            All of this period's included operations are used. Further operations are billed as overage.
+          </p>
+        ) : stats.operations >= planLimits.operations ? (
+          <p className="text-sm text-red-600" data-testid="text-operations-limit">
+            All of this period's operations are used. API requests, lead changes and Airtable syncs are paused until it resets.
+          </p>
+        ) : stats.operations >= planLimits.operations * USAGE_WARNING_RATIO ? (
+          <p className="text-sm text-amber-600" data-testid="text-operations-warning">
+            Over {Math.round(USAGE_WARNING_RATIO * 100)}% of this period's operations are used.
+          </p>
+        ) : null}
+
         <div className="pt-3 border-t border-slate-200">
           <Button
             className="w-full bg-blue-600 text-white hover:bg-blue-700"
@@ -43,6 +43,9 @@ export default function RecentActivity() {
         if (log.entity === 'api_key') {
           return `created a new API key "${metadata.name}"`;
         }
+        if (log.entity === 'webhook') {
+          return `added a webhook for ${metadata.url}`;
+        }
         if (log.entity === 'organization') {
           return `created organization "${metadata.name}"`;
         }
@@ -52,13 +55,66 @@ export default function RecentActivity() {
         if (log.entity === 'setting') {
           return `updated ${metadata.key} settings`;
         }
+        if (log.entity === 'member') {
+          return `changed ${metadata.email} to ${metadata.after}`;
+        }
+        if (log.entity === 'organization') {
+          return `renamed the organization to "${metadata.after}"`;
+        }
+        if (log.entity === 'subscription') {
+          return `moved the subscription to ${metadata.after} (${metadata.status})`;
+        }
         return `updated ${log.entity}`;
       
       case 'delete':
+        if (log.entity === 'member') {
+          return `removed ${metadata.email}`;
+        }
         return `deleted ${log.entity}`;
       
       case 'invite':
         return `invited ${metadata.email} as ${metadata.role}`;
+
+      case 'transfer':
+        return `transferred ownership to ${metadata.email}`;
+
+      case 'rotate':
+        if (log.entity === 'webhook') {
+          return `rolled the signing secret for ${metadata.url}`;
+        }
+        return `rotated API key "${metadata.name}"`;
+
+      case 'revoke':
+        return `revoked the invitation for ${metadata.email}`;
+
+      case 'accept':
+        return `joined as ${metadata.role}`;
+
+      case 'retry':
+        return `retried job #${log.entityId}`;
+
+      case 'cancel':
+        if (log.entity === 'subscription') {
+          return `cancelled the subscription`;
+        }
+        return `cancelled job #${log.entityId}`;
+
+      case 'subscribe':
+        return `subscribed to the ${metadata.plan} plan`;
+
+      case 'payment_failed':
+        return `couldn't collect a payment`;
+
+      case 'purge':
+        return `purged ${metadata.deleted} dead jobs`;
+
+      case 'warn':
+        return `flagged ${metadata.percent}% of monthly operations used`;
+
+      case 'limit':
+        return metadata.overage
+          ? `started billing operations as overage`
+          : `paused operations at the monthly limit`;
       
       default:
         return log.action;
@@ -3,6 +3,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { useOrganization } from "@/hooks/use-organization";
 import { useLocation } from "wouter";
 import Sidebar from "./sidebar";
+import TrialBanner from "@/components/billing/trial-banner";
+import DunningBanner from "@/components/billing/dunning-banner";
 
 interface AppShellProps {
   children: ReactNode;
@@ -45,6 +47,8 @@ export default function AppShell({ children }: AppShellProps) {
     <div className="flex min-h-screen bg-slate-50">
       <Sidebar />
       <div className="flex-1 flex flex-col">
+        <DunningBanner />
+        <TrialBanner />
         <main className="flex-1 overflow-auto">
           {children}
         </main>
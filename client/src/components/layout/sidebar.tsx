@@ -4,7 +4,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useOrganization } from "@/hooks/use-organization";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { ChevronDown, LayoutDashboard, Users, Key, Settings, CreditCard, FileText, LogOut, Plus, Network } from "lucide-react";
+import { ChevronDown, LayoutDashboard, Users, Key, Settings, CreditCard, FileText, LogOut, Plus, Network, Building2, BookOpen, ListChecks } from "lucide-react";
 import CreateOrganizationModal from "@/components/modals/create-organization-modal";
 
 const navigation = [
@@ -12,9 +12,12 @@ const navigation = [
   { name: "Pipelines", href: "/pipelines", icon: Network },
   { name: "Members", href: "/members", icon: Users },
   { name: "API Keys", href: "/api-keys", icon: Key },
+  { name: "API Reference", href: "/api-reference", icon: BookOpen },
   { name: "Integrations", href: "/integrations", icon: Settings },
   { name: "Billing", href: "/billing", icon: CreditCard },
   { name: "Audit Logs", href: "/audit-logs", icon: FileText },
+  { name: "Jobs", href: "/jobs", icon: ListChecks },
+  { name: "Settings", href: "/settings", icon: Building2 },
 ];
 
 export default function Sidebar() {
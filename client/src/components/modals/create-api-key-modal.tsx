@@ -3,6 +3,8 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/use-organization";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { SCOPE_DESCRIPTIONS } from "@/lib/api-keys";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -13,6 +15,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Copy } from "lucide-react";
 
 interface CreateApiKeyModalProps {
@@ -25,10 +35,18 @@ export default function CreateApiKeyModal({ open, onOpenChange }: CreateApiKeyMo
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["leads:read"]);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [roleCeiling, setRoleCeiling] = useState("none");
   const [createdKey, setCreatedKey] = useState<string | null>(null);
 
   const createMutation = useMutation({
-    mutationFn: async (data: { name: string }) => {
+    mutationFn: async (data: {
+      name: string;
+      scopes: ApiKeyScope[];
+      expiresAt: string | null;
+      roleCeiling: string | null;
+    }) => {
       const res = await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/api-keys`, data);
       return res.json();
     },
@@ -52,12 +70,27 @@ export default function CreateApiKeyModal({ open, onOpenChange }: CreateApiKeyMo
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    createMutation.mutate({ name });
+    createMutation.mutate({
+      name,
+      scopes,
+      // The key stays valid through the end of the chosen day
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+      roleCeiling: roleCeiling === "none" ? null : roleCeiling,
+    });
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
   };
 
   const handleClose = () => {
     onOpenChange(false);
     setName("");
+    setScopes(["leads:read"]);
+    setExpiresOn("");
+    setRoleCeiling("none");
     setCreatedKey(null);
   };
 
@@ -124,6 +157,53 @@ export default function CreateApiKeyModal({ open, onOpenChange }: CreateApiKeyMo
                 data-testid="input-api-key-name"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="space-y-2">
+                {API_KEY_SCOPES.map((scope) => (
+                  <div key={scope} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label htmlFor={`scope-${scope}`} className="font-mono text-xs">
+                        {scope}
+                      </Label>
+                      <p className="text-xs text-slate-500">{SCOPE_DESCRIPTIONS[scope]}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-expires">Expires (Optional)</Label>
+                <Input
+                  id="api-key-expires"
+                  type="date"
+                  value={expiresOn}
+                  min={new Date().toISOString().slice(0, 10)}
+                  onChange={(e) => setExpiresOn(e.target.value)}
+                  data-testid="input-api-key-expires"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role ceiling</Label>
+                <Select value={roleCeiling} onValueChange={setRoleCeiling} data-testid="select-role-ceiling">
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Same as mine</SelectItem>
+                    <SelectItem value="editor">Editor</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             <div className="flex justify-end space-x-3">
               <Button 
                 type="button" 
@@ -136,7 +216,7 @@ export default function CreateApiKeyModal({ open, onOpenChange }: CreateApiKeyMo
               <Button
                 type="submit"
                 className="bg-blue-600 text-white hover:bg-blue-700"
-                disabled={createMutation.isPending}
+                disabled={createMutation.isPending || scopes.length === 0}
                 data-testid="button-create-api-key-submit"
               >
                 {createMutation.isPending ? "Creating..." : "Create API Key"}
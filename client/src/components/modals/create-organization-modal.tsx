@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/use-organization";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { getPlanLimitError, type PlanLimitExceeded } from "@/lib/plan-limits";
 import {
   Dialog,
   DialogContent,
@@ -13,6 +14,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import UpgradePrompt from "@/components/billing/upgrade-prompt";
 
 interface CreateOrganizationModalProps {
   open: boolean;
@@ -24,6 +26,7 @@ export default function CreateOrganizationModal({ open, onOpenChange }: CreateOr
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [name, setName] = useState("");
+  const [planLimit, setPlanLimit] = useState<PlanLimitExceeded | null>(null);
 
   const createMutation = useMutation({
     mutationFn: async (data: { name: string }) => {
@@ -41,6 +44,12 @@ export default function CreateOrganizationModal({ open, onOpenChange }: CreateOr
       setName("");
     },
     onError: (error: any) => {
+      const limit = getPlanLimitError(error);
+      if (limit) {
+        setPlanLimit(limit);
+        return;
+      }
+
       toast({
         title: "Failed to create organization",
         description: error.message || "An error occurred while creating the organization",
@@ -51,12 +60,14 @@ export default function CreateOrganizationModal({ open, onOpenChange }: CreateOr
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setPlanLimit(null);
     createMutation.mutate({ name });
   };
 
   const handleClose = () => {
     onOpenChange(false);
     setName("");
+    setPlanLimit(null);
   };
 
   return (
@@ -81,6 +92,7 @@ export default function CreateOrganizationModal({ open, onOpenChange }: CreateOr
               data-testid="input-org-name"
             />
           </div>
+          {planLimit && <UpgradePrompt limit={planLimit} onUpgrade={handleClose} />}
           <div className="flex justify-end space-x-3">
             <Button 
               type="button" 
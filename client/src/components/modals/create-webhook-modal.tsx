@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { EVENT_DESCRIPTIONS } from "@/lib/webhooks";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface CreateWebhookModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CreateWebhookModal({ open, onOpenChange }: CreateWebhookModalProps) {
+  const { currentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["lead.created", "lead.moved"]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { url: string; description: string | null; events: WebhookEvent[] }) => {
+      const res = await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/webhooks`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "webhooks"] });
+      toast({
+        title: "Webhook added",
+        description: "Matching events will now be sent to this endpoint.",
+      });
+      handleClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add webhook",
+        description: error.message || "An error occurred while adding the webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ url, description: description || null, events });
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const handleClose = () => {
+    onOpenChange(false);
+    setUrl("");
+    setDescription("");
+    setEvents(["lead.created", "lead.moved"]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title-webhook">Add Webhook</DialogTitle>
+          <DialogDescription>
+            We'll POST a signed JSON payload to this URL whenever a selected event happens
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/webhooks"
+              required
+              data-testid="input-webhook-url"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description (Optional)</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="CRM sync, Slack notifier, etc."
+              data-testid="input-webhook-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="space-y-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <div key={event} className="flex items-start space-x-2">
+                  <Checkbox
+                    id={`event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-event-${event}`}
+                  />
+                  <div className="grid gap-0.5 leading-none">
+                    <Label htmlFor={`event-${event}`} className="font-mono text-xs">
+                      {event}
+                    </Label>
+                    <p className="text-xs text-slate-500">{EVENT_DESCRIPTIONS[event]}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              data-testid="button-cancel-webhook"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-blue-600 text-white hover:bg-blue-700"
+              disabled={createMutation.isPending || events.length === 0}
+              data-testid="button-create-webhook-submit"
+            >
+              {createMutation.isPending ? "Adding..." : "Add Webhook"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/use-organization";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { getPlanLimitError, type PlanLimitExceeded } from "@/lib/plan-limits";
 import {
   Dialog,
   DialogContent,
@@ -13,6 +14,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import UpgradePrompt from "@/components/billing/upgrade-prompt";
 import {
   Select,
   SelectContent,
@@ -28,23 +30,23 @@ interface InviteMemberModalProps {
 }
 
 export default function InviteMemberModal({ open, onOpenChange }: InviteMemberModalProps) {
-  const { currentOrganization } = useOrganization();
+  const { currentOrganization, userRole } = useOrganization();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [email, setEmail] = useState("");
   const [role, setRole] = useState("viewer");
   const [message, setMessage] = useState("");
+  const [planLimit, setPlanLimit] = useState<PlanLimitExceeded | null>(null);
 
   const inviteMutation = useMutation({
     mutationFn: async (data: { email: string; role: string; message?: string }) => {
       return await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/members`, data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "members"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "invitations"] });
       toast({
         title: "Invitation sent",
-        description: "The team member has been successfully invited.",
+        description: `An invitation email has been sent to ${email}.`,
       });
       onOpenChange(false);
       setEmail("");
@@ -52,6 +54,12 @@ export default function InviteMemberModal({ open, onOpenChange }: InviteMemberMo
       setMessage("");
     },
     onError: (error: any) => {
+      const limit = getPlanLimitError(error);
+      if (limit) {
+        setPlanLimit(limit);
+        return;
+      }
+
       toast({
         title: "Invitation failed",
         description: error.message || "Failed to send invitation",
@@ -62,11 +70,17 @@ export default function InviteMemberModal({ open, onOpenChange }: InviteMemberMo
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setPlanLimit(null);
     inviteMutation.mutate({ email, role, message });
   };
 
+  const handleOpenChange = (open: boolean) => {
+    onOpenChange(open);
+    setPlanLimit(null);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle data-testid="modal-title-invite">Invite Team Member</DialogTitle>
@@ -96,7 +110,7 @@ export default function InviteMemberModal({ open, onOpenChange }: InviteMemberMo
               <SelectContent>
                 <SelectItem value="viewer">Viewer</SelectItem>
                 <SelectItem value="editor">Editor</SelectItem>
-                <SelectItem value="admin">Admin</SelectItem>
+                {userRole === "admin" && <SelectItem value="admin">Admin</SelectItem>}
               </SelectContent>
             </Select>
           </div>
@@ -111,11 +125,14 @@ export default function InviteMemberModal({ open, onOpenChange }: InviteMemberMo
               data-testid="textarea-invite-message"
             />
           </div>
+          {planLimit && (
+            <UpgradePrompt limit={planLimit} onUpgrade={() => handleOpenChange(false)} />
+          )}
           <div className="flex justify-end space-x-3">
             <Button 
               type="button" 
               variant="outline" 
-              onClick={() => onOpenChange(false)}
+              onClick={() => handleOpenChange(false)}
               data-testid="button-cancel-invite"
             >
               Cancel
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy } from "lucide-react";
+
+const OVERLAP_OPTIONS = [
+  { hours: 0, label: "Revoke immediately" },
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "24 hours" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "7 days" },
+];
+
+interface RotateApiKeyModalProps {
+  apiKey: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RotateApiKeyModal({ apiKey, onOpenChange }: RotateApiKeyModalProps) {
+  const { currentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [overlapHours, setOverlapHours] = useState("24");
+  const [rotation, setRotation] = useState<{ keyValue: string; validUntil: string } | null>(null);
+
+  const rotateMutation = useMutation({
+    mutationFn: async (data: { overlapHours: number }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/organizations/${currentOrganization?.id}/api-keys/${apiKey?.id}/rotate`,
+        data
+      );
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "api-keys"] });
+      setRotation({ keyValue: data.apiKey.keyValue, validUntil: data.rotated.expiresAt });
+      toast({
+        title: "API key rotated",
+        description: "A replacement key has been generated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to rotate API key",
+        description: error.message || "An error occurred while rotating the API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    onOpenChange(false);
+    setOverlapHours("24");
+    setRotation(null);
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: "The API key has been copied to your clipboard.",
+    });
+  };
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title-rotate-api-key">
+            {rotation ? "API Key Rotated" : `Rotate "${apiKey?.name}"`}
+          </DialogTitle>
+          <DialogDescription>
+            {rotation
+              ? "Copy the new key now. You won't be able to see it again."
+              : "Generate a replacement key with the same scopes. The current key keeps working for the overlap period so you can update your integrations."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {rotation ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Your new API key</Label>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 px-3 py-2 bg-slate-100 text-slate-700 text-sm font-mono rounded border break-all">
+                  {rotation.keyValue}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => copyToClipboard(rotation.keyValue)}
+                  data-testid="button-copy-rotated-key"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-amber-600">
+                The old key stops working on {new Date(rotation.validUntil).toLocaleString()}.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleClose} data-testid="button-close-rotate-modal">
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Keep the old key working for</Label>
+              <Select value={overlapHours} onValueChange={setOverlapHours} data-testid="select-rotation-overlap">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OVERLAP_OPTIONS.map((option) => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                data-testid="button-cancel-rotate"
+              >
+                Cancel
+              </Button>
+              <Button
+                className="bg-blue-600 text-white hover:bg-blue-700"
+                onClick={() => rotateMutation.mutate({ overlapHours: Number(overlapHours) })}
+                disabled={rotateMutation.isPending}
+                data-testid="button-rotate-api-key-submit"
+              >
+                {rotateMutation.isPending ? "Rotating..." : "Rotate Key"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
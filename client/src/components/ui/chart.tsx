@@ -355,7 +355,22 @@ function getPayloadConfigFromPayload(
     : config[key as keyof typeof config]
 }
 
+// Chart primitives, so pages build charts from this module alone and always
+// inside a ChartContainer
+const {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+} = RechartsPrimitive
+
 export {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  XAxis,
+  YAxis,
   ChartContainer,
   ChartTooltip,
   ChartTooltipContent,
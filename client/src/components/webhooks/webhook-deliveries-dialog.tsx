@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, RotateCw } from "lucide-react";
+
+export interface WebhookDelivery {
+  id: string;
+  event: string;
+  requestBody: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+interface WebhookDeliveriesDialogProps {
+  webhook: { id: string; url: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  succeeded: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function prettyJson(text: string) {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+export default function WebhookDeliveriesDialog({ webhook, onOpenChange }: WebhookDeliveriesDialogProps) {
+  const { currentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const deliveriesKey = ["/api/organizations", currentOrganization?.id, "webhooks", webhook?.id, "deliveries"];
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesKey,
+    enabled: !!currentOrganization && !!webhook,
+    // Deliveries are retried in the background, so keep the log current
+    staleTime: 0,
+    refetchInterval: 10000,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/organizations/${currentOrganization?.id}/webhooks/${webhook?.id}/deliveries/${deliveryId}/redeliver`
+      );
+      return (await res.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      setExpandedId(delivery.id);
+      toast({
+        title: delivery.status === "succeeded" ? "Redelivered" : "Redelivery failed",
+        description: delivery.error || `The endpoint responded with ${delivery.responseStatus}.`,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to redeliver",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title-webhook-deliveries">Recent Deliveries</DialogTitle>
+          <DialogDescription className="font-mono break-all">{webhook?.url}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="animate-pulse h-10 bg-slate-200 rounded"></div>
+            ))}
+          </div>
+        ) : !deliveries || deliveries.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-8" data-testid="text-no-deliveries">
+            Nothing has been sent to this endpoint yet
+          </p>
+        ) : (
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+            {deliveries.map((delivery) => {
+              const expanded = expandedId === delivery.id;
+              return (
+                <div key={delivery.id} data-testid={`delivery-${delivery.id}`}>
+                  <button
+                    type="button"
+                    className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-slate-50"
+                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                  >
+                    <div className="flex items-center space-x-3">
+                      {expanded ? (
+                        <ChevronDown className="w-4 h-4 text-slate-400" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-slate-400" />
+                      )}
+                      <Badge variant="secondary" className={`capitalize ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </Badge>
+                      <code className="text-sm text-slate-900">{delivery.event}</code>
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-slate-500">
+                      {delivery.responseStatus !== null && <span>HTTP {delivery.responseStatus}</span>}
+                      <span>
+                        {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                      </span>
+                      <span>{new Date(delivery.createdAt).toLocaleString()}</span>
+                    </div>
+                  </button>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      {delivery.error && (
+                        <p className="text-sm text-red-600" data-testid={`text-delivery-error-${delivery.id}`}>
+                          {delivery.error}
+                        </p>
+                      )}
+                      {delivery.status === "pending" && delivery.nextAttemptAt && (
+                        <p className="text-xs text-slate-500">
+                          Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <h4 className="text-xs font-medium text-slate-700">Request</h4>
+                          <pre className="bg-slate-900 text-slate-100 text-xs rounded-md p-3 overflow-auto max-h-64">
+                            {prettyJson(delivery.requestBody)}
+                          </pre>
+                        </div>
+                        <div className="space-y-1">
+                          <h4 className="text-xs font-medium text-slate-700">Response</h4>
+                          <pre className="bg-slate-900 text-slate-100 text-xs rounded-md p-3 overflow-auto max-h-64">
+                            {delivery.responseBody ? prettyJson(delivery.responseBody) : "No response body"}
+                          </pre>
+                        </div>
+                      </div>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => redeliverMutation.mutate(delivery.id)}
+                          disabled={redeliverMutation.isPending}
+                          data-testid={`button-redeliver-${delivery.id}`}
+                        >
+                          <RotateCw className="w-4 h-4 mr-2" />
+                          Redeliver
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Eye, EyeOff, History, RefreshCw, Trash2, Webhook } from "lucide-react";
+import CreateWebhookModal from "@/components/modals/create-webhook-modal";
+import WebhookDeliveriesDialog from "./webhook-deliveries-dialog";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+export default function WebhooksSection() {
+  const { currentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [viewingWebhook, setViewingWebhook] = useState<WebhookEndpoint | null>(null);
+
+  const webhooksKey = ["/api/organizations", currentOrganization?.id, "webhooks"];
+  const { data: webhooks, isLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: webhooksKey,
+    enabled: !!currentOrganization,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest("PUT", `/api/organizations/${currentOrganization?.id}/webhooks/${id}`, { enabled });
+    },
+    onSuccess: (_data, { enabled }) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      toast({
+        title: enabled ? "Webhook enabled" : "Webhook disabled",
+        description: enabled
+          ? "Events will be sent to this endpoint again."
+          : "No more events will be sent to this endpoint.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/webhooks/${id}/roll-secret`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      setRevealedId(id);
+      toast({
+        title: "Signing secret rolled",
+        description: "Update your endpoint to verify signatures with the new secret.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll the signing secret",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/organizations/${currentOrganization?.id}/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      toast({
+        title: "Webhook deleted",
+        description: "The endpoint and its delivery log have been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: "The signing secret has been copied to your clipboard.",
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                <Webhook className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">Webhooks</CardTitle>
+                <CardDescription>
+                  Notify your own services when pipelines and leads change
+                </CardDescription>
+              </div>
+            </div>
+            <Button
+              className="bg-blue-600 text-white hover:bg-blue-700"
+              onClick={() => setShowCreateModal(true)}
+              data-testid="button-add-webhook"
+            >
+              Add Webhook
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="animate-pulse h-20 bg-slate-200 rounded-lg"></div>
+              ))}
+            </div>
+          ) : !webhooks || webhooks.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6" data-testid="text-no-webhooks">
+              No webhooks yet. Add an endpoint to start receiving events.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {webhooks.map((webhook) => (
+                <div
+                  key={webhook.id}
+                  className="p-4 border border-slate-200 rounded-lg space-y-3"
+                  data-testid={`webhook-${webhook.id}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-mono text-slate-900 break-all" data-testid={`webhook-url-${webhook.id}`}>
+                        {webhook.url}
+                      </p>
+                      {webhook.description && (
+                        <p className="text-xs text-slate-500 mt-0.5">{webhook.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 ml-4">
+                      <Switch
+                        checked={webhook.enabled}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ id: webhook.id, enabled })}
+                        disabled={updateMutation.isPending}
+                        data-testid={`switch-webhook-enabled-${webhook.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-slate-600 p-1"
+                        onClick={() => setViewingWebhook(webhook)}
+                        data-testid={`button-webhook-deliveries-${webhook.id}`}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-red-600 p-1"
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-webhook-${webhook.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="outline" className="font-mono text-xs">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-slate-500">Signing secret</span>
+                    <code className="px-2 py-1 bg-slate-100 text-slate-700 text-xs font-mono rounded">
+                      {revealedId === webhook.id ? webhook.secret : "whsec_••••••••••••••••"}
+                    </code>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-slate-600 p-1"
+                      onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                      data-testid={`button-reveal-secret-${webhook.id}`}
+                    >
+                      {revealedId === webhook.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-slate-600 p-1"
+                      onClick={() => copyToClipboard(webhook.secret)}
+                      data-testid={`button-copy-secret-${webhook.id}`}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-blue-600 p-1"
+                      onClick={() => rollSecretMutation.mutate(webhook.id)}
+                      disabled={rollSecretMutation.isPending}
+                      data-testid={`button-roll-secret-${webhook.id}`}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateWebhookModal open={showCreateModal} onOpenChange={setShowCreateModal} />
+
+      <WebhookDeliveriesDialog
+        webhook={viewingWebhook}
+        onOpenChange={(open) => !open && setViewingWebhook(null)}
+      />
+    </>
+  );
+}
@@ -24,8 +24,13 @@ interface User {
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  signup: (email: string, password: string, name: string) => Promise<void>;
+  login: (email: string, password: string, redirectTo?: string) => Promise<void>;
+  signup: (
+    email: string,
+    password: string,
+    name: string,
+    inviteToken?: string
+  ) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -47,6 +52,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }: {
       email: string;
       password: string;
+      redirectTo?: string;
     }) => {
       const res = await apiRequest("POST", "/api/auth/login", {
         email,
@@ -54,9 +60,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { redirectTo }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
-      setLocation("/dashboard");
+      setLocation(redirectTo || "/dashboard");
     },
   });
 
@@ -65,15 +71,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       email,
       password,
       name,
+      inviteToken,
     }: {
       email: string;
       password: string;
       name: string;
+      inviteToken?: string;
     }) => {
       const res = await apiRequest("POST", "/api/auth/signup", {
         email,
         password,
         name,
+        inviteToken,
       });
       return res.json();
     },
@@ -98,11 +107,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user: userData?.user || null,
         isLoading,
-        login: async (email, password) => {
-          await loginMutation.mutateAsync({ email, password });
+        login: async (email, password, redirectTo) => {
+          await loginMutation.mutateAsync({ email, password, redirectTo });
         },
-        signup: async (email, password, name) => {
-          await signupMutation.mutateAsync({ email, password, name });
+        signup: async (email, password, name, inviteToken) => {
+          await signupMutation.mutateAsync({ email, password, name, inviteToken });
         },
         logout: async () => {
           await logoutMutation.mutateAsync();
@@ -7,6 +7,7 @@ interface Organization {
   name: string;
   plan: string;
   ownerId: string;
+  trialEnd: string | null;
   createdAt: string;
 }
 
@@ -17,6 +18,13 @@ interface Subscription {
   metered: Record<string, any>;
 }
 
+// See getDunningState on the server
+interface Dunning {
+  status: "ok" | "grace" | "restricted";
+  pastDueSince?: string;
+  graceEndsAt?: string;
+}
+
 interface Stats {
   members: number;
   operations: number;
@@ -24,10 +32,23 @@ interface Stats {
   apiKeys: number;
 }
 
+// GET /api/organizations/:organizationId
+interface OrganizationResponse {
+  organization: Organization;
+  subscription: Subscription | null;
+  stats: Stats;
+  readOnlyPipelineIds: string[];
+  dunning: Dunning;
+  userRole: string;
+}
+
 interface OrganizationContextType {
   currentOrganization: Organization | null;
   subscription: Subscription | null;
   stats: Stats | null;
+  // Pipelines over the plan's limit, e.g. after a trial ends
+  readOnlyPipelineIds: string[];
+  dunning: Dunning;
   userRole: string | null;
   setCurrentOrganization: (orgId: string) => void;
   isLoading: boolean;
@@ -47,7 +68,7 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
     }
   }, [user]);
 
-  const { data: orgData, isLoading } = useQuery({
+  const { data: orgData, isLoading } = useQuery<OrganizationResponse>({
     queryKey: ["/api/organizations", currentOrgId],
     enabled: !!currentOrgId,
     retry: false,
@@ -64,6 +85,8 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
         currentOrganization: orgData?.organization || null,
         subscription: orgData?.subscription || null,
         stats: orgData?.stats || null,
+        readOnlyPipelineIds: orgData?.readOnlyPipelineIds || [],
+        dunning: orgData?.dunning || { status: "ok" },
         userRole: orgData?.userRole || null,
         setCurrentOrganization,
         isLoading,
@@ -0,0 +1,13 @@
+import type { ApiKeyScope } from "@shared/schema";
+
+export const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "leads:read": "Read pipelines, stages and leads",
+  "leads:write": "Create, update, move and comment on leads",
+  "pipelines:admin": "Create and change pipelines and stages",
+  "members:read": "List organization members",
+  "audit:read": "Read the audit log",
+};
+
+export function isApiKeyExpired(apiKey: { expiresAt: string | Date | null }): boolean {
+  return !!apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date();
+}
@@ -0,0 +1,23 @@
+export interface PlanLimitExceeded {
+  error: string;
+  code: 'plan_limit_exceeded';
+  resource: 'members' | 'pipelines' | 'tableMappings' | 'organizations' | 'operations';
+  plan: string;
+  limit: number;
+  current: number;
+}
+
+// apiRequest throws "<status>: <body>", so pull the structured body back out
+export function getPlanLimitError(error: unknown): PlanLimitExceeded | null {
+  if (!(error instanceof Error)) return null;
+
+  const match = error.message.match(/^402: ([\s\S]*)$/);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[1]);
+    return body?.code === 'plan_limit_exceeded' ? body : null;
+  } catch {
+    return null;
+  }
+}
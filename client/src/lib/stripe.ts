@@ -5,7 +5,9 @@ if (!STRIPE_PUBLISHABLE_KEY) {
 }
 
 export interface CreateCheckoutSessionParams {
-  priceId: string;
+  // The server looks up the plan's price
+  plan: StripePlan;
+  // Paths within the app, like /billing
   successUrl: string;
   cancelUrl: string;
 }
@@ -78,13 +80,11 @@ export const stripeService = new StripeService();
 export const STRIPE_PLANS = {
   pro: {
     name: 'Pro',
-    priceId: import.meta.env.VITE_STRIPE_PRICE_PRO,
     price: 29,
     billing: 'monthly',
   },
   team: {
     name: 'Team',
-    priceId: import.meta.env.VITE_STRIPE_PRICE_TEAM,
     price: 99,
     billing: 'monthly',
   },
@@ -97,9 +97,5 @@ export function getStripePlan(planKey: string): typeof STRIPE_PLANS[StripePlan]
 }
 
 export function validateStripeConfig(): boolean {
-  return !!(
-    STRIPE_PUBLISHABLE_KEY &&
-    import.meta.env.VITE_STRIPE_PRICE_PRO &&
-    import.meta.env.VITE_STRIPE_PRICE_TEAM
-  );
+  return !!STRIPE_PUBLISHABLE_KEY;
 }
@@ -0,0 +1,12 @@
+import type { WebhookEvent } from "@shared/schema";
+
+export const EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  "pipeline.created": "A pipeline was created",
+  "pipeline.updated": "A pipeline was renamed or changed",
+  "pipeline.deleted": "A pipeline was deleted",
+  "lead.created": "A lead was added to a stage",
+  "lead.updated": "A lead's details changed",
+  "lead.moved": "A lead moved to another stage",
+  "lead.deleted": "A lead was deleted",
+  "lead.commented": "Someone commented on a lead",
+};
@@ -0,0 +1,197 @@
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface InvitationDetails {
+  email: string;
+  role: string;
+  message: string | null;
+  expiresAt: string;
+  status: "pending" | "expired" | "accepted" | "declined" | "revoked";
+  organization: { id: string; name: string };
+  inviter: { name: string | null };
+}
+
+const STATUS_MESSAGES: Record<Exclude<InvitationDetails["status"], "pending">, string> = {
+  expired: "This invitation has expired. Ask the person who invited you to send a new one.",
+  accepted: "This invitation has already been accepted.",
+  declined: "This invitation was declined.",
+  revoked: "This invitation has been revoked.",
+};
+
+export default function AcceptInvitation() {
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: isUserLoading } = useAuth();
+  const { setCurrentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/invitations/${token}/accept`);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      setCurrentOrganization(invitation!.organization.id);
+      toast({
+        title: "Invitation accepted",
+        description: `You've joined ${invitation?.organization.name}.`,
+      });
+      setLocation("/dashboard");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/invitations/${token}/decline`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations", token] });
+      toast({
+        title: "Invitation declined",
+        description: "You won't be added to this organization.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to decline invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isWrongAccount =
+    !!user && !!invitation && user.email.toLowerCase() !== invitation.email;
+
+  const renderActions = () => {
+    if (!invitation) return null;
+
+    if (invitation.status !== "pending") {
+      return (
+        <p className="text-sm text-slate-500 text-center" data-testid="text-invitation-status">
+          {STATUS_MESSAGES[invitation.status]}
+        </p>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="space-y-3">
+          <Link href={`/signup?invite=${token}`}>
+            <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white" data-testid="button-signup-invite">
+              Create account
+            </Button>
+          </Link>
+          <Link href={`/login?invite=${token}`}>
+            <Button variant="outline" className="w-full" data-testid="button-login-invite">
+              I already have an account
+            </Button>
+          </Link>
+          <Button
+            variant="ghost"
+            className="w-full text-slate-500"
+            onClick={() => declineMutation.mutate()}
+            disabled={declineMutation.isPending}
+            data-testid="button-decline-invite"
+          >
+            Decline
+          </Button>
+        </div>
+      );
+    }
+
+    if (isWrongAccount) {
+      return (
+        <p className="text-sm text-slate-500 text-center" data-testid="text-invitation-wrong-account">
+          This invitation was sent to {invitation.email}, but you're signed in as {user.email}.
+          Sign out and sign in with the invited email to accept it.
+        </p>
+      );
+    }
+
+    return (
+      <div className="flex space-x-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => declineMutation.mutate()}
+          disabled={declineMutation.isPending || acceptMutation.isPending}
+          data-testid="button-decline-invite"
+        >
+          Decline
+        </Button>
+        <Button
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+          onClick={() => acceptMutation.mutate()}
+          disabled={acceptMutation.isPending || declineMutation.isPending}
+          data-testid="button-accept-invite"
+        >
+          {acceptMutation.isPending ? "Joining..." : "Accept invitation"}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        {isLoading || isUserLoading ? (
+          <CardContent className="pt-6">
+            <div className="animate-pulse space-y-4">
+              <div className="h-6 bg-slate-200 rounded w-3/4 mx-auto"></div>
+              <div className="h-4 bg-slate-200 rounded w-1/2 mx-auto"></div>
+              <div className="h-10 bg-slate-200 rounded"></div>
+            </div>
+          </CardContent>
+        ) : error || !invitation ? (
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-semibold text-center text-slate-900">
+              Invitation not found
+            </CardTitle>
+            <CardDescription className="text-center text-slate-500">
+              This invitation link is invalid or has been replaced by a newer one.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-semibold text-center text-slate-900" data-testid="text-invitation-title">
+                Join {invitation.organization.name}
+              </CardTitle>
+              <CardDescription className="text-center text-slate-500">
+                {invitation.inviter.name || "Someone"} invited {invitation.email} to join as{" "}
+                <span className="capitalize">{invitation.role}</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {invitation.message && invitation.status === "pending" && (
+                <blockquote className="border-l-2 border-slate-200 pl-3 text-sm text-slate-600 italic">
+                  {invitation.message}
+                </blockquote>
+              )}
+              {renderActions()}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { useOrganization } from "@/hooks/use-organization";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  XAxis,
+  YAxis,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface ApiKeyUsage {
+  apiKey: {
+    id: string;
+    name: string;
+    keyPreview: string;
+    scopes: string[];
+    lastUsedAt: string | null;
+  };
+  retentionDays: number;
+  daily: { day: string; requests: number; errors: number }[];
+  endpoints: { method: string; route: string; requests: number; errors: number; avgDurationMs: number }[];
+  totals: { requests: number; errors: number; errorRate: number };
+}
+
+const chartConfig = {
+  requests: { label: "Successful", color: "hsl(221 83% 53%)" },
+  errors: { label: "Errors", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export default function ApiKeyDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { currentOrganization } = useOrganization();
+
+  const { data: usage, isLoading } = useQuery<ApiKeyUsage>({
+    queryKey: ["/api/organizations", currentOrganization?.id, "api-keys", id, "usage"],
+    enabled: !!currentOrganization && !!id,
+  });
+
+  // Stack errors on top of successful requests so bar height is total volume
+  const chartData = usage?.daily.map((d) => ({
+    day: d.day,
+    requests: d.requests - d.errors,
+    errors: d.errors,
+  }));
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/api-keys">
+            <Button variant="ghost" size="sm" data-testid="button-back-api-keys">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900" data-testid="text-page-title">
+              {usage?.apiKey.name || "API Key"}
+            </h1>
+            <p className="text-sm text-slate-500 mt-1 font-mono">{usage?.apiKey.keyPreview}</p>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-6 overflow-auto space-y-6">
+        {isLoading || !usage ? (
+          <div className="animate-pulse space-y-6">
+            <div className="grid grid-cols-3 gap-6">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-24 bg-slate-200 rounded-xl"></div>
+              ))}
+            </div>
+            <div className="h-72 bg-slate-200 rounded-xl"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Requests</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-usage-requests">
+                    {usage.totals.requests.toLocaleString()}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  Last {usage.retentionDays} days
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Error rate</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-usage-error-rate">
+                    {formatPercent(usage.totals.errorRate)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  {usage.totals.errors.toLocaleString()} responses with status 400 or above
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Last used</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-usage-last-used">
+                    {usage.apiKey.lastUsedAt
+                      ? new Date(usage.apiKey.lastUsedAt).toLocaleDateString()
+                      : "Never"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-1">
+                  {usage.apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="font-mono text-xs">
+                      {scope}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Request volume</CardTitle>
+                <CardDescription>
+                  Requests per day. Your plan keeps {usage.retentionDays} days of history.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-72 w-full" data-testid="chart-api-key-usage">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="day"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(day: string) => day.slice(5)}
+                    />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="requests" stackId="usage" fill="var(--color-requests)" />
+                    <Bar dataKey="errors" stackId="usage" fill="var(--color-errors)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Top endpoints</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {usage.endpoints.length === 0 ? (
+                  <p className="text-sm text-slate-500 text-center py-6" data-testid="text-no-usage">
+                    This key hasn't made any requests yet
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Endpoint</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Error rate</TableHead>
+                        <TableHead className="text-right">Avg latency</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usage.endpoints.map((endpoint) => (
+                        <TableRow
+                          key={`${endpoint.method} ${endpoint.route}`}
+                          data-testid={`row-endpoint-${endpoint.method}-${endpoint.route}`}
+                        >
+                          <TableCell className="font-mono text-sm">
+                            <span className="font-semibold mr-2">{endpoint.method}</span>
+                            {endpoint.route}
+                          </TableCell>
+                          <TableCell className="text-right">{endpoint.requests.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            {formatPercent(endpoint.errors / endpoint.requests)}
+                          </TableCell>
+                          <TableCell className="text-right">{endpoint.avgDurationMs} ms</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/use-organization";
 import { useToast } from "@/hooks/use-toast";
@@ -24,13 +25,19 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Copy, Key, Trash2 } from "lucide-react";
+import { Copy, Key, RefreshCw, Trash2 } from "lucide-react";
 import CreateApiKeyModal from "@/components/modals/create-api-key-modal";
+import RotateApiKeyModal from "@/components/modals/rotate-api-key-modal";
+import { isApiKeyExpired } from "@/lib/api-keys";
 
 interface ApiKey {
   id: string;
   name: string;
   keyPreview: string;
+  scopes: string[];
+  expiresAt: string | null;
+  roleCeiling: string | null;
+  replacedById: string | null;
   lastUsedAt: string | null;
   createdAt: string;
 }
@@ -40,6 +47,7 @@ export default function ApiKeys() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [rotatingKey, setRotatingKey] = useState<ApiKey | null>(null);
 
   const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
     queryKey: ["/api/organizations", currentOrganization?.id, "api-keys"],
@@ -91,7 +99,15 @@ export default function ApiKeys() {
     return `${diffDays} days ago`;
   };
 
-  const getStatusBadge = (lastUsedAt: string | null) => {
+  const getStatusBadge = ({ lastUsedAt, expiresAt, replacedById }: ApiKey) => {
+    if (isApiKeyExpired({ expiresAt })) {
+      return <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>;
+    }
+
+    if (replacedById) {
+      return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Rotated</Badge>;
+    }
+
     if (!lastUsedAt) {
       return <Badge variant="secondary" className="bg-orange-100 text-orange-800">Unused</Badge>;
     }
@@ -196,6 +212,7 @@ export default function ApiKeys() {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Last Used</TableHead>
                     <TableHead>Created</TableHead>
@@ -206,8 +223,22 @@ export default function ApiKeys() {
                   {apiKeys.map((apiKey) => (
                     <TableRow key={apiKey.id} data-testid={`api-key-row-${apiKey.id}`}>
                       <TableCell>
-                        <div className="font-medium text-slate-900" data-testid={`api-key-name-${apiKey.id}`}>
+                        <Link
+                          href={`/api-keys/${apiKey.id}`}
+                          className="font-medium text-slate-900 hover:text-blue-600"
+                          data-testid={`api-key-name-${apiKey.id}`}
+                        >
                           {apiKey.name}
+                        </Link>
+                        <div className="text-xs text-slate-500" data-testid={`api-key-limits-${apiKey.id}`}>
+                          {apiKey.expiresAt
+                            ? `Expires ${apiKey.replacedById
+                                ? new Date(apiKey.expiresAt).toLocaleString()
+                                : new Date(apiKey.expiresAt).toLocaleDateString()}`
+                            : "Never expires"}
+                          {apiKey.roleCeiling && (
+                            <> • Acts as <span className="capitalize">{apiKey.roleCeiling}</span> at most</>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -227,7 +258,16 @@ export default function ApiKeys() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {getStatusBadge(apiKey.lastUsedAt)}
+                        <div className="flex flex-wrap gap-1" data-testid={`api-key-scopes-${apiKey.id}`}>
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline" className="font-mono text-xs">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {getStatusBadge(apiKey)}
                       </TableCell>
                       <TableCell className="text-slate-500">
                         {formatTimeAgo(apiKey.lastUsedAt)}
@@ -236,6 +276,17 @@ export default function ApiKeys() {
                         {formatTimeAgo(apiKey.createdAt)}
                       </TableCell>
                       <TableCell className="text-right">
+                        {canManageKeys && !apiKey.replacedById && !isApiKeyExpired(apiKey) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-slate-400 hover:text-blue-600"
+                            onClick={() => setRotatingKey(apiKey)}
+                            data-testid={`rotate-api-key-${apiKey.id}`}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        )}
                         {canManageKeys && (
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
@@ -282,6 +333,11 @@ export default function ApiKeys() {
         open={showCreateModal}
         onOpenChange={setShowCreateModal}
       />
+
+      <RotateApiKeyModal
+        apiKey={rotatingKey}
+        onOpenChange={(open) => !open && setRotatingKey(null)}
+      />
     </>
   );
 }
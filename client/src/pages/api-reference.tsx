@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+};
+
+interface Parameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  "x-scope": string;
+  parameters?: Parameter[];
+  requestBody?: { content: { "application/json": { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content?: { "application/json": { schema: JsonSchema } } }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const METHOD_COLORS: Record<string, string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  put: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+function refName(ref: string) {
+  return ref.split("/").pop()!;
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map(describeType).join(" | ");
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  if (schema.type === "array") return `${describeType(schema.items || {})}[]`;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type || "any"];
+  return types.map((type) => (type === "string" && schema.format ? `${type} (${schema.format})` : type)).join(" | ");
+}
+
+// Builds a placeholder body for the "Try it" editor from the request schema
+function exampleFor(schema: JsonSchema, doc: OpenApiDocument): unknown {
+  if (schema.$ref) return exampleFor(doc.components.schemas[refName(schema.$ref)], doc);
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) return exampleFor(schema.anyOf[0], doc);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {})
+          .filter(([name]) => schema.required?.includes(name))
+          .map(([name, property]) => [name, exampleFor(property, doc)])
+      );
+    case "array":
+      return [exampleFor(schema.items || {}, doc)];
+    case "integer":
+    case "number":
+      return 0;
+    case "boolean":
+      return true;
+    case "string":
+      return schema.format === "uuid" ? "00000000-0000-0000-0000-000000000000" : "string";
+    default:
+      return null;
+  }
+}
+
+function SchemaFields({ schema, doc }: { schema: JsonSchema; doc: OpenApiDocument }) {
+  const resolved = schema.$ref ? doc.components.schemas[refName(schema.$ref)] : schema;
+  if (!resolved.properties) {
+    return <code className="text-xs text-slate-600">{describeType(schema)}</code>;
+  }
+
+  return (
+    <div className="border border-slate-200 rounded-md divide-y divide-slate-200">
+      {Object.entries(resolved.properties).map(([name, property]) => (
+        <div key={name} className="flex items-center justify-between px-3 py-2 text-sm">
+          <span className="font-mono">
+            {name}
+            {resolved.required?.includes(name) && <span className="text-red-500 ml-0.5">*</span>}
+          </span>
+          <code className="text-xs text-slate-500">{describeType(property)}</code>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OperationPanel({
+  method,
+  path,
+  operation,
+  doc,
+  apiKey,
+}: {
+  method: string;
+  path: string;
+  operation: Operation;
+  doc: OpenApiDocument;
+  apiKey: string;
+}) {
+  const requestSchema = operation.requestBody?.content["application/json"].schema;
+  const responseSchema = operation.responses["200"]?.content?.["application/json"].schema;
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() =>
+    requestSchema ? JSON.stringify(exampleFor(requestSchema, doc), null, 2) : ""
+  );
+  const [result, setResult] = useState<{ status: number; body: string } | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const sendRequest = async () => {
+    const parameters = operation.parameters || [];
+    const resolvedPath = parameters
+      .filter((p) => p.in === "path")
+      .reduce((url, p) => url.replace(`{${p.name}}`, encodeURIComponent(params[p.name] || "")), path);
+    const query = new URLSearchParams(
+      parameters
+        .filter((p) => p.in === "query" && params[p.name])
+        .map((p) => [p.name, params[p.name]])
+    ).toString();
+
+    setIsSending(true);
+    try {
+      const res = await fetch(`${doc.servers[0].url}${resolvedPath}${query ? `?${query}` : ""}`, {
+        method: method.toUpperCase(),
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          ...(requestSchema && { "Content-Type": "application/json" }),
+        },
+        body: requestSchema ? body : undefined,
+        credentials: "omit",
+      });
+      const text = await res.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show it as is
+      }
+      setResult({ status: res.status, body: formatted });
+    } catch (error: any) {
+      setResult({ status: 0, body: error.message });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <AccordionItem value={`${method} ${path}`} data-testid={`operation-${operation.operationId}`}>
+      <AccordionTrigger className="hover:no-underline">
+        <div className="flex items-center space-x-3 text-left">
+          <Badge variant="secondary" className={`${METHOD_COLORS[method]} uppercase font-mono w-16 justify-center`}>
+            {method}
+          </Badge>
+          <code className="text-sm text-slate-900">{path}</code>
+          <span className="text-sm text-slate-500 hidden md:inline">{operation.summary}</span>
+        </div>
+      </AccordionTrigger>
+      <AccordionContent className="space-y-4">
+        <div className="flex items-center space-x-2 text-sm text-slate-600">
+          <span>Requires scope</span>
+          <Badge variant="outline" className="font-mono text-xs">{operation["x-scope"]}</Badge>
+        </div>
+
+        {operation.parameters && operation.parameters.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-slate-900">Parameters</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {operation.parameters.map((parameter) => (
+                <div key={parameter.name} className="space-y-1">
+                  <Label htmlFor={`${operation.operationId}-${parameter.name}`} className="font-mono text-xs">
+                    {parameter.name}
+                    {parameter.required && <span className="text-red-500 ml-0.5">*</span>}
+                    <span className="text-slate-400 ml-2">{parameter.in}</span>
+                  </Label>
+                  <Input
+                    id={`${operation.operationId}-${parameter.name}`}
+                    value={params[parameter.name] || ""}
+                    placeholder={describeType(parameter.schema)}
+                    onChange={(e) => setParams({ ...params, [parameter.name]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {requestSchema && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-slate-900">Request body</h4>
+            <SchemaFields schema={requestSchema} doc={doc} />
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="font-mono text-xs min-h-32"
+              data-testid={`textarea-body-${operation.operationId}`}
+            />
+          </div>
+        )}
+
+        {responseSchema && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-slate-900">
+              Response <code className="text-xs text-slate-500 ml-1">{describeType(responseSchema)}</code>
+            </h4>
+            <SchemaFields schema={responseSchema.items || responseSchema} doc={doc} />
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <Button
+            size="sm"
+            className="bg-blue-600 text-white hover:bg-blue-700"
+            onClick={sendRequest}
+            disabled={!apiKey || isSending}
+            data-testid={`button-try-${operation.operationId}`}
+          >
+            {isSending ? "Sending..." : "Send request"}
+          </Button>
+          {!apiKey && <span className="text-xs text-slate-500">Enter an API key above to try this endpoint</span>}
+        </div>
+
+        {result && (
+          <div className="space-y-1" data-testid={`result-${operation.operationId}`}>
+            <Badge
+              variant="secondary"
+              className={result.status >= 200 && result.status < 300 ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+            >
+              {result.status || "Network error"}
+            </Badge>
+            <pre className="bg-slate-900 text-slate-100 text-xs rounded-md p-3 overflow-auto max-h-80">
+              {result.body}
+            </pre>
+          </div>
+        )}
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
+
+export default function ApiReference() {
+  const [apiKey, setApiKey] = useState("");
+
+  const { data: doc, isLoading } = useQuery<OpenApiDocument>({
+    queryKey: ["/api/openapi.json"],
+  });
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900" data-testid="text-page-title">
+              API Reference
+            </h1>
+            <p className="text-sm text-slate-500 mt-1">{doc?.info.description}</p>
+          </div>
+          <a href="/api/openapi.json" target="_blank" rel="noreferrer">
+            <Button variant="outline" data-testid="button-download-openapi">
+              OpenAPI JSON
+            </Button>
+          </a>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-6 overflow-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Authentication</CardTitle>
+            <CardDescription>
+              Requests are made to <code>{doc?.servers[0].url ?? "/api/v1"}</code> with an organization API key
+              in the <code>Authorization: Bearer sk_...</code> header. Paste a key here to try endpoints from this
+              page; it is only kept until you leave.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value.trim())}
+              placeholder="sk_..."
+              className="font-mono max-w-md"
+              data-testid="input-reference-api-key"
+            />
+          </CardContent>
+        </Card>
+
+        {isLoading || !doc ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-slate-200 rounded-xl"></div>
+            ))}
+          </div>
+        ) : (
+          doc.tags.map((tag) => (
+            <Card key={tag.name} data-testid={`card-tag-${tag.name}`}>
+              <CardHeader className="pb-0">
+                <CardTitle className="text-lg">{tag.name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Accordion type="multiple">
+                  {Object.entries(doc.paths).flatMap(([path, operations]) =>
+                    Object.entries(operations)
+                      .filter(([, operation]) => operation.tags.includes(tag.name))
+                      .map(([method, operation]) => (
+                        <OperationPanel
+                          key={`${method} ${path}`}
+                          method={method}
+                          path={path}
+                          operation={operation}
+                          doc={doc}
+                          apiKey={apiKey}
+                        />
+                      ))
+                  )}
+                </Accordion>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
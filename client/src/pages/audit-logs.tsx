@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { ApiClient } from "@shared/sdk";
 import { useOrganization } from "@/hooks/use-organization";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -9,6 +10,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { FileText } from "lucide-react";
 
@@ -22,13 +24,25 @@ interface AuditLog {
   actorId: string | null;
 }
 
+const PAGE_SIZE = 50;
+
 export default function AuditLogs() {
   const { currentOrganization } = useOrganization();
 
-  const { data: auditLogs, isLoading } = useQuery<AuditLog[]>({
-    queryKey: ["/api/organizations", currentOrganization?.id, "audit-logs"],
+  // Kept under the audit-logs key so invalidating it refreshes every page
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/organizations", currentOrganization?.id, "audit-logs", "pages"],
+    queryFn: ({ pageParam }) =>
+      new ApiClient({ organizationId: currentOrganization!.id }).auditLogs.list({
+        limit: PAGE_SIZE,
+        before: pageParam,
+      }),
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].id : undefined,
     enabled: !!currentOrganization,
   });
+  const auditLogs: AuditLog[] | undefined = data?.pages.flat();
 
   const getActionBadgeVariant = (action: string) => {
     switch (action) {
@@ -68,6 +82,9 @@ export default function AuditLogs() {
         if (log.entity === 'api_key') {
           return `Created API key "${metadata.name}"`;
         }
+        if (log.entity === 'webhook') {
+          return `Added webhook ${metadata.url} for ${metadata.events.join(', ')}`;
+        }
         if (log.entity === 'organization') {
           return `Created organization "${metadata.name}"`;
         }
@@ -77,16 +94,86 @@ export default function AuditLogs() {
         if (log.entity === 'setting') {
           return `Updated ${metadata.key} settings`;
         }
+        if (log.entity === 'member') {
+          return `Changed ${metadata.email} from ${metadata.before} to ${metadata.after}`;
+        }
+        if (log.entity === 'organization') {
+          return `Renamed organization from "${metadata.before}" to "${metadata.after}"`;
+        }
+        if (log.entity === 'webhook') {
+          return `Updated webhook ${metadata.url}`;
+        }
+        if (log.entity === 'subscription') {
+          return metadata.before === metadata.after
+            ? `Subscription is now ${metadata.status}`
+            : `Plan changed from ${metadata.before} to ${metadata.after} (${metadata.status})`;
+        }
         return `Updated ${log.entity}`;
       
       case 'delete':
         if (log.entity === 'api_key') {
           return `Deleted API key`;
         }
+        if (log.entity === 'member') {
+          return `Removed ${metadata.email} (${metadata.before})`;
+        }
+        if (log.entity === 'webhook') {
+          return `Deleted webhook ${metadata.url}`;
+        }
         return `Deleted ${log.entity}`;
       
       case 'invite':
         return `Invited ${metadata.email} as ${metadata.role}`;
+
+      case 'transfer':
+        return `Transferred ownership to ${metadata.email}`;
+
+      case 'restore':
+        return `Restored organization "${metadata.name}"`;
+
+      case 'rotate':
+        if (log.entity === 'webhook') {
+          return `Rolled the signing secret for webhook ${metadata.url}`;
+        }
+        return `Rotated API key "${metadata.name}" (old key valid until ${new Date(metadata.validUntil).toLocaleString()})`;
+
+      case 'resend':
+        return `Resent invitation to ${metadata.email}`;
+
+      case 'revoke':
+        return `Revoked invitation for ${metadata.email}`;
+
+      case 'accept':
+        return `${metadata.email} accepted the invitation as ${metadata.role}`;
+
+      case 'decline':
+        return `${metadata.email} declined the invitation`;
+
+      case 'retry':
+        return `Retried ${metadata.status} job #${log.entityId} (${metadata.type})`;
+
+      case 'cancel':
+        if (log.entity === 'subscription') {
+          return `Subscription cancelled; moved to the ${metadata.after} plan`;
+        }
+        return `Cancelled job #${log.entityId} (${metadata.type})`;
+
+      case 'subscribe':
+        return `Subscribed to the ${metadata.plan} plan`;
+
+      case 'payment_failed':
+        return `Payment of ${(metadata.amountDue / 100).toFixed(2)} ${metadata.currency.toUpperCase()} failed (attempt ${metadata.attempts})`;
+
+      case 'purge':
+        return `Purged ${metadata.deleted} dead jobs`;
+
+      case 'warn':
+        return `Used ${metadata.percent}% of the ${metadata.plan} plan's monthly operations (${metadata.used.toLocaleString()}/${metadata.limit.toLocaleString()})`;
+
+      case 'limit':
+        return metadata.overage
+          ? `Used the ${metadata.plan} plan's ${metadata.limit.toLocaleString()} monthly operations; further operations are billed as overage`
+          : `Reached the ${metadata.plan} plan's monthly operations limit (${metadata.limit.toLocaleString()})`;
       
       default:
         return log.action;
@@ -209,6 +296,18 @@ export default function AuditLogs() {
                 </TableBody>
               </Table>
             )}
+            {hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-logs"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { PLAN_LIMITS } from "@shared/schema";
+import { PLAN_LIMITS, USAGE_WARNING_RATIO, OVERAGE_PRICES, OVERAGE_UNIT, type UsageSummary } from "@shared/schema";
 import { Check, CreditCard, ExternalLink, Loader2 } from "lucide-react";
 
 const PLAN_FEATURES = {
@@ -31,6 +31,7 @@ const PLAN_FEATURES = {
       "5 organizations",
       "15 team members", 
       "100,000 monthly operations",
+      "Overage at $1.00 per 1,000 operations",
       "10 Airtable table mappings",
       "Priority support",
       "Advanced analytics"
@@ -44,6 +45,7 @@ const PLAN_FEATURES = {
       "20 organizations",
       "50 team members",
       "1M monthly operations", 
+      "Overage at $0.50 per 1,000 operations",
       "30 Airtable table mappings",
       "Premium support",
       "Advanced analytics",
@@ -52,19 +54,27 @@ const PLAN_FEATURES = {
   }
 };
 
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
 export default function Billing() {
   const { currentOrganization, subscription, stats, userRole } = useOrganization();
   const { toast } = useToast();
   const [isCreatingCheckout, setIsCreatingCheckout] = useState<string | null>(null);
   const [isCreatingPortal, setIsCreatingPortal] = useState(false);
 
+  const { data: usage } = useQuery<UsageSummary>({
+    queryKey: ['/api/organizations', currentOrganization?.id, 'billing', 'usage'],
+    enabled: !!currentOrganization,
+  });
+
   const createCheckoutMutation = useMutation({
     mutationFn: async (plan: string) => {
-      const priceId = plan === 'pro' ? process.env.VITE_STRIPE_PRICE_PRO : process.env.VITE_STRIPE_PRICE_TEAM;
-      const res = await apiRequest("POST", `/api/billing/create-checkout-session`, {
-        priceId,
-        successUrl: `${window.location.origin}/billing?success=true`,
-        cancelUrl: `${window.location.origin}/billing?canceled=true`
+      const res = await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/billing/create-checkout-session`, {
+        plan,
+        successUrl: "/billing?success=true",
+        cancelUrl: "/billing?canceled=true"
       });
       return res.json();
     },
@@ -83,7 +93,7 @@ export default function Billing() {
 
   const createPortalMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/billing/create-portal-session`, {
+      const res = await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/billing/create-portal-session`, {
         returnUrl: window.location.href
       });
       return res.json();
@@ -114,6 +124,7 @@ export default function Billing() {
   const canManageBilling = userRole === 'admin';
   const currentPlan = currentOrganization?.plan || 'free';
   const planLimits = PLAN_LIMITS[currentPlan as keyof typeof PLAN_LIMITS];
+  const hasOverage = OVERAGE_PRICES[currentPlan as keyof typeof PLAN_LIMITS] !== undefined;
 
   if (!currentOrganization || !stats) {
     return (
@@ -179,6 +190,26 @@ export default function Billing() {
                       </span>
                     </div>
                     <Progress value={(stats.operations / planLimits.operations) * 100} className="h-2" />
+                    {stats.operations >= planLimits.operations ? (
+                      hasOverage ? (
+                        <p className="text-xs text-amber-600 mt-1" data-testid="text-operations-overage">
+                          Allowance used. Further operations are billed as overage.
+                        </p>
+                      ) : (
+                        <p className="text-xs text-red-600 mt-1" data-testid="text-operations-limit">
+                          Limit reached. Operations are paused until the period resets or you upgrade.
+                        </p>
+                      )
+                    ) : stats.operations >= planLimits.operations * USAGE_WARNING_RATIO ? (
+                      <p className="text-xs text-amber-600 mt-1" data-testid="text-operations-warning">
+                        Over {Math.round(USAGE_WARNING_RATIO * 100)}% used this period.
+                      </p>
+                    ) : null}
+                    {subscription?.periodEnd && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Resets {new Date(subscription.periodEnd).toLocaleDateString()}
+                      </p>
+                    )}
                   </div>
                   
                   <div>
@@ -252,6 +283,49 @@ export default function Billing() {
             </CardContent>
           </Card>
 
+          {/* Overage */}
+          {usage && usage.overagePrice !== null && (
+            <Card data-testid="card-overage">
+              <CardHeader>
+                <CardTitle>Overage This Period</CardTitle>
+                <CardDescription>
+                  Operations past the {usage.included.toLocaleString()} included in your plan are billed
+                  at {formatCents(usage.overagePrice)} per {OVERAGE_UNIT.toLocaleString()}
+                  {usage.periodEnd && <> on the invoice after {new Date(usage.periodEnd).toLocaleDateString()}</>}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+                  <div>
+                    <p className="text-slate-600">Overage so far</p>
+                    <p className="text-2xl font-semibold text-slate-900" data-testid="text-overage-current">
+                      {usage.overage.toLocaleString()}
+                    </p>
+                    <p className="text-slate-500">
+                      {usage.reported.toLocaleString()} reported for billing
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-600">Projected usage</p>
+                    <p className="text-2xl font-semibold text-slate-900" data-testid="text-overage-projected-usage">
+                      {usage.projectedUsed.toLocaleString()}
+                    </p>
+                    <p className="text-slate-500">
+                      {usage.projectedOverage.toLocaleString()} operations over the allowance
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-600">Projected overage charge</p>
+                    <p className="text-2xl font-semibold text-slate-900" data-testid="text-overage-projected-amount">
+                      {formatCents(usage.projectedOverageAmount)}
+                    </p>
+                    <p className="text-slate-500">At the current rate of use</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Available Plans */}
           {canManageBilling && (
             <div>
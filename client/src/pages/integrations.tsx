@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Database, CheckCircle, AlertCircle } from "lucide-react";
+import WebhooksSection from "@/components/webhooks/webhooks-section";
 
 interface Settings {
   [key: string]: any;
@@ -293,6 +294,9 @@ export default function Integrations() {
             </CardContent>
           </Card>
 
+          {/* Outgoing webhooks are admin-only like the other integrations */}
+          {canManageSettings && <WebhooksSection />}
+
           {/* Additional Integrations Placeholder */}
           <Card className="opacity-50">
             <CardHeader>
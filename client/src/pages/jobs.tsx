@@ -0,0 +1,444 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { JOB_STATUSES, type JobStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ListChecks, RotateCw, Trash2, XCircle } from "lucide-react";
+
+interface Job {
+  id: number;
+  type: string;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface JobQueueStats {
+  counts: Record<JobStatus, number>;
+  due: number;
+  oldestDueAt: string | null;
+  completedLastHour: number;
+  completedLastDay: number;
+  types: string[];
+}
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+  cancelled: "bg-slate-100 text-slate-700",
+};
+
+function formatWaiting(since: string) {
+  const minutes = Math.floor((Date.now() - new Date(since).getTime()) / (1000 * 60));
+  if (minutes < 1) return "less than a minute";
+  if (minutes < 60) return `${minutes} minutes`;
+  return `${Math.floor(minutes / 60)} hours`;
+}
+
+export default function Jobs() {
+  const { currentOrganization, userRole } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const isAdmin = userRole === "admin";
+  const jobsKey = ["/api/organizations", currentOrganization?.id, "jobs"];
+
+  // Jobs change state in the background, so both queries keep polling
+  const { data: stats } = useQuery<JobQueueStats>({
+    queryKey: [...jobsKey, "stats"],
+    enabled: !!currentOrganization && isAdmin,
+    refetchInterval: 10000,
+  });
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [...jobsKey, "pages", { type, status }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (type !== ALL) params.set("type", type);
+      if (status !== ALL) params.set("status", status);
+      if (pageParam !== undefined) params.set("before", String(pageParam));
+      const res = await apiRequest("GET", `/api/organizations/${currentOrganization!.id}/jobs?${params}`);
+      return (await res.json()) as Job[];
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].id : undefined,
+    enabled: !!currentOrganization && isAdmin,
+    refetchInterval: 10000,
+  });
+  const jobs = data?.pages.flat();
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/jobs/${jobId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobsKey });
+      toast({
+        title: "Job queued",
+        description: "The job will run again shortly with a fresh set of attempts.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retry job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/jobs/${jobId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobsKey });
+      toast({
+        title: "Job cancelled",
+        description: "It won't run unless you retry it.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/organizations/${currentOrganization?.id}/jobs/dead`);
+      return (await res.json()) as { deleted: number };
+    },
+    onSuccess: ({ deleted }) => {
+      queryClient.invalidateQueries({ queryKey: jobsKey });
+      toast({
+        title: "Dead jobs purged",
+        description: `Removed ${deleted} ${deleted === 1 ? "job" : "jobs"}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to purge dead jobs",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900" data-testid="text-page-title">
+              Background Jobs
+            </h1>
+            <nav className="flex mt-1" aria-label="Breadcrumb">
+              <ol className="flex items-center space-x-2 text-sm text-slate-500">
+                <li data-testid="text-breadcrumb-org">
+                  {currentOrganization?.name}
+                </li>
+                <li>
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd"></path>
+                  </svg>
+                </li>
+                <li>Background Jobs</li>
+              </ol>
+            </nav>
+          </div>
+          {isAdmin && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  disabled={!stats?.counts.dead || purgeMutation.isPending}
+                  data-testid="button-purge-dead-jobs"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Purge Dead Jobs
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Purge Dead Jobs</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently removes {stats?.counts.dead} dead {stats?.counts.dead === 1 ? "job" : "jobs"} and
+                    their errors. Retry any you still need first.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => purgeMutation.mutate()}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    Purge
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-6 overflow-auto space-y-6">
+        {!isAdmin ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ListChecks className="mx-auto h-12 w-12 text-slate-400" />
+              <p className="mt-2 text-sm text-slate-500" data-testid="text-jobs-admin-only">
+                Only admins can view the job queue.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Queue depth</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-jobs-pending">
+                    {stats ? stats.counts.pending.toLocaleString() : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  {stats && stats.due > 0 && stats.oldestDueAt
+                    ? `${stats.due} due, oldest waiting ${formatWaiting(stats.oldestDueAt)}`
+                    : "Nothing waiting on a worker"}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Running</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-jobs-running">
+                    {stats ? stats.counts.running.toLocaleString() : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  Claimed by a worker right now
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Throughput</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-jobs-throughput">
+                    {stats ? `${stats.completedLastHour.toLocaleString()}/h` : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  {stats ? `${stats.completedLastDay.toLocaleString()} completed in the last 24 hours` : ""}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dead</CardDescription>
+                  <CardTitle className="text-2xl" data-testid="text-jobs-dead">
+                    {stats ? stats.counts.dead.toLocaleString() : "–"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-slate-500">
+                  Out of attempts; retry or purge them
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center">
+                      <ListChecks className="w-5 h-5 mr-2" />
+                      Jobs
+                    </CardTitle>
+                    <CardDescription>
+                      Work queued by this organization, newest first
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Select value={type} onValueChange={setType}>
+                      <SelectTrigger className="w-48" data-testid="select-job-type">
+                        <SelectValue placeholder="All types" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All types</SelectItem>
+                        {stats?.types.map((jobType) => (
+                          <SelectItem key={jobType} value={jobType}>
+                            {jobType}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={status} onValueChange={setStatus}>
+                      <SelectTrigger className="w-40" data-testid="select-job-status">
+                        <SelectValue placeholder="All statuses" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All statuses</SelectItem>
+                        {JOB_STATUSES.map((jobStatus) => (
+                          <SelectItem key={jobStatus} value={jobStatus} className="capitalize">
+                            {jobStatus}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-4">
+                    {[...Array(6)].map((_, i) => (
+                      <div key={i} className="animate-pulse h-10 bg-slate-200 rounded"></div>
+                    ))}
+                  </div>
+                ) : !jobs || jobs.length === 0 ? (
+                  <p className="text-sm text-slate-500 text-center py-12" data-testid="text-no-jobs">
+                    {type === ALL && status === ALL
+                      ? "No jobs have been queued for this organization yet."
+                      : "No jobs match these filters."}
+                  </p>
+                ) : (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Job</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Attempts</TableHead>
+                          <TableHead>Run at</TableHead>
+                          <TableHead>Last error</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {jobs.map((job) => (
+                          <TableRow key={job.id} data-testid={`job-${job.id}`}>
+                            <TableCell>
+                              <code className="text-sm text-slate-900">{job.type}</code>
+                              <p className="text-xs text-slate-500">#{job.id}</p>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary" className={`capitalize ${STATUS_STYLES[job.status]}`}>
+                                {job.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm" data-testid={`text-job-attempts-${job.id}`}>
+                              {job.attempts} / {job.maxAttempts}
+                            </TableCell>
+                            <TableCell className="text-slate-500 text-sm">
+                              {new Date(job.completedAt || job.runAt).toLocaleString()}
+                            </TableCell>
+                            <TableCell className="max-w-xs">
+                              {job.lastError && (
+                                <button
+                                  type="button"
+                                  className={`text-left text-sm text-red-600 ${expandedId === job.id ? "break-words" : "truncate block w-full"}`}
+                                  onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                                  data-testid={`text-job-error-${job.id}`}
+                                >
+                                  {job.lastError}
+                                </button>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {(job.status === "dead" || job.status === "cancelled") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => retryMutation.mutate(job.id)}
+                                  disabled={retryMutation.isPending}
+                                  data-testid={`button-retry-job-${job.id}`}
+                                >
+                                  <RotateCw className="w-4 h-4 mr-2" />
+                                  Retry
+                                </Button>
+                              )}
+                              {job.status === "pending" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => cancelMutation.mutate(job.id)}
+                                  disabled={cancelMutation.isPending}
+                                  data-testid={`button-cancel-job-${job.id}`}
+                                >
+                                  <XCircle className="w-4 h-4 mr-2" />
+                                  Cancel
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {hasNextPage && (
+                      <div className="flex justify-center pt-4">
+                        <Button
+                          variant="outline"
+                          onClick={() => fetchNextPage()}
+                          disabled={isFetchingNextPage}
+                          data-testid="button-load-more-jobs"
+                        >
+                          {isFetchingNextPage ? "Loading..." : "Load more"}
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiRequest } from '@/lib/queryClient';
+import { getPlanLimitError } from '@/lib/plan-limits';
 
 const updateLeadSchema = z.object({
   name: z.string().min(1, 'Lead name is required').max(100, 'Name too long'),
@@ -64,7 +65,7 @@ export default function LeadDetailPage() {
     onError: (error: any) => {
       toast({
         title: 'Failed to update lead',
-        description: error.message,
+        description: getPlanLimitError(error)?.error ?? error.message,
         variant: 'destructive',
       });
     },
@@ -83,7 +84,7 @@ export default function LeadDetailPage() {
     onError: (error: any) => {
       toast({
         title: 'Failed to add comment',
-        description: error.message,
+        description: getPlanLimitError(error)?.error ?? error.message,
         variant: 'destructive',
       });
     },
@@ -14,10 +14,13 @@ export default function Login() {
   const { login, user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  // Set when arriving from an invitation link, so we can return there after login
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+  const redirectTo = inviteToken ? `/invite/${inviteToken}` : undefined;
 
   // Redirect if already logged in
   if (user) {
-    setLocation("/dashboard");
+    setLocation(redirectTo || "/dashboard");
     return null;
   }
 
@@ -26,7 +29,7 @@ export default function Login() {
     setIsLoading(true);
 
     try {
-      await login(email, password);
+      await login(email, password, redirectTo);
       toast({
         title: "Welcome back!",
         description: "You've been successfully logged in.",
@@ -99,7 +102,7 @@ export default function Login() {
           <div className="mt-6 text-center">
             <p className="text-sm text-slate-500">
               Don't have an account?{" "}
-              <Link href="/signup">
+              <Link href={inviteToken ? `/signup?invite=${inviteToken}` : "/signup"}>
                 <span className="text-blue-600 hover:text-blue-700 font-medium cursor-pointer" data-testid="link-signup">
                   Sign up
                 </span>
@@ -19,7 +19,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, UserPlus } from "lucide-react";
+import { Mail, MoreHorizontal, UserPlus } from "lucide-react";
 import InviteMemberModal from "@/components/modals/invite-member-modal";
 
 interface Member {
@@ -35,6 +35,15 @@ interface Member {
   };
 }
 
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+  createdAt: string;
+  status: "pending" | "expired";
+}
+
 export default function Members() {
   const { currentOrganization, userRole } = useOrganization();
   const { toast } = useToast();
@@ -46,6 +55,51 @@ export default function Members() {
     enabled: !!currentOrganization,
   });
 
+  const { data: invitations } = useQuery<Invitation[]>({
+    queryKey: ["/api/organizations", currentOrganization?.id, "invitations"],
+    enabled: !!currentOrganization,
+  });
+
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/invitations/${invitationId}/resend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "invitations"] });
+      toast({
+        title: "Invitation resent",
+        description: "A new invitation link has been emailed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest("DELETE", `/api/organizations/${currentOrganization?.id}/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link no longer works.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateRoleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
       await apiRequest("PATCH", `/api/organizations/${currentOrganization?.id}/members/${userId}`, { role });
@@ -72,6 +126,7 @@ export default function Members() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id, "members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id] });
       toast({
         title: "Member removed",
         description: "Member has been successfully removed from the organization.",
@@ -129,6 +184,7 @@ export default function Members() {
   };
 
   const canManageMembers = userRole === 'admin' || userRole === 'editor';
+  const canManageRoles = userRole === 'admin';
 
   return (
     <>
@@ -229,7 +285,7 @@ export default function Members() {
                         {getStatusBadge(member)}
                       </TableCell>
                       <TableCell className="text-right">
-                        {canManageMembers && (
+                        {canManageRoles && member.userId !== currentOrganization?.ownerId && (
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button 
@@ -276,6 +332,81 @@ export default function Members() {
               </Table>
             )}
           </div>
+
+          {invitations && invitations.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200 mt-6">
+              <div className="px-6 py-4 border-b border-slate-200">
+                <h2 className="text-lg font-semibold text-slate-900">Pending Invitations</h2>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => (
+                    <TableRow key={invitation.id} data-testid={`invitation-row-${invitation.id}`}>
+                      <TableCell>
+                        <div className="flex items-center space-x-3">
+                          <div className="w-10 h-10 bg-slate-100 rounded-full flex items-center justify-center">
+                            <Mail className="w-4 h-4 text-slate-500" />
+                          </div>
+                          <div className="font-medium text-slate-900" data-testid={`invitation-email-${invitation.id}`}>
+                            {invitation.email}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getRoleBadgeVariant(invitation.role)} className="capitalize">
+                          {invitation.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-slate-500">
+                        {formatTimeAgo(invitation.createdAt)}
+                      </TableCell>
+                      <TableCell>
+                        {invitation.status === 'expired' ? (
+                          <Badge variant="secondary" className="bg-slate-100 text-slate-600">Expired</Badge>
+                        ) : (
+                          <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Pending</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canManageMembers && (
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                              disabled={resendInvitationMutation.isPending}
+                              data-testid={`button-resend-invitation-${invitation.id}`}
+                            >
+                              Resend
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                              disabled={revokeInvitationMutation.isPending}
+                              data-testid={`button-revoke-invitation-${invitation.id}`}
+                            >
+                              Revoke
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
         </main>
       </div>
 
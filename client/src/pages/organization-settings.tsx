@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useOrganization } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getPlanLimitError, type PlanLimitExceeded } from "@/lib/plan-limits";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import UpgradePrompt from "@/components/billing/upgrade-prompt";
+
+interface Member {
+  userId: string;
+  role: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+interface DeletedOrganization {
+  id: string;
+  name: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export default function OrganizationSettings() {
+  const { user } = useAuth();
+  const { currentOrganization, userRole, setCurrentOrganization } = useOrganization();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [confirmName, setConfirmName] = useState("");
+  const [planLimit, setPlanLimit] = useState<PlanLimitExceeded | null>(null);
+
+  useEffect(() => {
+    setName(currentOrganization?.name || "");
+  }, [currentOrganization?.name]);
+
+  const isAdmin = userRole === 'admin';
+  const isOwner = !!user && currentOrganization?.ownerId === user.id;
+
+  const { data: members } = useQuery<Member[]>({
+    queryKey: ["/api/organizations", currentOrganization?.id, "members"],
+    enabled: !!currentOrganization && isOwner,
+  });
+
+  const { data: deletedOrganizations } = useQuery<DeletedOrganization[]>({
+    queryKey: ["/api/organizations/deleted"],
+  });
+
+  const transferCandidates = members?.filter(
+    (member) => member.role === 'admin' && member.userId !== user?.id
+  ) || [];
+
+  const renameMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("PATCH", `/api/organizations/${currentOrganization?.id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Organization renamed",
+        description: "The organization name has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rename organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/organizations/${currentOrganization?.id}/transfer`, { userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations", currentOrganization?.id] });
+      setNewOwnerId("");
+      toast({
+        title: "Ownership transferred",
+        description: "You remain an admin of this organization.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to transfer ownership",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/organizations/${currentOrganization?.id}`, { confirmName });
+    },
+    onSuccess: () => {
+      const remaining = user?.organizations.filter((org) => org.id !== currentOrganization?.id) || [];
+      if (remaining.length > 0) {
+        setCurrentOrganization(remaining[0].id);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/deleted"] });
+      setConfirmName("");
+      toast({
+        title: "Organization deleted",
+        description: "You can restore it from Settings until the grace period ends.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (organizationId: string) => {
+      await apiRequest("POST", `/api/organizations/${organizationId}/restore`);
+      return organizationId;
+    },
+    onSuccess: (organizationId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/deleted"] });
+      setCurrentOrganization(organizationId);
+      toast({
+        title: "Organization restored",
+        description: "The organization and its data are available again.",
+      });
+    },
+    onError: (error: any) => {
+      const limit = getPlanLimitError(error);
+      if (limit) {
+        setPlanLimit(limit);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    renameMutation.mutate(name.trim());
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900" data-testid="text-page-title">
+            Settings
+          </h1>
+          <nav className="flex mt-1" aria-label="Breadcrumb">
+            <ol className="flex items-center space-x-2 text-sm text-slate-500">
+              <li data-testid="text-breadcrumb-org">
+                {currentOrganization?.name}
+              </li>
+              <li>
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd"></path>
+                </svg>
+              </li>
+              <li>Settings</li>
+            </ol>
+          </nav>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-6 overflow-auto space-y-6">
+        {currentOrganization && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h2 className="text-lg font-semibold text-slate-900">General</h2>
+            <form onSubmit={handleRename} className="mt-4 flex items-end space-x-3 max-w-lg">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="org-name">Organization Name</Label>
+                <Input
+                  id="org-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!isAdmin}
+                  required
+                  data-testid="input-org-name"
+                />
+              </div>
+              {isAdmin && (
+                <Button
+                  type="submit"
+                  className="bg-blue-600 text-white hover:bg-blue-700"
+                  disabled={renameMutation.isPending || !name.trim() || name.trim() === currentOrganization.name}
+                  data-testid="button-rename-org"
+                >
+                  {renameMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              )}
+            </form>
+          </div>
+        )}
+
+        {currentOrganization && isOwner && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h2 className="text-lg font-semibold text-slate-900">Transfer Ownership</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Make another admin the owner of this organization. You will stay on as an admin.
+            </p>
+            {transferCandidates.length === 0 ? (
+              <p className="text-sm text-slate-500 mt-4" data-testid="text-no-transfer-candidates">
+                Promote a member to admin before transferring ownership.
+              </p>
+            ) : (
+              <div className="mt-4 flex items-end space-x-3 max-w-lg">
+                <div className="flex-1 space-y-2">
+                  <Label>New Owner</Label>
+                  <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                    <SelectTrigger data-testid="select-new-owner">
+                      <SelectValue placeholder="Select an admin" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {transferCandidates.map((member) => (
+                        <SelectItem key={member.userId} value={member.userId}>
+                          {member.user.name} ({member.user.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={!newOwnerId || transferMutation.isPending}
+                      data-testid="button-transfer-ownership"
+                    >
+                      Transfer
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Transfer Ownership</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Only the owner can transfer ownership or delete the organization. You won't be able to undo this yourself.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => transferMutation.mutate(newOwnerId)}
+                        data-testid="button-confirm-transfer"
+                      >
+                        Transfer Ownership
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </div>
+        )}
+
+        {currentOrganization && isOwner && (
+          <div className="bg-white rounded-xl border border-red-200 p-6">
+            <h2 className="text-lg font-semibold text-red-700">Delete Organization</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Members lose access immediately. Pipelines, leads, API keys and settings are permanently removed once the restore period ends.
+            </p>
+            <AlertDialog onOpenChange={() => setConfirmName("")}>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="mt-4 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                  data-testid="button-delete-org"
+                >
+                  Delete Organization
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{currentOrganization.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Type the organization name to confirm.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <Input
+                  value={confirmName}
+                  onChange={(e) => setConfirmName(e.target.value)}
+                  placeholder={currentOrganization.name}
+                  data-testid="input-confirm-org-name"
+                />
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => deleteMutation.mutate()}
+                    disabled={confirmName !== currentOrganization.name}
+                    className="bg-red-600 hover:bg-red-700"
+                    data-testid="button-confirm-delete-org"
+                  >
+                    Delete Organization
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+
+        {deletedOrganizations && deletedOrganizations.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h2 className="text-lg font-semibold text-slate-900">Recently Deleted</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Deleted organizations can be restored until their data is purged.
+            </p>
+            {planLimit && (
+              <div className="mt-4">
+                <UpgradePrompt limit={planLimit} />
+              </div>
+            )}
+            <ul className="mt-4 divide-y divide-slate-200">
+              {deletedOrganizations.map((org) => (
+                <li key={org.id} className="flex items-center justify-between py-3" data-testid={`deleted-org-${org.id}`}>
+                  <div>
+                    <div className="font-medium text-slate-900">{org.name}</div>
+                    <div className="text-sm text-slate-500">
+                      Deleted {formatDate(org.deletedAt)} · purged on {formatDate(org.purgeAt)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPlanLimit(null);
+                      restoreMutation.mutate(org.id);
+                    }}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-org-${org.id}`}
+                  >
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
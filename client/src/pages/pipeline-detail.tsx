@@ -19,6 +19,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiRequest } from '@/lib/queryClient';
+import { getPlanLimitError } from '@/lib/plan-limits';
 
 const createStageSchema = z.object({
   name: z.string().min(1, 'Stage name is required').max(100, 'Name too long'),
@@ -84,7 +85,7 @@ export default function PipelineDetailPage() {
     onError: (error: any) => {
       toast({
         title: 'Failed to create lead',
-        description: error.message,
+        description: getPlanLimitError(error)?.error ?? error.message,
         variant: 'destructive',
       });
     },
@@ -102,7 +103,7 @@ export default function PipelineDetailPage() {
     onError: (error: any) => {
       toast({
         title: 'Failed to move lead',
-        description: error.message,
+        description: getPlanLimitError(error)?.error ?? error.message,
         variant: 'destructive',
       });
     },
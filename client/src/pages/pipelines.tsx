@@ -24,7 +24,7 @@ const createPipelineSchema = z.object({
 type CreatePipelineData = z.infer<typeof createPipelineSchema>;
 
 export default function PipelinesPage() {
-  const { currentOrganization, subscription } = useOrganization();
+  const { currentOrganization, subscription, readOnlyPipelineIds } = useOrganization();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -242,9 +242,16 @@ export default function PipelinesPage() {
             <Card key={pipeline.id} className="hover:shadow-lg transition-shadow">
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg" data-testid={`text-pipeline-name-${pipeline.id}`}>
-                    {pipeline.name}
-                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-lg" data-testid={`text-pipeline-name-${pipeline.id}`}>
+                      {pipeline.name}
+                    </CardTitle>
+                    {readOnlyPipelineIds.includes(pipeline.id) && (
+                      <Badge variant="secondary" data-testid={`badge-pipeline-read-only-${pipeline.id}`}>
+                        Read-only
+                      </Badge>
+                    )}
+                  </div>
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button variant="ghost" size="sm">
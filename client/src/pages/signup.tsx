@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +16,19 @@ export default function Signup() {
   const { signup, user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  // Signing up from an invitation joins the inviting organization
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+
+  const { data: invitation } = useQuery<{ email: string; organization: { name: string } }>({
+    queryKey: ["/api/invitations", inviteToken],
+    enabled: !!inviteToken,
+  });
+
+  useEffect(() => {
+    if (invitation) {
+      setEmail(invitation.email);
+    }
+  }, [invitation]);
 
   // Redirect if already logged in
   if (user) {
@@ -27,7 +41,7 @@ export default function Signup() {
     setIsLoading(true);
 
     try {
-      await signup(email, password, name);
+      await signup(email, password, name, inviteToken || undefined);
       toast({
         title: "Account created!",
         description: "Welcome to your new SaaS dashboard.",
@@ -51,7 +65,9 @@ export default function Signup() {
             Create your account
           </CardTitle>
           <CardDescription className="text-center text-slate-500">
-            Get started with your free account today
+            {invitation
+              ? `Create an account to join ${invitation.organization.name}`
+              : "Get started with your free account today"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -116,7 +132,7 @@ export default function Signup() {
           <div className="mt-6 text-center">
             <p className="text-sm text-slate-500">
               Already have an account?{" "}
-              <Link href="/login">
+              <Link href={inviteToken ? `/login?invite=${inviteToken}` : "/login"}>
                 <span className="text-blue-600 hover:text-blue-700 font-medium cursor-pointer" data-testid="link-login">
                   Sign in
                 </span>
@@ -0,0 +1,34 @@
+ALTER TABLE "api_keys" DROP CONSTRAINT "api_keys_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "audit_logs" DROP CONSTRAINT "audit_logs_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "invitations" DROP CONSTRAINT "invitations_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "job_queue" DROP CONSTRAINT "job_queue_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "lead_comments" DROP CONSTRAINT "lead_comments_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "leads" DROP CONSTRAINT "leads_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "org_members" DROP CONSTRAINT "org_members_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "pipelines" DROP CONSTRAINT "pipelines_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "settings" DROP CONSTRAINT "settings_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "stages" DROP CONSTRAINT "stages_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "subscriptions" DROP CONSTRAINT "subscriptions_org_id_organizations_id_fk";
+--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invitations" ADD CONSTRAINT "invitations_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_queue" ADD CONSTRAINT "job_queue_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lead_comments" ADD CONSTRAINT "lead_comments_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "leads" ADD CONSTRAINT "leads_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "org_members" ADD CONSTRAINT "org_members_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipelines" ADD CONSTRAINT "pipelines_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "settings" ADD CONSTRAINT "settings_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stages" ADD CONSTRAINT "stages_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "api_keys" ADD COLUMN "scopes" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "role_ceiling" text;--> statement-breakpoint
+-- Keys created before scopes existed keep the full access they had
+UPDATE "api_keys" SET "scopes" = '{leads:read,leads:write,pipelines:admin,audit:read}'::text[];
@@ -0,0 +1,3 @@
+ALTER TABLE "job_queue" ADD COLUMN "max_attempts" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_queue" ADD COLUMN "locked_until" timestamp;--> statement-breakpoint
+ALTER TABLE "job_queue" ADD COLUMN "completed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "cron_runs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"schedule" text NOT NULL,
+	"last_run_at" timestamp,
+	"last_job_id" bigint,
+	"next_run_at" timestamp NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
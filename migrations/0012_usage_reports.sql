@@ -0,0 +1,14 @@
+CREATE TABLE "usage_reports" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"org_id" uuid NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"quantity" integer NOT NULL,
+	"total" integer NOT NULL,
+	"idempotency_key" text NOT NULL,
+	"reported_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "usage_reports_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+ALTER TABLE "usage_reports" ADD CONSTRAINT "usage_reports_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "usage_reports_org_id_period_end_idx" ON "usage_reports" USING btree ("org_id","period_end");
\ No newline at end of file
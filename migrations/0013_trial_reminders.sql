@@ -0,0 +1 @@
+ALTER TABLE "organizations" ADD COLUMN "trial_reminded_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "subscriptions" ADD COLUMN "past_due_since" timestamp;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "dunning_reminded_at" timestamp;--> statement-breakpoint
+UPDATE "subscriptions" SET "past_due_since" = "updated_at" WHERE "status" IN ('past_due', 'unpaid');
\ No newline at end of file
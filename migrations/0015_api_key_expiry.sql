@@ -0,0 +1 @@
+ALTER TABLE "api_keys" ADD COLUMN "expiry_recorded_at" timestamp;
\ No newline at end of file
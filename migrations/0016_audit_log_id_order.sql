@@ -0,0 +1 @@
+CREATE INDEX "audit_logs_org_id_id_idx" ON "audit_logs" USING btree ("org_id","id");
\ No newline at end of file
@@ -0,0 +1,77 @@
+import type { Request, Response } from "express";
+import { PLAN_LIMITS, type ApiKey, type ApiKeyUsageStats } from "@shared/schema";
+import { storage } from "./storage";
+import { getOrganizationPlan } from "./plan-limits";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// When each organization's usage was last pruned, so pruning piggybacks on
+// recording at most once an hour per organization
+const lastPrunedAt = new Map<string, number>();
+
+export async function getUsageRetentionDays(orgId: string): Promise<number> {
+  const plan = await getOrganizationPlan(orgId);
+  return PLAN_LIMITS[plan].apiUsageRetentionDays;
+}
+
+async function pruneUsage(orgId: string) {
+  const now = Date.now();
+  if (now - (lastPrunedAt.get(orgId) || 0) < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt.set(orgId, now);
+
+  const retentionDays = await getUsageRetentionDays(orgId);
+  await storage.deleteApiKeyUsageBefore(orgId, new Date(now - retentionDays * DAY_MS));
+}
+
+// Records the request once the response has been sent. Recording failures are
+// logged rather than surfaced, since the response has already gone out.
+export function trackApiKeyUsage(req: Request, res: Response, apiKey: ApiKey) {
+  const startedAt = Date.now();
+
+  res.on("finish", () => {
+    storage
+      .recordApiKeyUsage({
+        orgId: apiKey.orgId,
+        apiKeyId: apiKey.id,
+        method: req.method,
+        route: req.route ? req.route.path : req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      })
+      .then(() => pruneUsage(apiKey.orgId))
+      .catch((error) => log(`failed to record usage: ${error.message}`, "api-keys"));
+  });
+}
+
+export interface ApiKeyUsageReport extends ApiKeyUsageStats {
+  retentionDays: number;
+  totals: { requests: number; errors: number; errorRate: number };
+}
+
+// Usage over the plan's retention window, with a bucket for every day so
+// charts show quiet days as zero
+export async function getApiKeyUsageReport(apiKey: ApiKey): Promise<ApiKeyUsageReport> {
+  const retentionDays = await getUsageRetentionDays(apiKey.orgId);
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  const since = new Date(today.getTime() - (retentionDays - 1) * DAY_MS);
+
+  const stats = await storage.getApiKeyUsageStats(apiKey.id, apiKey.orgId, since);
+
+  const daily: ApiKeyUsageStats["daily"] = [];
+  for (let time = since.getTime(); time <= today.getTime(); time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    daily.push(stats.daily.find((d) => d.day === day) || { day, requests: 0, errors: 0 });
+  }
+
+  const requests = daily.reduce((sum, d) => sum + d.requests, 0);
+  const errors = daily.reduce((sum, d) => sum + d.errors, 0);
+
+  return {
+    retentionDays,
+    daily,
+    endpoints: stats.endpoints,
+    totals: { requests, errors, errorRate: requests ? errors / requests : 0 },
+  };
+}
@@ -0,0 +1,165 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiKey, ApiKeyScope } from "@shared/schema";
+import { storage } from "./storage";
+import { trackApiKeyUsage } from "./api-key-usage";
+
+const HOUR_MS = 60 * 60 * 1000;
+const ROLE_RANK: Record<string, number> = { viewer: 1, editor: 2, admin: 3 };
+
+// How long a rotated key keeps working alongside its successor, unless the
+// rotation asks for a different window
+export const DEFAULT_ROTATION_OVERLAP_HOURS =
+  parseInt(process.env.API_KEY_ROTATION_OVERLAP_HOURS || "", 10) || 24;
+export const MAX_ROTATION_OVERLAP_HOURS = 30 * 24;
+
+export function generateApiKey() {
+  const keyValue = `sk_${randomBytes(24).toString("hex")}`;
+  return {
+    keyValue,
+    keyHash: hashApiKey(keyValue),
+    keyPreview: `${keyValue.substring(0, 12)}${"*".repeat(20)}`,
+  };
+}
+
+export function hashApiKey(keyValue: string): string {
+  return createHash("sha256").update(keyValue).digest("hex");
+}
+
+// Issues a successor with the same name, scopes and role ceiling, and cuts the
+// old key's validity down to the overlap window so integrations can switch
+// over without downtime.
+export async function rotateApiKey(
+  apiKey: ApiKey,
+  { overlapHours, actorId }: { overlapHours: number; actorId: string }
+) {
+  const { keyValue, keyHash, keyPreview } = generateApiKey();
+
+  const successor = await storage.createApiKey({
+    orgId: apiKey.orgId,
+    name: apiKey.name,
+    keyHash,
+    keyPreview,
+    scopes: apiKey.scopes,
+    roleCeiling: apiKey.roleCeiling,
+    expiresAt: apiKey.expiresAt,
+    createdBy: actorId,
+  });
+
+  // Never extend a key that was already due to expire sooner
+  const overlapEndsAt = new Date(Date.now() + overlapHours * HOUR_MS);
+  const expiresAt =
+    apiKey.expiresAt && apiKey.expiresAt < overlapEndsAt ? apiKey.expiresAt : overlapEndsAt;
+
+  const rotated = await storage.updateApiKey(apiKey.id, {
+    replacedById: successor.id,
+    expiresAt,
+  });
+
+  await storage.createAuditLog({
+    orgId: apiKey.orgId,
+    actorId,
+    action: "rotate",
+    entity: "api_key",
+    entityId: apiKey.id,
+    metadata: {
+      name: apiKey.name,
+      successorId: successor.id,
+      validUntil: expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+    },
+  });
+
+  await storage.createAuditLog({
+    orgId: apiKey.orgId,
+    actorId,
+    action: "create",
+    entity: "api_key",
+    entityId: successor.id,
+    metadata: { name: successor.name, scopes: successor.scopes, rotatedFromId: apiKey.id },
+  });
+
+  return { rotated, successor, keyValue };
+}
+
+// Records in the audit log that keys which reached expiresAt stopped working,
+// including rotated keys whose overlap window ended. Runs from the
+// record-expired-api-keys job.
+export async function recordExpiredApiKeys(): Promise<number> {
+  const expired = await storage.getUnrecordedExpiredApiKeys(new Date());
+
+  for (const apiKey of expired) {
+    await storage.createAuditLog({
+      orgId: apiKey.orgId,
+      actorId: null,
+      action: "expire",
+      entity: "api_key",
+      entityId: apiKey.id,
+      metadata: {
+        name: apiKey.name,
+        expiredAt: apiKey.expiresAt,
+        successorId: apiKey.replacedById,
+        lastUsedAt: apiKey.lastUsedAt,
+      },
+    });
+    await storage.updateApiKey(apiKey.id, { expiryRecordedAt: new Date() });
+  }
+
+  return expired.length;
+}
+
+// A key never has more power than its creator, and its role ceiling can lower
+// that further
+function capRole(role: string, ceiling: string | null): string {
+  return ceiling && ROLE_RANK[ceiling] < ROLE_RANK[role] ? ceiling : role;
+}
+
+// Authenticates /api/v1 requests by `Authorization: Bearer sk_...`. The key
+// acts as the member who created it, so handlers can read the organization
+// and role from req.orgMember exactly as they do for session requests.
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const match = (req.get("authorization") || "").match(/^Bearer\s+(sk_\S+)$/);
+    if (!match) {
+      return res.status(401).json({ error: "API key required" });
+    }
+
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(match[1]));
+    if (!apiKey || apiKey.organization.deletedAt) {
+      return res.status(401).json({ error: "Invalid API key" });
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      return res.status(401).json({ error: "API key has expired" });
+    }
+
+    const member = await storage.getOrgMember(apiKey.orgId, apiKey.createdBy);
+    if (!member) {
+      return res
+        .status(401)
+        .json({ error: "The creator of this API key is no longer a member" });
+    }
+
+    await storage.updateApiKey(apiKey.id, { lastUsedAt: new Date() });
+    trackApiKeyUsage(req, res, apiKey);
+
+    req.apiKey = apiKey;
+    req.orgMember = { ...member, role: capRole(member.role, apiKey.roleCeiling) };
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
+
+// Runs after requireApiKey
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+      return res.status(403).json({
+        error: `This API key is missing the "${scope}" scope`,
+        missingScope: scope,
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,458 @@
+import Stripe from "stripe";
+import { OVERAGE_PRICES, type Organization, type Subscription, type UsageReport } from "@shared/schema";
+import { storage } from "./storage";
+import { PAID_PLANS, type PaidPlan, type Plan } from "./plan-limits";
+import { getOverage } from "./metering";
+import { FakeBillingProvider } from "./fake-billing";
+import { DUNNING_STATUSES, updateDunning } from "./dunning";
+import { log } from "./vite";
+
+// Statuses that keep the plan that was paid for. Anything else falls back to
+// the free plan. Past due and unpaid organizations go through dunning instead.
+const PAID_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing", "past_due", "unpaid"];
+
+const STRIPE_MIN_TRIAL_MS = 48 * 60 * 60 * 1000;
+
+export interface CheckoutSessionParams {
+  organizationId: string;
+  customerId: string;
+  priceId: string;
+  // Paths within the app to send the user back to, like /billing
+  successUrl: string;
+  cancelUrl: string;
+  // Where the app is served, for providers that need absolute URLs
+  appUrl: string;
+  // End of the trial the organization is on; billing starts then
+  trialEnd?: Date;
+}
+
+export interface UsageRecord {
+  customerId: string;
+  // Operations past the plan's allowance
+  quantity: number;
+  // Billed in the period this falls in
+  timestamp: Date;
+  // The provider counts a record sent twice with the same key once
+  idempotencyKey: string;
+}
+
+// Where checkout and the billing portal happen. Either way, the outcome comes
+// back as Stripe events passed to handleStripeEvent.
+export interface BillingProvider {
+  // Price id of each plan that can be bought
+  prices: Partial<Record<PaidPlan, string>>;
+  createCustomer(organizationId: string): Promise<string>;
+  // Both return the URL to send the user to
+  createCheckoutSession(params: CheckoutSessionParams): Promise<string>;
+  createPortalSession(customerId: string, returnUrl: string): Promise<string>;
+  // Adds overage to the customer's metered billing
+  reportUsage(record: UsageRecord): Promise<void>;
+  // Ends the subscription now. The provider then reports it as deleted.
+  cancelSubscription(subscriptionId: string, customerId: string | null): Promise<void>;
+}
+
+export class StripeBillingProvider implements BillingProvider {
+  prices: Partial<Record<PaidPlan, string>> = {
+    pro: process.env.STRIPE_PRICE_PRO,
+    team: process.env.STRIPE_PRICE_TEAM,
+  };
+  // Metered prices for each plan's overage, billed from the meter below
+  overagePrices: Partial<Record<PaidPlan, string>> = {
+    pro: process.env.STRIPE_PRICE_PRO_OVERAGE,
+    team: process.env.STRIPE_PRICE_TEAM_OVERAGE,
+  };
+  meterEventName = process.env.STRIPE_METER_EVENT_NAME || "operations_overage";
+
+  constructor(private stripe: Stripe) {}
+
+  async createCustomer(organizationId: string): Promise<string> {
+    const customer = await this.stripe.customers.create({ metadata: { organizationId } });
+    return customer.id;
+  }
+
+  async createCheckoutSession(params: CheckoutSessionParams): Promise<string> {
+    const plan = PAID_PLANS.find((plan) => this.prices[plan] === params.priceId);
+    const overagePriceId = plan && this.overagePrices[plan];
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [{ price: params.priceId, quantity: 1 }];
+    // Metered prices take no quantity
+    if (overagePriceId) lineItems.push({ price: overagePriceId });
+
+    const session = await this.stripe.checkout.sessions.create({
+      customer: params.customerId,
+      payment_method_types: ["card"],
+      line_items: lineItems,
+      mode: "subscription",
+      success_url: new URL(params.successUrl, params.appUrl).href,
+      cancel_url: new URL(params.cancelUrl, params.appUrl).href,
+      metadata: { organizationId: params.organizationId, priceId: params.priceId },
+      subscription_data: {
+        metadata: { organizationId: params.organizationId },
+        // Stripe needs the trial to last at least two more days
+        ...(params.trialEnd && params.trialEnd.getTime() - Date.now() >= STRIPE_MIN_TRIAL_MS
+          ? { trial_end: Math.floor(params.trialEnd.getTime() / 1000) }
+          : {}),
+      },
+    });
+    if (!session.url) throw new Error("Stripe didn't return a checkout URL");
+    return session.url;
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return session.url;
+  }
+
+  async reportUsage(record: UsageRecord): Promise<void> {
+    await this.stripe.billing.meterEvents.create({
+      event_name: this.meterEventName,
+      payload: { stripe_customer_id: record.customerId, value: String(record.quantity) },
+      identifier: record.idempotencyKey,
+      timestamp: Math.floor(record.timestamp.getTime() / 1000),
+    });
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    await this.stripe.subscriptions.cancel(subscriptionId);
+  }
+}
+
+// BILLING_PROVIDER picks the backend. By default that's Stripe when
+// STRIPE_SECRET_KEY is set, and the fake provider in development and tests, so
+// the upgrade flow works offline. Anywhere else, such as a staging server
+// without NODE_ENV, it has to be asked for. Returns null when billing isn't
+// available.
+function createBillingProvider(): BillingProvider | null {
+  const production = process.env.NODE_ENV === "production";
+  const local = process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
+  const provider = process.env.BILLING_PROVIDER
+    || (process.env.STRIPE_SECRET_KEY ? "stripe" : local ? "fake" : "none");
+
+  if (provider === "none") return null;
+  if (provider === "stripe") {
+    if (!process.env.STRIPE_SECRET_KEY) throw new Error("BILLING_PROVIDER=stripe needs STRIPE_SECRET_KEY");
+    return new StripeBillingProvider(new Stripe(process.env.STRIPE_SECRET_KEY));
+  }
+  if (provider === "fake") {
+    // Anyone could upgrade for free
+    if (production) throw new Error("BILLING_PROVIDER=fake can't be used in production");
+    return new FakeBillingProvider((event) => handleStripeEvent(event));
+  }
+
+  throw new Error(`Unknown BILLING_PROVIDER "${provider}"`);
+}
+
+export const billingProvider = createBillingProvider();
+
+// A path on this app's origin. Browsers read `//host` and `/\host` as other
+// origins.
+export function isAppPath(url: unknown): url is string {
+  return typeof url === "string" && /^\/(?![\/\\])/.test(url);
+}
+
+export function getPlanForPrice(priceId: string): PaidPlan | undefined {
+  return PAID_PLANS.find((plan) => billingProvider?.prices[plan] === priceId);
+}
+
+// Cancels the organization's subscription so it stops being billed, for an
+// organization that's deleted. Returns false when it has none.
+export async function cancelOrganizationSubscription(
+  organization: Organization,
+  actorId: string | null
+): Promise<boolean> {
+  const subscriptionId = organization.stripeSubscriptionId;
+  if (!subscriptionId) return false;
+  if (!billingProvider) throw new Error("Billing isn't available to cancel the subscription");
+
+  await billingProvider.cancelSubscription(subscriptionId, organization.stripeCustomerId);
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId,
+    action: "cancel",
+    entity: "subscription",
+    entityId: subscriptionId,
+    metadata: { reason: "organization_deleted" },
+  });
+  log(`canceled subscription ${subscriptionId} of deleted organization ${organization.id}`, "billing");
+  return true;
+}
+
+function getId(value: string | { id: string } | null): string | null {
+  return typeof value === "string" ? value : value?.id ?? null;
+}
+
+// Checkout sessions and subscriptions carry the organization in their
+// metadata; anything else is matched on the Stripe customer
+async function findOrganization(
+  metadata: Stripe.Metadata | null,
+  customerId: string | null
+): Promise<Organization | undefined> {
+  if (metadata?.organizationId) return await storage.getOrganization(metadata.organizationId);
+  if (customerId) return await storage.getOrganizationByStripeCustomerId(customerId);
+  return undefined;
+}
+
+// Verifies the Stripe-Signature header over the raw request body and parses
+// the event. Throws if the signature doesn't match or is too old.
+export function constructStripeEvent(rawBody: Buffer, signature: string, secret: string): Stripe.Event {
+  return Stripe.webhooks.constructEvent(rawBody, signature, secret);
+}
+
+async function handleCheckoutCompleted(event: Stripe.Event, session: Stripe.Checkout.Session) {
+  if (session.mode !== "subscription") return;
+
+  const customerId = getId(session.customer);
+  const organization = await findOrganization(session.metadata, customerId);
+  if (!organization) {
+    log(`no organization for checkout session ${session.id}`, "billing");
+    return;
+  }
+
+  const plan = getPlanForPrice(session.metadata?.priceId || "");
+  if (!plan) {
+    log(`checkout session ${session.id} is for an unknown price`, "billing");
+    return;
+  }
+
+  const before = await storage.getSubscription(organization.id);
+  await storage.updateOrganization(organization.id, {
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: getId(session.subscription),
+    plan,
+  });
+  await storage.updateSubscription(organization.id, { plan, status: "active" });
+  await updateDunning(organization, before, "active");
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "subscribe",
+    entity: "subscription",
+    entityId: getId(session.subscription),
+    metadata: { plan, stripeEventId: event.id },
+  });
+}
+
+async function handleSubscriptionChanged(event: Stripe.Event, stripeSubscription: Stripe.Subscription) {
+  const organization = await findOrganization(stripeSubscription.metadata, getId(stripeSubscription.customer));
+  if (!organization) {
+    log(`no organization for subscription ${stripeSubscription.id}`, "billing");
+    return;
+  }
+  // Events for a subscription the organization has since replaced. A new
+  // subscription replaces the current one.
+  if (
+    event.type !== "customer.subscription.created" &&
+    organization.stripeSubscriptionId &&
+    organization.stripeSubscriptionId !== stripeSubscription.id
+  ) {
+    return;
+  }
+
+  // The plan's item; the subscription may also have a metered overage item
+  const item = stripeSubscription.items.data.find((item) => getPlanForPrice(item.price.id));
+  const pricePlan = item && getPlanForPrice(item.price.id);
+  if (!item || !pricePlan) {
+    log(`subscription ${stripeSubscription.id} is for an unknown price`, "billing");
+    return;
+  }
+
+  const deleted = event.type === "customer.subscription.deleted";
+  const status = stripeSubscription.status;
+  const plan: Plan = !deleted && PAID_STATUSES.includes(status) ? pricePlan : "free";
+  // The usage period follows the billing period
+  const periodEnd = new Date(item.current_period_end * 1000);
+
+  const before = await storage.getSubscription(organization.id);
+  // Renewed before the reset job closed the last period, so close it here
+  const renewed = !!before?.periodEnd && before.periodEnd <= new Date() && periodEnd > before.periodEnd;
+  // Overage is billed at the plan it was used on
+  if (before && (renewed || before.plan !== plan)) await reportOverage(before);
+
+  await storage.updateOrganization(organization.id, {
+    stripeSubscriptionId: deleted ? null : stripeSubscription.id,
+    plan,
+  });
+  await storage.updateSubscription(organization.id, {
+    plan,
+    status,
+    periodEnd,
+    ...(renewed ? { metered: {} } : {}),
+  });
+  await updateDunning(organization, before, status);
+
+  if (deleted || before?.plan !== plan || before?.status !== status) {
+    await storage.createAuditLog({
+      orgId: organization.id,
+      actorId: null,
+      action: deleted ? "cancel" : "update",
+      entity: "subscription",
+      entityId: stripeSubscription.id,
+      metadata: { before: before?.plan ?? null, after: plan, status, stripeEventId: event.id },
+    });
+  }
+}
+
+async function handleInvoicePaymentFailed(event: Stripe.Event, invoice: Stripe.Invoice) {
+  const organization = await findOrganization(
+    invoice.parent?.subscription_details?.metadata ?? null,
+    getId(invoice.customer)
+  );
+  if (!organization) {
+    log(`no organization for invoice ${invoice.id}`, "billing");
+    return;
+  }
+
+  const subscriptionId = getId(invoice.parent?.subscription_details?.subscription ?? null);
+  if (subscriptionId && subscriptionId === organization.stripeSubscriptionId) {
+    const before = await storage.getSubscription(organization.id);
+    await storage.updateSubscription(organization.id, { status: "past_due" });
+    await updateDunning(organization, before, "past_due");
+  }
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "payment_failed",
+    entity: "invoice",
+    entityId: invoice.id ?? null,
+    metadata: {
+      amountDue: invoice.amount_due,
+      currency: invoice.currency,
+      attempts: invoice.attempt_count,
+      stripeEventId: event.id,
+    },
+  });
+}
+
+// Settles dunning as soon as the overdue invoice is paid, without waiting for
+// the subscription update that follows
+async function handleInvoicePaid(event: Stripe.Event, invoice: Stripe.Invoice) {
+  const organization = await findOrganization(
+    invoice.parent?.subscription_details?.metadata ?? null,
+    getId(invoice.customer)
+  );
+  const subscriptionId = getId(invoice.parent?.subscription_details?.subscription ?? null);
+  if (!organization || !subscriptionId || subscriptionId !== organization.stripeSubscriptionId) return;
+
+  const before = await storage.getSubscription(organization.id);
+  if (!before || !DUNNING_STATUSES.includes(before.status)) return;
+
+  await storage.updateSubscription(organization.id, { status: "active" });
+  await updateDunning(organization, before, "active");
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "payment_succeeded",
+    entity: "invoice",
+    entityId: invoice.id ?? null,
+    metadata: {
+      amountPaid: invoice.amount_paid,
+      currency: invoice.currency,
+      stripeEventId: event.id,
+    },
+  });
+}
+
+async function sendUsageReport(report: UsageReport, customerId: string, periodEnd: Date) {
+  await billingProvider!.reportUsage({
+    customerId,
+    quantity: report.quantity,
+    // Reports sent after the period ended still belong to it
+    timestamp: new Date(Math.min(report.createdAt.getTime(), periodEnd.getTime() - 1000)),
+    idempotencyKey: report.idempotencyKey,
+  });
+  await storage.markUsageReported(report.id);
+}
+
+// Sends the overage of the subscription's current period that hasn't been
+// reported yet, and returns how much was sent. A report is recorded before
+// it's sent, so one interrupted by a failure is resent under the same
+// idempotency key rather than counted again.
+export async function reportOverage(subscription: Subscription): Promise<number> {
+  const { orgId, periodEnd } = subscription;
+  if (!billingProvider || !periodEnd) return 0;
+
+  const organization = await storage.getOrganization(orgId);
+  const customerId = organization?.stripeCustomerId;
+  if (!customerId) return 0;
+
+  const reports = await storage.getUsageReports(orgId, periodEnd);
+  let sent = 0;
+  for (const report of reports) {
+    if (report.reportedAt) continue;
+    await sendUsageReport(report, customerId, periodEnd);
+    sent += report.quantity;
+  }
+
+  const reported = reports.length > 0 ? reports[reports.length - 1].total : 0;
+  const overage = getOverage(subscription.plan as Plan, subscription.metered);
+  if (overage > reported) {
+    const report = await storage.createUsageReport({
+      orgId,
+      periodEnd,
+      quantity: overage - reported,
+      total: overage,
+      idempotencyKey: `overage_${orgId}_${periodEnd.getTime()}_${overage}`,
+    });
+    await sendUsageReport(report, customerId, periodEnd);
+    sent += report.quantity;
+  }
+
+  return sent;
+}
+
+// Reports the overage of every subscription on a plan that has overage
+// pricing. Throws after trying them all if any failed, so the job is retried.
+export async function reportAllOverage(): Promise<number> {
+  if (!billingProvider) return 0;
+
+  const plans = PAID_PLANS.filter((plan) => OVERAGE_PRICES[plan] !== undefined);
+  const subscriptions = await storage.getSubscriptionsOnPlans(plans);
+
+  let sent = 0;
+  const failed: string[] = [];
+  for (const subscription of subscriptions) {
+    try {
+      sent += await reportOverage(subscription);
+    } catch (error: any) {
+      log(`failed to report overage for ${subscription.orgId}: ${error.message}`, "billing");
+      failed.push(subscription.orgId);
+    }
+  }
+
+  if (sent > 0) log(`reported ${sent} overage operations`, "billing");
+  if (failed.length > 0) throw new Error(`Couldn't report overage for ${failed.length} organizations`);
+  return sent;
+}
+
+// Applies a verified Stripe event. Each event is handled once: returns false
+// for an event that was already handled. Event types not listed here are
+// acknowledged and ignored.
+export async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  if (!(await storage.recordStripeEvent(event.id, event.type))) return false;
+
+  try {
+    switch (event.type) {
+      case "checkout.session.completed":
+        await handleCheckoutCompleted(event, event.data.object);
+        break;
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.deleted":
+        await handleSubscriptionChanged(event, event.data.object);
+        break;
+      case "invoice.payment_failed":
+        await handleInvoicePaymentFailed(event, event.data.object);
+        break;
+      case "invoice.paid":
+        await handleInvoicePaid(event, event.data.object);
+        break;
+    }
+  } catch (error) {
+    await storage.deleteStripeEvent(event.id);
+    throw error;
+  }
+
+  return true;
+}
@@ -0,0 +1,13 @@
+import "dotenv/config";
+import { runMigrations, storageDriver } from "../db";
+
+(async () => {
+  if (storageDriver === "memory") {
+    console.error("Set DATABASE_URL (or STORAGE_DRIVER) to run migrations");
+    process.exit(1);
+  }
+
+  await runMigrations();
+  console.log("Migrations applied");
+  process.exit(0);
+})();
@@ -0,0 +1,42 @@
+import "dotenv/config";
+import { runMigrations, storageDriver } from "../db";
+import { storage } from "../storage";
+import { seedDemoTenant } from "../seed";
+
+function readFlag(name: string): number | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? parseInt(arg.split("=")[1], 10) : undefined;
+}
+
+(async () => {
+  // The demo users and full-scope API keys would be real credentials there
+  if (process.env.NODE_ENV === "production" && !process.argv.includes("--force")) {
+    console.error("Refusing to seed with NODE_ENV=production; pass --force if this database really is disposable");
+    process.exit(1);
+  }
+
+  if (storageDriver === "memory") {
+    console.error("Set DATABASE_URL (or STORAGE_DRIVER) to seed a persistent database");
+    process.exit(1);
+  }
+
+  await runMigrations();
+
+  const result = await seedDemoTenant(storage, {
+    seed: readFlag("seed") ?? (process.env.SEED ? parseInt(process.env.SEED, 10) : undefined),
+    leads: readFlag("leads"),
+  }).catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+
+  console.log(`Seeded ${result.organizations.map((o) => o.name).join(", ")}`);
+  console.log(`  ${result.leads} leads, ${result.comments} comments`);
+  for (const user of Object.values(result.users)) {
+    console.log(`  login: ${user.email} / ${result.password}`);
+  }
+  for (const key of result.apiKeys) {
+    console.log(`  api key "${key.name}": ${key.keyValue}`);
+  }
+  process.exit(0);
+})();
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun } from "./cron";
+
+// All times are UTC. 2026-03-01 is a Sunday.
+describe("nextCronRun", () => {
+  it.each([
+    // Minutes and steps
+    ["*/15 * * * *", "2026-03-10T10:07:30Z", "2026-03-10T10:15:00Z"],
+    ["5/15 * * * *", "2026-03-10T10:07:00Z", "2026-03-10T10:20:00Z"],
+    ["5/15 * * * *", "2026-03-10T10:50:00Z", "2026-03-10T11:05:00Z"],
+    ["10-40/10 * * * *", "2026-03-10T10:40:00Z", "2026-03-10T11:10:00Z"],
+    ["0,30 * * * *", "2026-03-10T10:15:00Z", "2026-03-10T10:30:00Z"],
+    // Strictly after, even when `after` itself matches
+    ["0 * * * *", "2026-03-10T10:00:00Z", "2026-03-10T11:00:00Z"],
+    ["15 */6 * * *", "2026-03-10T06:15:00Z", "2026-03-10T12:15:00Z"],
+    // Sunday is 0 or 7
+    ["0 9 * * 0", "2026-03-10T00:00:00Z", "2026-03-15T09:00:00Z"],
+    ["0 9 * * 7", "2026-03-10T00:00:00Z", "2026-03-15T09:00:00Z"],
+    ["0 9 * * 5-7", "2026-03-10T00:00:00Z", "2026-03-13T09:00:00Z"],
+    // One day field restricted: only that one counts
+    ["0 0 15 * *", "2026-03-10T00:00:00Z", "2026-03-15T00:00:00Z"],
+    ["0 0 * * 1", "2026-03-10T00:00:00Z", "2026-03-16T00:00:00Z"],
+    // Both restricted: the 15th or a Monday
+    ["0 0 15 * 1", "2026-03-10T00:00:00Z", "2026-03-15T00:00:00Z"],
+    ["0 0 15 * 1", "2026-03-15T00:00:00Z", "2026-03-16T00:00:00Z"],
+    ["0 0 15 * 1", "2026-03-30T00:00:00Z", "2026-04-06T00:00:00Z"],
+    // Rolling over hours, days, months and years
+    ["59 23 * * *", "2026-02-28T23:59:00Z", "2026-03-01T23:59:00Z"],
+    ["0 0 1 * *", "2026-12-31T12:00:00Z", "2027-01-01T00:00:00Z"],
+    ["0 0 31 * *", "2026-04-01T00:00:00Z", "2026-05-31T00:00:00Z"],
+    ["0 0 1 6-8 *", "2026-08-01T00:00:00Z", "2027-06-01T00:00:00Z"],
+    // Only Feb 29 matches
+    ["0 0 29 2 *", "2026-03-01T00:00:00Z", "2028-02-29T00:00:00Z"],
+    ["0 12 29 2 *", "2024-02-29T12:00:00Z", "2028-02-29T12:00:00Z"],
+  ])("%s after %s is %s", (expression, after, expected) => {
+    expect(nextCronRun(expression, new Date(after)).toISOString()).toBe(new Date(expected).toISOString());
+  });
+
+  it.each([
+    ["0 0 30 2 *", "never matches"],
+    ["60 * * * *", "out of range"],
+    ["0 0 * * 8", "out of range"],
+    ["*/0 * * * *", "out of range"],
+    ["* * * *", "expected 5 fields"],
+    ["0 0 * JAN *", "can't parse"],
+  ])("rejects %s", (expression, message) => {
+    expect(() => nextCronRun(expression, new Date("2026-03-10T00:00:00Z"))).toThrow(message);
+  });
+});
@@ -0,0 +1,245 @@
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { CronRun } from "@shared/schema";
+import { storage } from "./storage";
+import { enqueueJob, type JobPayloads, type JobType } from "./jobs";
+import { log } from "./vite";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Job types that take no payload, so a schedule can queue them as is
+type ScheduledJobType = {
+  [T in JobType]: JobPayloads[T] extends Record<string, never> ? T : never;
+}[JobType];
+
+interface CronJob {
+  // Five-field cron expression, evaluated in UTC
+  schedule: string;
+  job: ScheduledJobType;
+}
+
+// Recurring jobs, keyed by the name used in /api/cron/:job. Each run only
+// queues the job; the job worker does the work.
+export const CRON_JOBS = {
+  "purge-organizations": { schedule: "0 * * * *", job: "organizations.purge" },
+  "record-expired-api-keys": { schedule: "10 * * * *", job: "apiKeys.recordExpired" },
+  "reset-metered-usage": { schedule: "5 * * * *", job: "subscriptions.resetUsage" },
+  "report-usage": { schedule: "50 * * * *", job: "billing.reportUsage" },
+  "process-trials": { schedule: "20 * * * *", job: "trials.process" },
+  "process-dunning": { schedule: "25 * * * *", job: "dunning.process" },
+  "sync-airtable": { schedule: "15 */6 * * *", job: "airtable.syncAll" },
+  "clean-up-expired-data": { schedule: "30 3 * * *", job: "maintenance.cleanup" },
+} satisfies Record<string, CronJob>;
+
+export type CronJobName = keyof typeof CRON_JOBS;
+
+const CRON_JOB_NAMES = Object.keys(CRON_JOBS) as CronJobName[];
+
+export function isCronJobName(name: string): name is CronJobName {
+  return CRON_JOB_NAMES.includes(name as CronJobName);
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// Supports `*`, numbers, ranges (`1-5`), steps (`*/15`, `10-40/10`, `5/15`)
+// and comma-separated lists of those. Names like MON or JAN aren't supported.
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (!match) throw new Error(`Invalid cron expression "${expression}": can't parse "${item}"`);
+
+    const [, from, to, every] = match;
+    const start = from === undefined ? min : Number(from);
+    const end = to !== undefined ? Number(to) : from === undefined || every !== undefined ? max : start;
+    const step = every === undefined ? 1 : Number(every);
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": "${item}" is out of range`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i], expression)
+  );
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function matchesDay(fields: CronFields, date: Date) {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+  // As in cron, restricting both day fields matches days that satisfy either
+  if (fields.anyDayOfMonth || fields.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+// The first whole minute after `after` that the expression matches
+export function nextCronRun(expression: string, after: Date): Date {
+  const fields = parseCronExpression(expression);
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Every valid expression matches within four years (think Feb 29)
+  const limit = after.getTime() + 4 * 366 * DAY_MS;
+  while (date.getTime() <= limit) {
+    if (!fields.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(fields, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!fields.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!fields.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+export interface CronJobStatus {
+  name: CronJobName;
+  schedule: string;
+  job: ScheduledJobType;
+  lastRunAt: Date | null;
+  lastJobId: number | null;
+  nextRunAt: Date;
+}
+
+function toStatus(name: CronJobName, run: CronRun | undefined, now: Date): CronJobStatus {
+  const { schedule, job } = CRON_JOBS[name];
+  // A run recorded under an older schedule says nothing about the next one
+  const current = run && run.schedule === schedule ? run : undefined;
+  return {
+    name,
+    schedule,
+    job,
+    lastRunAt: run?.lastRunAt ?? null,
+    lastJobId: run?.lastJobId ?? null,
+    nextRunAt: current ? current.nextRunAt : nextCronRun(schedule, now),
+  };
+}
+
+export async function getCronJobStatuses(): Promise<CronJobStatus[]> {
+  const now = new Date();
+  const runs = await storage.getCronRuns();
+  return CRON_JOB_NAMES.map((name) => toStatus(name, runs.find((run) => run.name === name), now));
+}
+
+// Queues a job outside its schedule, e.g. from /api/cron/:job. The next
+// scheduled run stays where it was.
+export async function triggerCronJob(name: CronJobName): Promise<CronJobStatus> {
+  const now = new Date();
+  const status = toStatus(name, (await storage.getCronRuns()).find((run) => run.name === name), now);
+
+  const job = await enqueueJob(status.job, {});
+  const run = await storage.saveCronRun({
+    name,
+    schedule: status.schedule,
+    lastRunAt: now,
+    lastJobId: job.id,
+    nextRunAt: status.nextRunAt,
+  });
+
+  log(`${name} triggered, queued job #${job.id}`, "cron");
+  return toStatus(name, run, now);
+}
+
+// Queues every job whose next run has come. Runs missed while no server was
+// up are made up once, not once per missed occurrence.
+export async function runDueCronJobs(): Promise<number> {
+  const now = new Date();
+  const runs = await storage.getCronRuns();
+
+  let queued = 0;
+  for (const name of CRON_JOB_NAMES) {
+    const { schedule, job } = CRON_JOBS[name];
+    const run = runs.find((run) => run.name === name);
+
+    if (!run || run.schedule !== schedule) {
+      await storage.saveCronRun({ name, schedule, nextRunAt: nextCronRun(schedule, now) });
+      continue;
+    }
+    if (run.nextRunAt > now) continue;
+
+    const claimed = await storage.claimCronRun(name, run.nextRunAt, nextCronRun(schedule, now));
+    if (!claimed) continue;
+
+    const queuedJob = await enqueueJob(job, {});
+    await storage.updateCronRun(name, { lastJobId: queuedJob.id });
+    queued++;
+  }
+
+  return queued;
+}
+
+// CRON_SCHEDULER=off leaves the schedule to an external scheduler calling
+// /api/cron/:job, so jobs don't run twice
+export function startCronScheduler(): NodeJS.Timeout | null {
+  if (process.env.CRON_SCHEDULER === "off") return null;
+
+  // Fail at startup rather than on the first tick
+  CRON_JOB_NAMES.forEach((name) => parseCronExpression(CRON_JOBS[name].schedule));
+
+  const run = () =>
+    runDueCronJobs().catch((error) => log(`scheduler failed: ${error.message}`, "cron"));
+
+  run();
+  const timer = setInterval(run, MINUTE_MS);
+  timer.unref();
+  return timer;
+}
+
+// Guards /api/cron/* with `Authorization: Bearer <CRON_SECRET>`. The endpoints
+// stay off until a secret is configured.
+export function requireCronSecret(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return res.status(503).json({ error: "Cron endpoints are disabled; set CRON_SECRET to enable them" });
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(req.headers.authorization || "");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: "Invalid cron secret" });
+  }
+
+  next();
+}
@@ -0,0 +1,987 @@
+import {
+  users,
+  organizations,
+  orgMembers,
+  invitations,
+  apiKeys,
+  apiKeyUsage,
+  webhookEndpoints,
+  webhookDeliveries,
+  jobQueue,
+  cronRuns,
+  settings,
+  subscriptions,
+  stripeEvents,
+  usageReports,
+  auditLogs,
+  pipelines,
+  stages,
+  leads,
+  leadComments,
+  type User,
+  type InsertUser,
+  type Organization,
+  type InsertOrganization,
+  type OrgMember,
+  type InsertOrgMember,
+  type Invitation,
+  type InsertInvitation,
+  type ApiKey,
+  type InsertApiKey,
+  type InsertApiKeyUsage,
+  type ApiKeyUsageStats,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type Job,
+  type InsertJob,
+  type JobStatus,
+  type JobQueueStats,
+  type CronRun,
+  type InsertCronRun,
+  type UsageReport,
+  type InsertUsageReport,
+  type Setting,
+  type InsertSetting,
+  type AuditLog,
+  type InsertAuditLog,
+  type UserWithOrganizations,
+  type Subscription,
+  type Pipeline,
+  type InsertPipeline,
+  type Stage,
+  type InsertStage,
+  type Lead,
+  type InsertLead,
+  type LeadComment,
+  type InsertLeadComment,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, or, sql } from "drizzle-orm";
+import bcrypt from "bcrypt";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const passwordHash = await bcrypt.hash(insertUser.passwordHash, 10);
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, passwordHash })
+      .returning();
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async verifyPassword(email: string, password: string): Promise<User | undefined> {
+    const user = await this.getUserByEmail(email);
+    if (!user) return undefined;
+
+    const isValid = await bcrypt.compare(password, user.passwordHash);
+    return isValid ? user : undefined;
+  }
+
+  async getUserWithOrganizations(userId: string): Promise<UserWithOrganizations | undefined> {
+    const user = await this.getUserById(userId);
+    if (!user) return undefined;
+
+    const rows = await this.db
+      .select({ organization: organizations, role: orgMembers.role })
+      .from(orgMembers)
+      .innerJoin(organizations, eq(orgMembers.orgId, organizations.id))
+      .where(and(eq(orgMembers.userId, userId), isNull(organizations.deletedAt)));
+
+    const orgsWithRoles = rows.map(({ organization, role }) => ({
+      ...organization,
+      role: role || 'owner',
+    }));
+
+    return { ...user, organizations: orgsWithRoles };
+  }
+
+  async createOrganization(insertOrg: InsertOrganization, ownerId: string): Promise<Organization> {
+    return await this.db.transaction(async (tx) => {
+      const [org] = await tx
+        .insert(organizations)
+        .values({ ...insertOrg, ownerId, plan: insertOrg.plan || 'free' })
+        .returning();
+
+      // Add owner as admin member
+      await tx.insert(orgMembers).values({
+        orgId: org.id,
+        userId: ownerId,
+        role: 'admin',
+        invitedBy: ownerId,
+        acceptedAt: new Date(),
+      });
+
+      // Create default subscription
+      await tx.insert(subscriptions).values({
+        orgId: org.id,
+        plan: 'free',
+        status: 'active',
+        metered: {},
+      });
+
+      return org;
+    });
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [org] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return org;
+  }
+
+  async getOrganizationsByUser(userId: string): Promise<Organization[]> {
+    const rows = await this.db
+      .select({ organization: organizations })
+      .from(orgMembers)
+      .innerJoin(organizations, eq(orgMembers.orgId, organizations.id))
+      .where(and(eq(orgMembers.userId, userId), isNull(organizations.deletedAt)));
+
+    return rows.map(row => row.organization);
+  }
+
+  async updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization> {
+    const [org] = await this.db
+      .update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    if (!org) throw new Error('Organization not found');
+
+    return org;
+  }
+
+  async getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined> {
+    const [org] = await this.db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.stripeCustomerId, customerId));
+    return org;
+  }
+
+  async getDeletedOrganizations(ownerId: string): Promise<Organization[]> {
+    return await this.db
+      .select()
+      .from(organizations)
+      .where(and(eq(organizations.ownerId, ownerId), isNotNull(organizations.deletedAt)))
+      .orderBy(desc(organizations.deletedAt));
+  }
+
+  async getOrganizationsDeletedBefore(cutoff: Date): Promise<Organization[]> {
+    return await this.db
+      .select()
+      .from(organizations)
+      .where(lt(organizations.deletedAt, cutoff));
+  }
+
+  async getOrganizationsWithTrialEndingBefore(cutoff: Date): Promise<Organization[]> {
+    return await this.db
+      .select()
+      .from(organizations)
+      .where(and(
+        lt(organizations.trialEnd, cutoff),
+        isNull(organizations.stripeSubscriptionId),
+        isNull(organizations.deletedAt),
+        ne(organizations.plan, 'free')
+      ));
+  }
+
+  // Every org-scoped table references organizations with ON DELETE CASCADE
+  async deleteOrganization(id: string): Promise<void> {
+    await this.db.delete(organizations).where(eq(organizations.id, id));
+  }
+
+  async addOrgMember(insertMember: InsertOrgMember): Promise<OrgMember> {
+    const [member] = await this.db.insert(orgMembers).values(insertMember).returning();
+    return member;
+  }
+
+  async getOrgMembers(orgId: string): Promise<(OrgMember & { user: Pick<User, 'id' | 'name' | 'email'> })[]> {
+    const rows = await this.db
+      .select({
+        member: orgMembers,
+        user: { id: users.id, name: users.name, email: users.email },
+      })
+      .from(orgMembers)
+      .innerJoin(users, eq(orgMembers.userId, users.id))
+      .where(eq(orgMembers.orgId, orgId));
+
+    return rows.map(({ member, user }) => ({ ...member, user }));
+  }
+
+  async getOrgMember(orgId: string, userId: string): Promise<OrgMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(orgMembers)
+      .where(and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, userId)));
+    return member;
+  }
+
+  async updateOrgMemberRole(orgId: string, userId: string, role: string): Promise<OrgMember> {
+    const [member] = await this.db
+      .update(orgMembers)
+      .set({ role })
+      .where(and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, userId)))
+      .returning();
+    if (!member) throw new Error('Member not found');
+
+    return member;
+  }
+
+  async removeOrgMember(orgId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(orgMembers)
+      .where(and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, userId)));
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const [invitation] = await this.db.insert(invitations).values(insertInvitation).returning();
+    return invitation;
+  }
+
+  async getInvitation(id: string): Promise<Invitation | undefined> {
+    const [invitation] = await this.db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation;
+  }
+
+  async getPendingInvitations(orgId: string): Promise<Invitation[]> {
+    return await this.db
+      .select()
+      .from(invitations)
+      .where(and(
+        eq(invitations.orgId, orgId),
+        isNull(invitations.acceptedAt),
+        isNull(invitations.declinedAt),
+        isNull(invitations.revokedAt),
+      ))
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  async updateInvitation(id: string, updates: Partial<Invitation>): Promise<Invitation> {
+    const [invitation] = await this.db
+      .update(invitations)
+      .set(updates)
+      .where(eq(invitations.id, id))
+      .returning();
+    if (!invitation) throw new Error('Invitation not found');
+
+    return invitation;
+  }
+
+  async deleteInvitationsExpiredBefore(cutoff: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(invitations)
+      .where(and(isNull(invitations.acceptedAt), lt(invitations.expiresAt, cutoff)))
+      .returning({ id: invitations.id });
+    return deleted.length;
+  }
+
+  async createApiKey(apiKey: InsertApiKey & { keyHash: string; keyPreview: string }): Promise<ApiKey> {
+    const [key] = await this.db.insert(apiKeys).values(apiKey).returning();
+    return key;
+  }
+
+  async getApiKeys(orgId: string): Promise<ApiKey[]> {
+    return await this.db.select().from(apiKeys).where(eq(apiKeys.orgId, orgId));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<(ApiKey & { organization: Organization }) | undefined> {
+    const [row] = await this.db
+      .select({ apiKey: apiKeys, organization: organizations })
+      .from(apiKeys)
+      .innerJoin(organizations, eq(apiKeys.orgId, organizations.id))
+      .where(eq(apiKeys.keyHash, keyHash));
+
+    if (!row) return undefined;
+
+    return { ...row.apiKey, organization: row.organization };
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const [apiKey] = await this.db
+      .update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    if (!apiKey) throw new Error('API key not found');
+
+    return apiKey;
+  }
+
+  async deleteApiKey(id: string, orgId: string): Promise<void> {
+    await this.db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.orgId, orgId)));
+  }
+
+  async getUnrecordedExpiredApiKeys(cutoff: Date): Promise<ApiKey[]> {
+    return await this.db
+      .select()
+      .from(apiKeys)
+      .where(and(lt(apiKeys.expiresAt, cutoff), isNull(apiKeys.expiryRecordedAt)));
+  }
+
+  async recordApiKeyUsage(usage: InsertApiKeyUsage): Promise<void> {
+    await this.db.insert(apiKeyUsage).values(usage);
+  }
+
+  async getApiKeyUsageStats(apiKeyId: string, orgId: string, since: Date): Promise<ApiKeyUsageStats> {
+    const where = and(
+      eq(apiKeyUsage.apiKeyId, apiKeyId),
+      eq(apiKeyUsage.orgId, orgId),
+      gte(apiKeyUsage.createdAt, since)
+    );
+    const errors = sql<number>`cast(count(*) filter (where ${apiKeyUsage.status} >= 400) as int)`;
+    const day = sql<string>`to_char(${apiKeyUsage.createdAt}, 'YYYY-MM-DD')`;
+
+    const daily = await this.db
+      .select({ day, requests: count(), errors })
+      .from(apiKeyUsage)
+      .where(where)
+      .groupBy(day)
+      .orderBy(day);
+
+    const endpoints = await this.db
+      .select({
+        method: apiKeyUsage.method,
+        route: apiKeyUsage.route,
+        requests: count(),
+        errors,
+        avgDurationMs: sql<number>`cast(round(avg(${apiKeyUsage.durationMs})) as int)`,
+      })
+      .from(apiKeyUsage)
+      .where(where)
+      .groupBy(apiKeyUsage.method, apiKeyUsage.route)
+      .orderBy(desc(count()))
+      .limit(10);
+
+    return { daily, endpoints };
+  }
+
+  async deleteApiKeyUsageBefore(orgId: string, cutoff: Date): Promise<void> {
+    await this.db
+      .delete(apiKeyUsage)
+      .where(and(eq(apiKeyUsage.orgId, orgId), lt(apiKeyUsage.createdAt, cutoff)));
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string }): Promise<WebhookEndpoint> {
+    const [webhookEndpoint] = await this.db.insert(webhookEndpoints).values(endpoint).returning();
+    return webhookEndpoint;
+  }
+
+  async getWebhookEndpoints(orgId: string): Promise<WebhookEndpoint[]> {
+    return await this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.orgId, orgId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(id: string, orgId: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.orgId, orgId)));
+    return endpoint;
+  }
+
+  async updateWebhookEndpoint(id: string, orgId: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint> {
+    const [endpoint] = await this.db
+      .update(webhookEndpoints)
+      .set(updates)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.orgId, orgId)))
+      .returning();
+    if (!endpoint) throw new Error('Webhook endpoint not found');
+
+    return endpoint;
+  }
+
+  async deleteWebhookEndpoint(id: string, orgId: string): Promise<void> {
+    await this.db
+      .delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.orgId, orgId)));
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [webhookDelivery] = await this.db.insert(webhookDeliveries).values(delivery).returning();
+    return webhookDelivery;
+  }
+
+  async getWebhookDelivery(id: string, orgId: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.orgId, orgId)));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(endpointId: string, orgId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.orgId, orgId)))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    if (!delivery) throw new Error('Webhook delivery not found');
+
+    return delivery;
+  }
+
+  async deleteWebhookDeliveriesBefore(cutoff: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(webhookDeliveries)
+      .where(and(ne(webhookDeliveries.status, "pending"), lt(webhookDeliveries.createdAt, cutoff)))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    const [queued] = await this.db.insert(jobQueue).values(job).returning();
+    return queued;
+  }
+
+  // Rows locked by another worker's claim are skipped rather than waited on,
+  // so each due job goes to exactly one worker
+  async claimJobs(limit: number, lockedUntil: Date): Promise<Job[]> {
+    const now = new Date();
+    const due = this.db
+      .select({ id: jobQueue.id })
+      .from(jobQueue)
+      .where(or(
+        and(eq(jobQueue.status, "pending"), lte(jobQueue.runAt, now)),
+        and(eq(jobQueue.status, "running"), lte(jobQueue.lockedUntil, now))
+      ))
+      .orderBy(asc(jobQueue.runAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await this.db
+      .update(jobQueue)
+      .set({ status: "running", attempts: sql`${jobQueue.attempts} + 1`, lockedUntil })
+      .where(inArray(jobQueue.id, due))
+      .returning();
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job> {
+    const [job] = await this.db
+      .update(jobQueue)
+      .set(updates)
+      .where(eq(jobQueue.id, id))
+      .returning();
+    if (!job) throw new Error('Job not found');
+
+    return job;
+  }
+
+  async deleteJobsCompletedBefore(cutoff: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(jobQueue)
+      .where(and(eq(jobQueue.status, "completed"), lt(jobQueue.completedAt, cutoff)))
+      .returning({ id: jobQueue.id });
+    return deleted.length;
+  }
+
+  async getJobs(orgId: string, { type, status, limit = 50, before }: { type?: string; status?: JobStatus; limit?: number; before?: number } = {}): Promise<Job[]> {
+    return await this.db
+      .select()
+      .from(jobQueue)
+      .where(and(
+        eq(jobQueue.orgId, orgId),
+        type === undefined ? undefined : eq(jobQueue.type, type),
+        status === undefined ? undefined : eq(jobQueue.status, status),
+        before === undefined ? undefined : lt(jobQueue.id, before)
+      ))
+      .orderBy(desc(jobQueue.id))
+      .limit(limit);
+  }
+
+  async getJob(id: number, orgId: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(jobQueue)
+      .where(and(eq(jobQueue.id, id), eq(jobQueue.orgId, orgId)));
+    return job;
+  }
+
+  async getJobStats(orgId: string, now: Date): Promise<JobQueueStats> {
+    const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+    const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const inOrg = eq(jobQueue.orgId, orgId);
+
+    const [byStatus, [due], [completed], types] = await Promise.all([
+      this.db
+        .select({ status: jobQueue.status, count: count() })
+        .from(jobQueue)
+        .where(inOrg)
+        .groupBy(jobQueue.status),
+      this.db
+        .select({ count: count(), oldestDueAt: sql`min(${jobQueue.runAt})`.mapWith(jobQueue.runAt) })
+        .from(jobQueue)
+        .where(and(inOrg, eq(jobQueue.status, "pending"), lte(jobQueue.runAt, now))),
+      this.db
+        .select({
+          lastDay: count(),
+          lastHour: sql<number>`cast(count(*) filter (where ${gt(jobQueue.completedAt, hourAgo)}) as int)`,
+        })
+        .from(jobQueue)
+        .where(and(inOrg, gt(jobQueue.completedAt, dayAgo))),
+      this.db
+        .selectDistinct({ type: jobQueue.type })
+        .from(jobQueue)
+        .where(inOrg)
+        .orderBy(jobQueue.type),
+    ]);
+
+    const counts: JobQueueStats["counts"] = { pending: 0, running: 0, completed: 0, dead: 0, cancelled: 0 };
+    for (const row of byStatus) counts[row.status] = row.count;
+
+    return {
+      counts,
+      due: due.count,
+      oldestDueAt: due.oldestDueAt ?? null,
+      completedLastHour: completed.lastHour,
+      completedLastDay: completed.lastDay,
+      types: types.map((row) => row.type),
+    };
+  }
+
+  async retryJob(id: number, orgId: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobQueue)
+      .set({ status: "pending", attempts: 0, runAt: new Date(), lockedUntil: null })
+      .where(and(
+        eq(jobQueue.id, id),
+        eq(jobQueue.orgId, orgId),
+        inArray(jobQueue.status, ["dead", "cancelled"])
+      ))
+      .returning();
+    return job;
+  }
+
+  // Conditional on the status, so a job a worker has just claimed isn't
+  // cancelled out from under it
+  async cancelJob(id: number, orgId: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobQueue)
+      .set({ status: "cancelled" })
+      .where(and(eq(jobQueue.id, id), eq(jobQueue.orgId, orgId), eq(jobQueue.status, "pending")))
+      .returning();
+    return job;
+  }
+
+  async deleteDeadJobs(orgId: string): Promise<number> {
+    const deleted = await this.db
+      .delete(jobQueue)
+      .where(and(eq(jobQueue.orgId, orgId), eq(jobQueue.status, "dead")))
+      .returning({ id: jobQueue.id });
+    return deleted.length;
+  }
+
+  async getCronRuns(): Promise<CronRun[]> {
+    return await this.db.select().from(cronRuns);
+  }
+
+  async saveCronRun(run: InsertCronRun): Promise<CronRun> {
+    const values = { ...run, updatedAt: new Date() };
+    const [saved] = await this.db
+      .insert(cronRuns)
+      .values(values)
+      .onConflictDoUpdate({ target: cronRuns.name, set: values })
+      .returning();
+    return saved;
+  }
+
+  // Matching on the old nextRunAt makes the update a compare-and-set, so only
+  // one server instance enqueues each scheduled run
+  async claimCronRun(name: string, dueAt: Date, nextRunAt: Date): Promise<CronRun | undefined> {
+    const [claimed] = await this.db
+      .update(cronRuns)
+      .set({ lastRunAt: new Date(), nextRunAt, updatedAt: new Date() })
+      .where(and(eq(cronRuns.name, name), eq(cronRuns.nextRunAt, dueAt)))
+      .returning();
+    return claimed;
+  }
+
+  async updateCronRun(name: string, updates: Partial<CronRun>): Promise<CronRun> {
+    const [run] = await this.db
+      .update(cronRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(cronRuns.name, name))
+      .returning();
+    if (!run) throw new Error('Cron run not found');
+
+    return run;
+  }
+
+  async setSetting(insertSetting: InsertSetting): Promise<Setting> {
+    const [setting] = await this.db
+      .insert(settings)
+      .values(insertSetting)
+      .onConflictDoUpdate({
+        target: [settings.orgId, settings.key],
+        set: { value: insertSetting.value, updatedBy: insertSetting.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  async getSetting(orgId: string, key: string): Promise<Setting | undefined> {
+    const [setting] = await this.db
+      .select()
+      .from(settings)
+      .where(and(eq(settings.orgId, orgId), eq(settings.key, key)));
+    return setting;
+  }
+
+  async getSettings(orgId: string): Promise<Setting[]> {
+    return await this.db.select().from(settings).where(eq(settings.orgId, orgId));
+  }
+
+  async getOrganizationIdsWithSetting(key: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ orgId: settings.orgId })
+      .from(settings)
+      .where(eq(settings.key, key));
+    return rows.map((row) => row.orgId);
+  }
+
+  async updateSubscription(orgId: string, updates: Partial<Subscription>): Promise<Subscription> {
+    const values = { ...updates, orgId, updatedAt: new Date() };
+    const [subscription] = await this.db
+      .insert(subscriptions)
+      .values({ plan: 'free', status: 'active', metered: {}, ...values })
+      .onConflictDoUpdate({ target: subscriptions.orgId, set: values })
+      .returning();
+    return subscription;
+  }
+
+  async getSubscription(orgId: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.orgId, orgId));
+    return subscription;
+  }
+
+  async getSubscriptionsEndedBefore(cutoff: Date): Promise<Subscription[]> {
+    return await this.db
+      .select()
+      .from(subscriptions)
+      .where(or(isNull(subscriptions.periodEnd), lt(subscriptions.periodEnd, cutoff)));
+  }
+
+  // Increments in the database so concurrent requests don't lose counts
+  async incrementMeteredUsage(orgId: string, metric: string, amount: number): Promise<Subscription> {
+    const [subscription] = await this.db
+      .insert(subscriptions)
+      .values({ orgId, plan: 'free', status: 'active', metered: { [metric]: amount } })
+      .onConflictDoUpdate({
+        target: subscriptions.orgId,
+        set: {
+          metered: sql`jsonb_set(${subscriptions.metered}, array[${metric}], to_jsonb(coalesce((${subscriptions.metered} ->> ${metric})::bigint, 0) + ${amount}))`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return subscription;
+  }
+
+  async recordStripeEvent(id: string, type: string): Promise<boolean> {
+    const recorded = await this.db
+      .insert(stripeEvents)
+      .values({ id, type })
+      .onConflictDoNothing()
+      .returning({ id: stripeEvents.id });
+    return recorded.length > 0;
+  }
+
+  async deleteStripeEvent(id: string): Promise<void> {
+    await this.db.delete(stripeEvents).where(eq(stripeEvents.id, id));
+  }
+
+  async getSubscriptionsOnPlans(plans: string[]): Promise<Subscription[]> {
+    if (plans.length === 0) return [];
+    return await this.db
+      .select()
+      .from(subscriptions)
+      .where(inArray(subscriptions.plan, plans));
+  }
+
+  async getSubscriptionsWithStatuses(statuses: string[]): Promise<Subscription[]> {
+    if (statuses.length === 0) return [];
+    return await this.db
+      .select()
+      .from(subscriptions)
+      .where(inArray(subscriptions.status, statuses));
+  }
+
+  async getUsageReports(orgId: string, periodEnd: Date): Promise<UsageReport[]> {
+    return await this.db
+      .select()
+      .from(usageReports)
+      .where(and(eq(usageReports.orgId, orgId), eq(usageReports.periodEnd, periodEnd)))
+      .orderBy(asc(usageReports.id));
+  }
+
+  async createUsageReport(insertReport: InsertUsageReport): Promise<UsageReport> {
+    const [report] = await this.db
+      .insert(usageReports)
+      .values(insertReport)
+      .returning();
+    return report;
+  }
+
+  async markUsageReported(id: number): Promise<void> {
+    await this.db
+      .update(usageReports)
+      .set({ reportedAt: new Date() })
+      .where(eq(usageReports.id, id));
+  }
+
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await this.db
+      .insert(auditLogs)
+      .values({ ...insertLog, metadata: insertLog.metadata || {} })
+      .returning();
+    return log;
+  }
+
+  async getAuditLogs(orgId: string, limit: number = 50, before?: number): Promise<AuditLog[]> {
+    return await this.db
+      .select()
+      .from(auditLogs)
+      .where(and(
+        eq(auditLogs.orgId, orgId),
+        before === undefined ? undefined : lt(auditLogs.id, before)
+      ))
+      // Sorted by the cursor's key: created_at is the transaction time, so
+      // concurrent writers can commit it out of id order
+      .orderBy(desc(auditLogs.id))
+      .limit(limit);
+  }
+
+  // Pipeline Methods
+  async createPipeline(insertPipeline: InsertPipeline): Promise<Pipeline> {
+    const [pipeline] = await this.db.insert(pipelines).values(insertPipeline).returning();
+    return pipeline;
+  }
+
+  async getPipelines(orgId: string): Promise<Pipeline[]> {
+    return await this.db
+      .select()
+      .from(pipelines)
+      .where(eq(pipelines.orgId, orgId))
+      .orderBy(asc(pipelines.createdAt));
+  }
+
+  async getPipeline(id: string, orgId: string): Promise<Pipeline | undefined> {
+    const [pipeline] = await this.db
+      .select()
+      .from(pipelines)
+      .where(and(eq(pipelines.id, id), eq(pipelines.orgId, orgId)));
+    return pipeline;
+  }
+
+  async updatePipeline(id: string, orgId: string, updates: Partial<Pipeline>): Promise<Pipeline> {
+    const [pipeline] = await this.db
+      .update(pipelines)
+      .set(updates)
+      .where(and(eq(pipelines.id, id), eq(pipelines.orgId, orgId)))
+      .returning();
+    if (!pipeline) throw new Error('Pipeline not found');
+
+    return pipeline;
+  }
+
+  async deletePipeline(id: string, orgId: string): Promise<void> {
+    // Stages, leads and comments are removed by the ON DELETE CASCADE foreign keys
+    await this.db
+      .delete(pipelines)
+      .where(and(eq(pipelines.id, id), eq(pipelines.orgId, orgId)));
+  }
+
+  // Stage Methods
+  async createStage(insertStage: InsertStage): Promise<Stage> {
+    const [stage] = await this.db.insert(stages).values(insertStage).returning();
+    return stage;
+  }
+
+  async getStages(pipelineId: string, orgId: string): Promise<Stage[]> {
+    return await this.db
+      .select()
+      .from(stages)
+      .where(and(eq(stages.pipelineId, pipelineId), eq(stages.orgId, orgId)))
+      .orderBy(asc(stages.order));
+  }
+
+  async getStage(id: string, orgId: string): Promise<Stage | undefined> {
+    const [stage] = await this.db
+      .select()
+      .from(stages)
+      .where(and(eq(stages.id, id), eq(stages.orgId, orgId)));
+    return stage;
+  }
+
+  async updateStage(id: string, orgId: string, updates: Partial<Stage>): Promise<Stage> {
+    const [stage] = await this.db
+      .update(stages)
+      .set(updates)
+      .where(and(eq(stages.id, id), eq(stages.orgId, orgId)))
+      .returning();
+    if (!stage) throw new Error('Stage not found');
+
+    return stage;
+  }
+
+  async deleteStage(id: string, orgId: string): Promise<void> {
+    await this.db
+      .delete(stages)
+      .where(and(eq(stages.id, id), eq(stages.orgId, orgId)));
+  }
+
+  async reorderStages(pipelineId: string, orgId: string, stageOrders: { id: string; order: number }[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { id, order } of stageOrders) {
+        await tx
+          .update(stages)
+          .set({ order })
+          .where(and(eq(stages.id, id), eq(stages.pipelineId, pipelineId), eq(stages.orgId, orgId)));
+      }
+    });
+  }
+
+  // Lead Methods
+  async createLead(insertLead: InsertLead): Promise<Lead> {
+    const [lead] = await this.db.insert(leads).values(insertLead).returning();
+    return lead;
+  }
+
+  async getLeads(stageId: string, orgId: string): Promise<Lead[]> {
+    return await this.db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.stageId, stageId), eq(leads.orgId, orgId)))
+      .orderBy(desc(leads.updatedAt));
+  }
+
+  async getLeadsByPipeline(pipelineId: string, orgId: string): Promise<(Lead & { stageName: string; stageOrder: number })[]> {
+    // Not a valid uuid, so no stage can belong to it
+    if (!pipelineId) return [];
+
+    const rows = await this.db
+      .select({ lead: leads, stageName: stages.name, stageOrder: stages.order })
+      .from(leads)
+      .innerJoin(stages, eq(leads.stageId, stages.id))
+      .where(and(eq(stages.pipelineId, pipelineId), eq(leads.orgId, orgId)))
+      .orderBy(desc(leads.updatedAt));
+
+    return rows.map(({ lead, stageName, stageOrder }) => ({ ...lead, stageName, stageOrder }));
+  }
+
+  async getLead(id: string, orgId: string): Promise<Lead | undefined> {
+    const [lead] = await this.db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.id, id), eq(leads.orgId, orgId)));
+    return lead;
+  }
+
+  async updateLead(id: string, orgId: string, updates: Partial<Lead>): Promise<Lead> {
+    const [lead] = await this.db
+      .update(leads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(leads.id, id), eq(leads.orgId, orgId)))
+      .returning();
+    if (!lead) throw new Error('Lead not found');
+
+    return lead;
+  }
+
+  async deleteLead(id: string, orgId: string): Promise<void> {
+    await this.db
+      .delete(leads)
+      .where(and(eq(leads.id, id), eq(leads.orgId, orgId)));
+  }
+
+  async moveLeadToStage(leadId: string, stageId: string, orgId: string): Promise<Lead> {
+    return await this.updateLead(leadId, orgId, { stageId });
+  }
+
+  // Lead Comment Methods
+  async createLeadComment(insertComment: InsertLeadComment): Promise<LeadComment> {
+    const [comment] = await this.db.insert(leadComments).values(insertComment).returning();
+    return comment;
+  }
+
+  async getLeadComments(leadId: string, orgId: string): Promise<(LeadComment & { user: Pick<User, 'id' | 'name'> })[]> {
+    const rows = await this.db
+      .select({ comment: leadComments, userName: users.name })
+      .from(leadComments)
+      .leftJoin(users, eq(leadComments.userId, users.id))
+      .where(and(eq(leadComments.leadId, leadId), eq(leadComments.orgId, orgId)))
+      .orderBy(asc(leadComments.createdAt));
+
+    return rows.map(({ comment, userName }) => ({
+      ...comment,
+      user: {
+        id: comment.userId,
+        name: userName || 'Unknown User'
+      }
+    }));
+  }
+
+  async deleteLeadComment(id: string, orgId: string): Promise<void> {
+    await this.db
+      .delete(leadComments)
+      .where(and(eq(leadComments.id, id), eq(leadComments.orgId, orgId)));
+  }
+
+  async getOrganizationStats(orgId: string): Promise<{
+    members: number;
+    operations: number;
+    tables: number;
+    apiKeys: number;
+    pipelines: number;
+    leads: number;
+  }> {
+    const [[memberCount], [apiKeyCount], [pipelineCount], [leadCount]] = await Promise.all([
+      this.db.select({ value: count() }).from(orgMembers).where(eq(orgMembers.orgId, orgId)),
+      this.db.select({ value: count() }).from(apiKeys).where(eq(apiKeys.orgId, orgId)),
+      this.db.select({ value: count() }).from(pipelines).where(eq(pipelines.orgId, orgId)),
+      this.db.select({ value: count() }).from(leads).where(eq(leads.orgId, orgId)),
+    ]);
+
+    const subscription = await this.getSubscription(orgId);
+    const metered = subscription?.metered as { operations?: number; tables?: number } || {};
+
+    return {
+      members: memberCount.value,
+      operations: metered.operations || 0,
+      tables: metered.tables || 0,
+      apiKeys: apiKeyCount.value,
+      pipelines: pipelineCount.value,
+      leads: leadCount.value
+    };
+  }
+}
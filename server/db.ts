@@ -0,0 +1,68 @@
+import path from "path";
+import pg from "pg";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator";
+import type { MigrationConfig } from "drizzle-orm/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// "memory" keeps everything in MemStorage, "postgres" connects to DATABASE_URL,
+// and "pglite" runs an embedded Postgres (in memory, or in the DATABASE_URL directory)
+export type StorageDriver = "memory" | "postgres" | "pglite";
+
+interface Connection {
+  db: Database;
+  client: pg.Pool | PGlite;
+  migrate: (config: MigrationConfig) => Promise<void>;
+}
+
+function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver !== "memory" && driver !== "postgres" && driver !== "pglite") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+
+  return driver;
+}
+
+function connect(driver: StorageDriver): Connection | null {
+  if (driver === "memory") {
+    return null;
+  }
+
+  if (driver === "pglite") {
+    const client = new PGlite(process.env.DATABASE_URL || undefined);
+    const pgliteDb = drizzlePglite(client, { schema });
+    return { db: pgliteDb, client, migrate: (config) => migratePglite(pgliteDb, config) };
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is postgres");
+  }
+
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  const nodePgDb = drizzleNodePg(pool, { schema });
+  return { db: nodePgDb, client: pool, migrate: (config) => migrateNodePg(nodePgDb, config) };
+}
+
+export const storageDriver = getStorageDriver();
+const connection = connect(storageDriver);
+export const db = connection?.db ?? null;
+export const dbClient = connection?.client ?? null;
+
+// Resolves from both server/ (tsx) and dist/ (bundled build)
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Applies the migrations not yet recorded in drizzle's journal table, so it
+// is safe to run on every boot
+export async function runMigrations(): Promise<void> {
+  if (!connection) return;
+
+  await connection.migrate({ migrationsFolder });
+}
@@ -0,0 +1,147 @@
+import type { NextFunction, Request, Response } from "express";
+import type { DunningState, Organization, Subscription } from "@shared/schema";
+import { storage } from "./storage";
+import { emailAdmins } from "./email";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses of a subscription whose payment failed: Stripe is still retrying
+// it (past_due) or has given up (unpaid)
+export const DUNNING_STATUSES = ["past_due", "unpaid"];
+
+// Days after the first failed payment that the organization keeps working
+const GRACE_DAYS = Number(process.env.DUNNING_GRACE_DAYS ?? 7);
+
+// Admins are reminded this many days after the first failed payment, and once
+// more when the grace period ends
+const REMINDER_DAYS = [0, 3, 6];
+
+// Writes that still work while the organization is restricted, so admins can
+// pay or delete it
+const RESTRICTED_ALLOWED_ROUTES = [
+  "POST /api/organizations/:organizationId/billing/create-checkout-session",
+  "POST /api/organizations/:organizationId/billing/create-portal-session",
+  "DELETE /api/organizations/:organizationId",
+];
+
+export function getDunningState(subscription: Subscription | undefined, now = Date.now()): DunningState {
+  const pastDueSince = subscription?.pastDueSince;
+  if (!pastDueSince || !DUNNING_STATUSES.includes(subscription.status)) return { status: "ok" };
+
+  const graceEndsAt = new Date(pastDueSince.getTime() + GRACE_DAYS * DAY_MS);
+  return {
+    status: graceEndsAt.getTime() <= now ? "restricted" : "grace",
+    pastDueSince,
+    graceEndsAt,
+  };
+}
+
+// Keeps pastDueSince in step with the subscription's status. The billing
+// webhook calls this after changing the status; `before` is the subscription
+// as it was. A payment that succeeds restores the organization.
+export async function updateDunning(organization: Organization, before: Subscription | undefined, status: string) {
+  if (DUNNING_STATUSES.includes(status)) {
+    if (!before?.pastDueSince) {
+      await storage.updateSubscription(organization.id, { pastDueSince: new Date(), dunningRemindedAt: null });
+    }
+    return;
+  }
+  if (!before?.pastDueSince) return;
+
+  await storage.updateSubscription(organization.id, { pastDueSince: null, dunningRemindedAt: null });
+  // Canceled subscriptions fall back to the free plan instead
+  if (status !== "active" && status !== "trialing") return;
+
+  const wasRestricted = getDunningState(before).status === "restricted";
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "restore",
+    entity: "subscription",
+    entityId: organization.stripeSubscriptionId,
+    metadata: { pastDueSince: before.pastDueSince, wasRestricted },
+  });
+  await emailAdmins(organization.id, `Payment received for ${organization.name}`, [
+    `Thanks, the payment for ${organization.name} went through.`,
+    wasRestricted
+      ? "The organization is no longer read-only: everyone can make changes again."
+      : "Nothing else needs doing.",
+  ]);
+}
+
+async function remind(organization: Organization, dunning: Exclude<DunningState, { status: "ok" }>) {
+  if (dunning.status === "restricted") {
+    await emailAdmins(organization.id, `${organization.name} is now read-only`, [
+      `The payment for ${organization.name} failed on ${dunning.pastDueSince.toDateString()} and still hasn't gone through, so the organization is now read-only. Nothing was deleted.`,
+      "Update the payment method on the Billing page. Everything works again as soon as the payment succeeds.",
+    ]);
+    return;
+  }
+
+  await emailAdmins(organization.id, `The payment for ${organization.name} failed`, [
+    `We couldn't take the payment for ${organization.name}.`,
+    `Update the payment method on the Billing page before ${dunning.graceEndsAt.toDateString()}. After that the organization becomes read-only until the payment succeeds.`,
+  ]);
+}
+
+// Emails admins of organizations whose payment failed, on the REMINDER_DAYS
+// schedule and when the grace period ends. Runs from the process-dunning job.
+export async function processDunning(): Promise<number> {
+  const now = Date.now();
+  const subscriptions = await storage.getSubscriptionsWithStatuses(DUNNING_STATUSES);
+
+  let reminded = 0;
+  for (const subscription of subscriptions) {
+    // Set to past_due some other way than the webhook; start the clock now
+    if (!subscription.pastDueSince) {
+      await storage.updateSubscription(subscription.orgId, { pastDueSince: new Date(now) });
+      continue;
+    }
+
+    const dunning = getDunningState(subscription, now);
+    if (dunning.status === "ok") continue;
+    const organization = await storage.getOrganization(subscription.orgId);
+    if (!organization || organization.deletedAt) continue;
+
+    // The latest reminder that's due, sent unless it already was
+    const since = dunning.pastDueSince.getTime();
+    const graceEndsAt = dunning.graceEndsAt.getTime();
+    const due = Math.max(
+      ...REMINDER_DAYS
+        .map((days) => since + days * DAY_MS)
+        .filter((time) => time <= now && time < graceEndsAt),
+      ...(dunning.status === "restricted" ? [graceEndsAt] : [])
+    );
+    if (subscription.dunningRemindedAt && subscription.dunningRemindedAt.getTime() >= due) continue;
+
+    await storage.updateSubscription(subscription.orgId, { dunningRemindedAt: new Date(now) });
+    await remind(organization, dunning);
+    reminded++;
+  }
+
+  if (reminded > 0) log(`sent ${reminded} payment reminders`, "dunning");
+  return reminded;
+}
+
+// Once the grace period has run out, answers 402 to anything but reads and
+// the routes in RESTRICTED_ALLOWED_ROUTES, until payment succeeds. Runs after
+// requireOrgAccess or requireApiKey.
+export async function rejectRestrictedWrites(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.method === "GET" || req.method === "HEAD") return next();
+    if (RESTRICTED_ALLOWED_ROUTES.includes(`${req.method} ${req.route?.path}`)) return next();
+
+    const dunning = getDunningState(await storage.getSubscription(req.orgMember.orgId));
+    if (dunning.status === "restricted") {
+      return res.status(402).json({
+        error: "This organization is read-only because its payment failed. An admin can update the payment method on the Billing page.",
+        code: "payment_required",
+        dunning,
+      });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
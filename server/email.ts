@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Sends through Resend when RESEND_API_KEY is set; otherwise the message is
+// only logged, which is enough for local development.
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY;
+
+  if (!apiKey) {
+    log(`to ${message.to}: ${message.subject}\n${message.text}`, "email");
+    return;
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM || "no-reply@example.com",
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send email: ${response.status} ${await response.text()}`);
+  }
+}
+
+// Sends the same email to every admin of the organization, one paragraph per
+// entry of `paragraphs`
+export async function emailAdmins(orgId: string, subject: string, paragraphs: string[]): Promise<void> {
+  const members = await storage.getOrgMembers(orgId);
+  for (const member of members) {
+    if (member.role !== "admin") continue;
+    await sendEmail({ to: member.user.email, subject, text: paragraphs.join("\n\n") });
+  }
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import express from "express";
+import request from "supertest";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Organization } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+const app = express();
+app.use(express.json());
+// The fake checkout and portal pages post forms
+app.use(express.urlencoded({ extended: false }));
+
+beforeAll(async () => {
+  await registerRoutes(app);
+});
+
+// The whole upgrade flow, offline: checkout and the portal are pages served by
+// the app, and their buttons deliver Stripe-shaped events to the billing code
+describe("fake billing provider", () => {
+  let agent: ReturnType<typeof request.agent>;
+  let organization: Organization;
+
+  beforeEach(async () => {
+    const email = `${randomUUID()}@example.test`;
+    const owner = await storage.createUser({ email, passwordHash: "password", name: "Owner" });
+    organization = await storage.createOrganization({ name: "Acme" }, owner.id);
+
+    agent = request.agent(app);
+    await agent.post("/api/auth/login").send({ email, password: "password" }).expect(200);
+  });
+
+  async function checkout(plan = "pro") {
+    const res = await agent
+      .post(`/api/organizations/${organization.id}/billing/create-checkout-session`)
+      .send({ plan, successUrl: "/billing?success=true", cancelUrl: "/billing" })
+      .expect(200);
+    expect(res.body.url).toMatch(/^\/api\/billing\/fake\/checkout\/cs_fake_/);
+    return res.body.url as string;
+  }
+
+  async function openPortal() {
+    const res = await agent
+      .post(`/api/organizations/${organization.id}/billing/create-portal-session`)
+      .send({ returnUrl: "/billing" })
+      .expect(200);
+    return res.body.url as string;
+  }
+
+  it("subscribes the organization when checkout is paid", async () => {
+    const url = await checkout();
+
+    const page = await request(app).get(url).expect(200);
+    expect(page.text).toContain("Acme");
+
+    const paid = await request(app).post(url).type("form").send({ action: "pay" });
+    expect(paid.status).toBe(303);
+    expect(paid.headers.location).toBe("/billing?success=true");
+
+    const updated = await storage.getOrganization(organization.id);
+    expect(updated?.plan).toBe("pro");
+    expect(updated?.stripeSubscriptionId).toMatch(/^sub_fake_/);
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "pro", status: "active" });
+  });
+
+  it("leaves the plan alone when checkout is canceled", async () => {
+    const url = await checkout();
+
+    const canceled = await request(app).post(url).type("form").send({ action: "cancel" });
+    expect(canceled.status).toBe(303);
+    expect(canceled.headers.location).toBe("/billing");
+
+    expect((await storage.getOrganization(organization.id))?.plan).toBe("free");
+    // The session is used up
+    await request(app).get(url).expect(404);
+  });
+
+  it("refuses a plan that isn't sold", async () => {
+    await agent
+      .post(`/api/organizations/${organization.id}/billing/create-checkout-session`)
+      .send({ plan: "enterprise", successUrl: "/billing", cancelUrl: "/billing" })
+      .expect(400);
+  });
+
+  it("refuses to send the user back anywhere but a path within the app", async () => {
+    const checkoutUrl = `/api/organizations/${organization.id}/billing/create-checkout-session`;
+    const offsite = [
+      "https://evil.example/billing",
+      "//evil.example/billing",
+      "/\\evil.example/billing",
+      "javascript:alert(1)",
+      "billing",
+    ];
+
+    for (const url of offsite) {
+      await agent.post(checkoutUrl).send({ plan: "pro", successUrl: url, cancelUrl: "/billing" }).expect(400);
+      await agent.post(checkoutUrl).send({ plan: "pro", successUrl: "/billing", cancelUrl: url }).expect(400);
+    }
+  });
+
+  it("changes plan, fails and settles a payment, and cancels from the portal", async () => {
+    await request(app).post(await checkout()).type("form").send({ action: "pay" }).expect(303);
+    const portal = await openPortal();
+
+    await request(app).post(portal).type("form").send({ action: "change:team" }).expect(303);
+    expect((await storage.getOrganization(organization.id))?.plan).toBe("team");
+
+    await request(app).post(portal).type("form").send({ action: "fail" }).expect(303);
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "team", status: "past_due" });
+
+    await request(app).post(portal).type("form").send({ action: "settle" }).expect(303);
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "team", status: "active" });
+
+    await request(app).post(portal).type("form").send({ action: "cancel" }).expect(303);
+    expect(await storage.getOrganization(organization.id)).toMatchObject({ plan: "free", stripeSubscriptionId: null });
+    expect((await storage.getSubscription(organization.id))?.status).toBe("canceled");
+  });
+
+  it("only lets admins start checkout", async () => {
+    const email = `${randomUUID()}@example.test`;
+    const viewer = await storage.createUser({ email, passwordHash: "password", name: "Viewer" });
+    await storage.addOrgMember({ orgId: organization.id, userId: viewer.id, role: "viewer", acceptedAt: new Date() });
+    const viewerAgent = request.agent(app);
+    await viewerAgent.post("/api/auth/login").send({ email, password: "password" }).expect(200);
+
+    await viewerAgent
+      .post(`/api/organizations/${organization.id}/billing/create-checkout-session`)
+      .send({ plan: "pro", successUrl: "/billing", cancelUrl: "/billing" })
+      .expect(403);
+  });
+});
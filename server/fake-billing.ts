@@ -0,0 +1,347 @@
+import { randomBytes } from "crypto";
+import type { Express, Response } from "express";
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { PAID_PLANS, type PaidPlan } from "./plan-limits";
+import type { BillingProvider, CheckoutSessionParams, UsageRecord } from "./billing";
+import { log } from "./vite";
+
+const PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Monthly price in cents, as shown on the billing page
+const PLAN_AMOUNTS: Record<PaidPlan, number> = { pro: 2900, team: 9900 };
+
+interface FakeCheckoutSession extends CheckoutSessionParams {
+  id: string;
+}
+
+interface FakePortalSession {
+  id: string;
+  customerId: string;
+  returnUrl: string;
+}
+
+interface FakeSubscription {
+  id: string;
+  organizationId: string;
+  customerId: string;
+  priceId: string;
+  status: Stripe.Subscription.Status;
+  periodEnd: Date;
+}
+
+function fakeId(prefix: string) {
+  return `${prefix}_fake_${randomBytes(8).toString("hex")}`;
+}
+
+function toStripeSubscription(subscription: FakeSubscription) {
+  return {
+    id: subscription.id,
+    object: "subscription",
+    customer: subscription.customerId,
+    status: subscription.status,
+    metadata: { organizationId: subscription.organizationId },
+    items: {
+      data: [{ price: { id: subscription.priceId }, current_period_end: Math.floor(subscription.periodEnd.getTime() / 1000) }],
+    },
+  };
+}
+
+// Stands in for Stripe in development: checkout and the billing portal are
+// pages served by this app, and what happens on them is reported as the
+// Stripe events the real checkout would send, through `deliver`. Sessions and
+// usage records only live in memory; subscriptions are read back from storage.
+export class FakeBillingProvider implements BillingProvider {
+  prices: Record<PaidPlan, string> = { pro: "price_fake_pro", team: "price_fake_team" };
+  private checkoutSessions = new Map<string, FakeCheckoutSession>();
+  private portalSessions = new Map<string, FakePortalSession>();
+  // Keyed by idempotency key, like Stripe's meter event identifiers
+  private usageRecords = new Map<string, UsageRecord>();
+
+  constructor(private deliver: (event: Stripe.Event) => Promise<unknown>) {}
+
+  async createCustomer(): Promise<string> {
+    return fakeId("cus");
+  }
+
+  async createCheckoutSession(params: CheckoutSessionParams): Promise<string> {
+    const id = fakeId("cs");
+    this.checkoutSessions.set(id, { id, ...params });
+    return `/api/billing/fake/checkout/${id}`;
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+    const id = fakeId("bps");
+    this.portalSessions.set(id, { id, customerId, returnUrl });
+    return `/api/billing/fake/portal/${id}`;
+  }
+
+  async reportUsage(record: UsageRecord): Promise<void> {
+    if (this.usageRecords.has(record.idempotencyKey)) return;
+    this.usageRecords.set(record.idempotencyKey, record);
+    log(`recorded ${record.quantity} overage operations for ${record.customerId}`, "billing");
+  }
+
+  // Overage reported for the customer in the period ending at `periodEnd`
+  getReportedUsage(customerId: string, periodEnd: Date): number {
+    const periodStart = periodEnd.getTime() - PERIOD_MS;
+    let total = 0;
+    this.usageRecords.forEach((record) => {
+      const time = record.timestamp.getTime();
+      if (record.customerId === customerId && time >= periodStart && time < periodEnd.getTime()) {
+        total += record.quantity;
+      }
+    });
+    return total;
+  }
+
+  getCheckoutSession(id: string) {
+    return this.checkoutSessions.get(id);
+  }
+
+  getPortalSession(id: string) {
+    return this.portalSessions.get(id);
+  }
+
+  getPlanName(priceId: string) {
+    return PAID_PLANS.find((plan) => this.prices[plan] === priceId);
+  }
+
+  private async emit(type: Stripe.Event.Type, object: object) {
+    await this.deliver({
+      id: fakeId("evt"),
+      object: "event",
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object },
+    } as unknown as Stripe.Event);
+  }
+
+  // Like Stripe, completing checkout creates a subscription and reports both
+  async completeCheckout(session: FakeCheckoutSession) {
+    this.checkoutSessions.delete(session.id);
+
+    const subscription: FakeSubscription = {
+      id: fakeId("sub"),
+      organizationId: session.organizationId,
+      customerId: session.customerId,
+      priceId: session.priceId,
+      // Like Stripe, the first period is the rest of the trial
+      status: session.trialEnd ? "trialing" : "active",
+      periodEnd: session.trialEnd ?? new Date(Date.now() + PERIOD_MS),
+    };
+    await this.emit("checkout.session.completed", {
+      id: session.id,
+      object: "checkout.session",
+      mode: "subscription",
+      customer: session.customerId,
+      subscription: subscription.id,
+      metadata: { organizationId: session.organizationId, priceId: session.priceId },
+    });
+    await this.emit("customer.subscription.created", toStripeSubscription(subscription));
+  }
+
+  abandonCheckout(session: FakeCheckoutSession) {
+    this.checkoutSessions.delete(session.id);
+  }
+
+  async getSubscription(customerId: string): Promise<FakeSubscription | undefined> {
+    const organization = await storage.getOrganizationByStripeCustomerId(customerId);
+    if (!organization?.stripeSubscriptionId) return undefined;
+
+    const subscription = await storage.getSubscription(organization.id);
+    const priceId = this.prices[subscription?.plan as PaidPlan];
+    if (!subscription || !priceId) return undefined;
+
+    return {
+      id: organization.stripeSubscriptionId,
+      organizationId: organization.id,
+      customerId,
+      priceId,
+      status: subscription.status as Stripe.Subscription.Status,
+      periodEnd: subscription.periodEnd ?? new Date(Date.now() + PERIOD_MS),
+    };
+  }
+
+  async changePlan(subscription: FakeSubscription, plan: PaidPlan) {
+    await this.emit("customer.subscription.updated", toStripeSubscription({
+      ...subscription,
+      priceId: this.prices[plan],
+    }));
+  }
+
+  // The renewal payment fails, and Stripe keeps retrying it
+  async failPayment(subscription: FakeSubscription) {
+    await this.emit("invoice.payment_failed", {
+      id: fakeId("in"),
+      object: "invoice",
+      customer: subscription.customerId,
+      amount_due: PLAN_AMOUNTS[this.getPlanName(subscription.priceId) ?? "pro"],
+      currency: "usd",
+      attempt_count: 1,
+      parent: { subscription_details: { subscription: subscription.id, metadata: { organizationId: subscription.organizationId } } },
+    });
+    await this.emit("customer.subscription.updated", toStripeSubscription({ ...subscription, status: "past_due" }));
+  }
+
+  // Stripe gives up retrying and leaves the invoice open
+  async exhaustRetries(subscription: FakeSubscription) {
+    await this.emit("customer.subscription.updated", toStripeSubscription({ ...subscription, status: "unpaid" }));
+  }
+
+  async settlePayment(subscription: FakeSubscription) {
+    await this.emit("invoice.paid", {
+      id: fakeId("in"),
+      object: "invoice",
+      customer: subscription.customerId,
+      amount_paid: PLAN_AMOUNTS[this.getPlanName(subscription.priceId) ?? "pro"],
+      currency: "usd",
+      parent: { subscription_details: { subscription: subscription.id, metadata: { organizationId: subscription.organizationId } } },
+    });
+    await this.emit("customer.subscription.updated", toStripeSubscription({
+      ...subscription,
+      status: "active",
+      periodEnd: new Date(Math.max(subscription.periodEnd.getTime(), Date.now()) + PERIOD_MS),
+    }));
+  }
+
+  async cancelSubscription(subscriptionId: string, customerId: string | null) {
+    const subscription = customerId ? await this.getSubscription(customerId) : undefined;
+    if (subscription?.id === subscriptionId) await this.cancel(subscription);
+  }
+
+  async cancel(subscription: FakeSubscription) {
+    await this.emit("customer.subscription.deleted", toStripeSubscription({ ...subscription, status: "canceled" }));
+  }
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function sendPage(res: Response, status: number, title: string, body: string) {
+  res.status(status).type("html").send(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; color: #0f172a; }
+    .note { background: #fef3c7; padding: 0.5rem 0.75rem; border-radius: 0.375rem; font-size: 0.875rem; }
+    form { display: inline-block; margin: 0.25rem 0.5rem 0.25rem 0; }
+    button { padding: 0.5rem 1rem; border-radius: 0.375rem; border: 1px solid #cbd5e1; background: white; cursor: pointer; }
+    button.primary { background: #2563eb; border-color: #2563eb; color: white; }
+  </style>
+</head>
+<body>
+  <p class="note">Fake billing provider: no payment is taken.</p>
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+</body>
+</html>`);
+}
+
+function actionButton(action: string, label: string, primary = false) {
+  return `<form method="post"><input type="hidden" name="action" value="${action}"><button${primary ? ' class="primary"' : ""}>${escapeHtml(label)}</button></form>`;
+}
+
+// The pages the fake provider's checkout and portal URLs point to. Like
+// Stripe's, they're reached through an unguessable session id rather than the
+// app's session.
+export function registerFakeBillingRoutes(app: Express, provider: FakeBillingProvider) {
+  app.get("/api/billing/fake/checkout/:sessionId", async (req, res) => {
+    const session = provider.getCheckoutSession(req.params.sessionId);
+    if (!session) {
+      return sendPage(res, 404, "Checkout not found", "<p>This checkout session has expired or was completed.</p>");
+    }
+
+    const organization = await storage.getOrganization(session.organizationId);
+    const plan = provider.getPlanName(session.priceId);
+    sendPage(res, 200, "Checkout", `
+      <p>Subscribe <strong>${escapeHtml(organization?.name ?? session.organizationId)}</strong>
+      to the <strong>${escapeHtml(plan ?? session.priceId)}</strong> plan.</p>
+      ${actionButton("pay", "Pay", true)}${actionButton("cancel", "Cancel")}`);
+  });
+
+  app.post("/api/billing/fake/checkout/:sessionId", async (req, res) => {
+    const session = provider.getCheckoutSession(req.params.sessionId);
+    if (!session) {
+      return sendPage(res, 404, "Checkout not found", "<p>This checkout session has expired or was completed.</p>");
+    }
+
+    try {
+      if (req.body.action !== "pay") {
+        provider.abandonCheckout(session);
+        return res.redirect(303, session.cancelUrl);
+      }
+
+      await provider.completeCheckout(session);
+      res.redirect(303, session.successUrl);
+    } catch (error: any) {
+      log(`fake checkout failed: ${error.message}`, "billing");
+      sendPage(res, 500, "Checkout failed", `<p>${escapeHtml(error.message)}</p>`);
+    }
+  });
+
+  app.get("/api/billing/fake/portal/:sessionId", async (req, res) => {
+    const session = provider.getPortalSession(req.params.sessionId);
+    if (!session) {
+      return sendPage(res, 404, "Billing portal not found", "<p>This portal session has expired.</p>");
+    }
+
+    const back = `<p><a href="${escapeHtml(session.returnUrl)}">Return to the app</a></p>`;
+    const subscription = await provider.getSubscription(session.customerId);
+    if (!subscription) {
+      return sendPage(res, 200, "Billing portal", `<p>There's no active subscription.</p>${back}`);
+    }
+
+    const plan = provider.getPlanName(subscription.priceId);
+    const otherPlans = PAID_PLANS.filter((other) => other !== plan);
+    sendPage(res, 200, "Billing portal", `
+      <p>Plan: <strong>${escapeHtml(plan ?? subscription.priceId)}</strong>,
+      status: <strong>${escapeHtml(subscription.status)}</strong>,
+      renews ${escapeHtml(subscription.periodEnd.toDateString())}.</p>
+      <p>Overage this period:
+      <strong>${provider.getReportedUsage(subscription.customerId, subscription.periodEnd).toLocaleString()}</strong>
+      operations reported.</p>
+      <div>
+        ${otherPlans.map((other) => actionButton(`change:${other}`, `Switch to ${other}`)).join("")}
+        ${subscription.status === "past_due" || subscription.status === "unpaid"
+          ? actionButton("settle", "Pay the overdue invoice")
+          : actionButton("fail", "Fail the next payment")}
+        ${subscription.status === "past_due" ? actionButton("unpaid", "Stop retrying the payment") : ""}
+        ${actionButton("cancel", "Cancel subscription")}
+      </div>
+      ${back}`);
+  });
+
+  app.post("/api/billing/fake/portal/:sessionId", async (req, res) => {
+    const session = provider.getPortalSession(req.params.sessionId);
+    if (!session) {
+      return sendPage(res, 404, "Billing portal not found", "<p>This portal session has expired.</p>");
+    }
+
+    try {
+      const subscription = await provider.getSubscription(session.customerId);
+      const action = String(req.body.action || "");
+      if (subscription) {
+        if (action.startsWith("change:")) {
+          const plan = action.slice("change:".length) as PaidPlan;
+          if (PAID_PLANS.includes(plan)) await provider.changePlan(subscription, plan);
+        } else if (action === "fail") {
+          await provider.failPayment(subscription);
+        } else if (action === "unpaid") {
+          await provider.exhaustRetries(subscription);
+        } else if (action === "settle") {
+          await provider.settlePayment(subscription);
+        } else if (action === "cancel") {
+          await provider.cancel(subscription);
+        }
+      }
+      res.redirect(303, req.originalUrl);
+    } catch (error: any) {
+      log(`fake portal action failed: ${error.message}`, "billing");
+      sendPage(res, 500, "Billing portal", `<p>${escapeHtml(error.message)}</p>`);
+    }
+  });
+}
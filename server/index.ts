@@ -1,10 +1,25 @@
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { runMigrations } from "./db";
+import { startJobWorker } from "./jobs";
+import { jobHandlers } from "./job-handlers";
+import { startCronScheduler } from "./cron";
 import { setupVite, serveStatic, log } from "./vite";
-import "dotenv/config";
+
+declare module "http" {
+  interface IncomingMessage {
+    // The unparsed JSON body, for verifying signed requests like Stripe webhooks
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,7 +53,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await runMigrations();
   const server = await registerRoutes(app);
+  startJobWorker(jobHandlers);
+  startCronScheduler();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Invitation, User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendEmail } from "./email";
+import { getSessionConfig } from "./session";
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function getSecret() {
+  return process.env.INVITATION_SECRET || getSessionConfig().secret;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+// Tokens carry the invitation id and its expiry, so resending (which moves the
+// expiry) invalidates links from earlier emails.
+export function createInvitationToken(invitation: Pick<Invitation, "id" | "expiresAt">): string {
+  const payload = `${invitation.id}.${invitation.expiresAt.getTime()}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export type InvitationStatus = "pending" | "expired" | "accepted" | "declined" | "revoked";
+
+export function getInvitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.declinedAt) return "declined";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt.getTime() < Date.now()) return "expired";
+  return "pending";
+}
+
+// Returns the invitation a token points to, or undefined when the token is
+// malformed, tampered with or superseded by a resend.
+export async function resolveInvitationToken(token: string): Promise<Invitation | undefined> {
+  const [id, expires, signature] = token.split(".");
+  if (!id || !expires || !signature) return undefined;
+
+  const expected = Buffer.from(sign(`${id}.${expires}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  const invitation = await storage.getInvitation(id);
+  if (!invitation || invitation.expiresAt.getTime() !== Number(expires)) {
+    return undefined;
+  }
+
+  return invitation;
+}
+
+export async function sendInvitationEmail(invitation: Invitation, baseUrl: string): Promise<void> {
+  const organization = await storage.getOrganization(invitation.orgId);
+  const inviter = await storage.getUserById(invitation.invitedBy);
+  const link = `${process.env.APP_URL || baseUrl}/invite/${createInvitationToken(invitation)}`;
+
+  await sendEmail({
+    to: invitation.email,
+    subject: `${inviter?.name || "Someone"} invited you to ${organization?.name}`,
+    text: [
+      `${inviter?.name || "Someone"} invited you to join ${organization?.name} as ${invitation.role}.`,
+      invitation.message || "",
+      `Accept the invitation: ${link}`,
+      `This link expires on ${invitation.expiresAt.toUTCString()}.`,
+    ].filter(Boolean).join("\n\n"),
+  });
+}
+
+export async function acceptInvitation(invitation: Invitation, user: User) {
+  const existing = await storage.getOrgMember(invitation.orgId, user.id);
+  const member = existing || await storage.addOrgMember({
+    orgId: invitation.orgId,
+    userId: user.id,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    invitedAt: invitation.createdAt,
+    acceptedAt: new Date(),
+  });
+
+  await storage.updateInvitation(invitation.id, { acceptedAt: new Date() });
+
+  await storage.createAuditLog({
+    orgId: invitation.orgId,
+    actorId: user.id,
+    action: "accept",
+    entity: "invitation",
+    entityId: invitation.id,
+    metadata: { email: user.email, role: member.role },
+  });
+
+  return member;
+}
@@ -0,0 +1,66 @@
+import type { JobHandlers } from "./jobs";
+import { deliverWebhook } from "./webhooks";
+import { purgeDeletedOrganizations } from "./organizations";
+import { queueAirtableSyncs, syncAirtable } from "./airtable";
+import { cleanUpExpiredData, resetMeteredUsage } from "./maintenance";
+import { checkOperationsLimit } from "./metering";
+import { reportAllOverage } from "./billing";
+import { processTrials } from "./trials";
+import { recordExpiredApiKeys } from "./api-keys";
+import { getDunningState, processDunning } from "./dunning";
+import { storage } from "./storage";
+
+export const jobHandlers: JobHandlers = {
+  "webhook.deliver": {
+    handler: ({ deliveryId }, job) => deliverWebhook(deliveryId, job.orgId!),
+  },
+  "organizations.purge": {
+    handler: async () => {
+      await purgeDeletedOrganizations();
+    },
+  },
+  "apiKeys.recordExpired": {
+    handler: async () => {
+      await recordExpiredApiKeys();
+    },
+  },
+  "subscriptions.resetUsage": {
+    handler: async () => {
+      await resetMeteredUsage();
+    },
+  },
+  "billing.reportUsage": {
+    handler: async () => {
+      await reportAllOverage();
+    },
+  },
+  "trials.process": {
+    handler: async () => {
+      await processTrials();
+    },
+  },
+  "dunning.process": {
+    handler: async () => {
+      await processDunning();
+    },
+  },
+  "airtable.syncAll": {
+    handler: async () => {
+      await queueAirtableSyncs();
+    },
+  },
+  "airtable.sync": {
+    handler: async ({ direction }, job) => {
+      // Over quota until the period ends; the next scheduled sync catches up
+      if (await checkOperationsLimit(job.orgId!)) return;
+      // Read-only until the failed payment goes through
+      if (getDunningState(await storage.getSubscription(job.orgId!)).status === "restricted") return;
+      await syncAirtable(job.orgId!, direction, null);
+    },
+  },
+  "maintenance.cleanup": {
+    handler: async () => {
+      await cleanUpExpiredData();
+    },
+  },
+};
@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { enqueueJob, exponentialBackoff, retryJob, runDueJobs, type JobHandlers } from "./jobs";
+import { storage } from "./storage";
+
+const SECOND_MS = 1000;
+
+// Only "trials.process" has a handler, which each test swaps out. Every test
+// queues its jobs for an organization of its own.
+let handler: (payload: unknown) => Promise<void>;
+const handlers = {
+  "trials.process": { handler: (payload: unknown) => handler(payload) },
+} as unknown as JobHandlers;
+
+describe("job worker", () => {
+  let orgId: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    orgId = randomUUID();
+    handler = async () => {};
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs a due job and marks it completed", async () => {
+    const received: unknown[] = [];
+    handler = async (payload) => {
+      received.push(payload);
+    };
+    const job = await enqueueJob("trials.process", {}, { orgId });
+
+    await runDueJobs(handlers);
+
+    expect(received).toEqual([{}]);
+    expect(await storage.getJob(job.id, orgId)).toMatchObject({
+      status: "completed",
+      attempts: 1,
+      lockedUntil: null,
+      lastError: null,
+    });
+  });
+
+  it("waits for a job's runAt", async () => {
+    const job = await enqueueJob("trials.process", {}, { orgId, runAt: new Date(Date.now() + 60 * SECOND_MS) });
+
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.status).toBe("pending");
+
+    vi.setSystemTime(Date.now() + 60 * SECOND_MS);
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.status).toBe("completed");
+  });
+
+  it("retries a failed job with exponential backoff, then moves it to dead", async () => {
+    handler = async () => {
+      throw new Error("Temporary failure");
+    };
+    const job = await enqueueJob("trials.process", {}, { orgId, maxAttempts: 3 });
+
+    await runDueJobs(handlers);
+    let failed = await storage.getJob(job.id, orgId);
+    expect(failed).toMatchObject({ status: "pending", attempts: 1, lastError: "Temporary failure" });
+    expect(failed!.runAt.getTime()).toBe(Date.now() + 30 * SECOND_MS);
+
+    // Not before the backoff has passed
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.attempts).toBe(1);
+
+    vi.setSystemTime(failed!.runAt);
+    await runDueJobs(handlers);
+    failed = await storage.getJob(job.id, orgId);
+    expect(failed).toMatchObject({ status: "pending", attempts: 2 });
+    expect(failed!.runAt.getTime()).toBe(Date.now() + 60 * SECOND_MS);
+
+    vi.setSystemTime(failed!.runAt);
+    await runDueJobs(handlers);
+    expect(await storage.getJob(job.id, orgId)).toMatchObject({ status: "dead", attempts: 3, lastError: "Temporary failure" });
+  });
+
+  it("moves a job without a handler to dead", async () => {
+    const job = await enqueueJob("airtable.sync", { direction: "pull" }, { orgId });
+
+    await runDueJobs(handlers);
+
+    expect(await storage.getJob(job.id, orgId)).toMatchObject({
+      status: "dead",
+      lastError: 'No handler for job type "airtable.sync"',
+    });
+  });
+
+  it("takes over a job whose worker's lock lapsed", async () => {
+    const job = await enqueueJob("trials.process", {}, { orgId });
+    // A worker claimed it and then died
+    await storage.claimJobs(100, new Date(Date.now() + 60 * SECOND_MS));
+
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.status).toBe("running");
+
+    vi.setSystemTime(Date.now() + 60 * SECOND_MS);
+    await runDueJobs(handlers);
+    expect(await storage.getJob(job.id, orgId)).toMatchObject({ status: "completed", attempts: 2 });
+  });
+
+  it("puts a dead job back in the queue with fresh attempts", async () => {
+    handler = async () => {
+      throw new Error("Temporary failure");
+    };
+    const job = await enqueueJob("trials.process", {}, { orgId, maxAttempts: 1 });
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.status).toBe("dead");
+
+    handler = async () => {};
+    expect(await retryJob(job.id, orgId)).toMatchObject({ status: "pending", attempts: 0 });
+    await runDueJobs(handlers);
+    expect((await storage.getJob(job.id, orgId))?.status).toBe("completed");
+  });
+});
+
+describe("exponentialBackoff", () => {
+  it("doubles from 30 seconds up to an hour", () => {
+    expect([1, 2, 3, 4].map(exponentialBackoff)).toEqual([30, 60, 120, 240].map((s) => s * SECOND_MS));
+    expect(exponentialBackoff(20)).toBe(60 * 60 * SECOND_MS);
+  });
+});
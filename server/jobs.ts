@@ -0,0 +1,159 @@
+import type { Job } from "@shared/schema";
+import type { AirtableSyncDirection } from "./airtable";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const SECOND_MS = 1000;
+const POLL_INTERVAL_MS = 5 * SECOND_MS;
+const BATCH_SIZE = 10;
+// How long a claimed job may run before another worker may take it over
+const LOCK_MS = 5 * 60 * SECOND_MS;
+const MAX_BACKOFF_MS = 60 * 60 * SECOND_MS;
+
+// Every job type and the payload it carries. Add an entry here, then a
+// handler in server/job-handlers.ts.
+export interface JobPayloads {
+  "webhook.deliver": { deliveryId: string };
+  "organizations.purge": Record<string, never>;
+  "apiKeys.recordExpired": Record<string, never>;
+  "subscriptions.resetUsage": Record<string, never>;
+  "billing.reportUsage": Record<string, never>;
+  "trials.process": Record<string, never>;
+  "dunning.process": Record<string, never>;
+  "airtable.syncAll": Record<string, never>;
+  "airtable.sync": { direction: AirtableSyncDirection };
+  "maintenance.cleanup": Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface JobDefinition<T extends JobType> {
+  handler: (payload: JobPayloads[T], job: Job) => Promise<void>;
+  // Delay before retrying after the given attempt failed; a thrown error
+  // counts as a failure. Defaults to exponentialBackoff.
+  backoffMs?: (attempts: number) => number;
+}
+
+export type JobHandlers = { [T in JobType]: JobDefinition<T> };
+
+// 30s, 1m, 2m, 4m... capped at an hour
+export function exponentialBackoff(attempts: number): number {
+  return Math.min(30 * SECOND_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+let handlers: JobHandlers | null = null;
+let wakeTimer: NodeJS.Timeout | null = null;
+
+export interface EnqueueOptions {
+  orgId?: string | null;
+  runAt?: Date;
+  // Attempts before the job is moved to "dead"; 5 unless given
+  maxAttempts?: number;
+}
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  { orgId = null, runAt = new Date(), maxAttempts }: EnqueueOptions = {}
+): Promise<Job> {
+  const job = await storage.enqueueJob({
+    type,
+    payload,
+    orgId,
+    runAt,
+    maxAttempts,
+  });
+
+  // Run jobs that are already due without waiting for the next poll
+  if (runAt <= new Date()) wakeWorker();
+
+  return job;
+}
+
+// Puts a dead or cancelled job back in the queue to run right away
+export async function retryJob(id: number, orgId: string): Promise<Job | undefined> {
+  const job = await storage.retryJob(id, orgId);
+  if (job) wakeWorker();
+  return job;
+}
+
+async function runJob(job: Job, definition: JobDefinition<JobType>) {
+  try {
+    await definition.handler(job.payload as JobPayloads[JobType], job);
+    await storage.updateJob(job.id, {
+      status: "completed",
+      lockedUntil: null,
+      lastError: null,
+      completedAt: new Date(),
+    });
+  } catch (error: any) {
+    const dead = job.attempts >= job.maxAttempts;
+    const backoff = definition.backoffMs || exponentialBackoff;
+    await storage.updateJob(job.id, {
+      status: dead ? "dead" : "pending",
+      lockedUntil: null,
+      lastError: error?.message || String(error),
+      runAt: dead ? job.runAt : new Date(Date.now() + backoff(job.attempts)),
+    });
+    log(
+      `${job.type} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})` +
+        `${dead ? ", moved to dead" : ""}: ${error?.message}`,
+      "jobs"
+    );
+  }
+}
+
+// Claims and runs one batch of due jobs, returning how many were run
+export async function runDueJobs(jobHandlers: JobHandlers): Promise<number> {
+  const jobs = await storage.claimJobs(BATCH_SIZE, new Date(Date.now() + LOCK_MS));
+
+  await Promise.all(
+    jobs.map((job) => {
+      const definition = jobHandlers[job.type as JobType] as JobDefinition<JobType> | undefined;
+      if (!definition) {
+        return storage.updateJob(job.id, {
+          status: "dead",
+          lockedUntil: null,
+          lastError: `No handler for job type "${job.type}"`,
+        });
+      }
+      return runJob(job, definition);
+    })
+  );
+
+  return jobs.length;
+}
+
+let running = false;
+
+function wakeWorker() {
+  if (!handlers || wakeTimer) return;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    tick();
+  }, 0);
+}
+
+async function tick() {
+  if (!handlers || running) return;
+  running = true;
+  try {
+    // Keep going while full batches come back so a backlog drains quickly
+    let claimed;
+    do {
+      claimed = await runDueJobs(handlers);
+    } while (claimed === BATCH_SIZE);
+  } catch (error: any) {
+    log(`worker failed: ${error.message}`, "jobs");
+  } finally {
+    running = false;
+  }
+}
+
+export function startJobWorker(jobHandlers: JobHandlers): NodeJS.Timeout {
+  handlers = jobHandlers;
+  tick();
+  const timer = setInterval(tick, POLL_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import { addMonths } from "./metering";
+import { reportOverage } from "./billing";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long settled records are kept before cleanup removes them
+const EXPIRED_INVITATION_RETENTION_MS = 30 * DAY_MS;
+const WEBHOOK_DELIVERY_RETENTION_MS = 30 * DAY_MS;
+const COMPLETED_JOB_RETENTION_MS = 7 * DAY_MS;
+
+function startOfNextMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+// Starts a new usage period for every subscription whose period has ended,
+// clearing its metered counters. Subscriptions without a period get one that
+// ends with the current calendar month (UTC).
+export async function resetMeteredUsage(): Promise<number> {
+  const now = new Date();
+  const ended = await storage.getSubscriptionsEndedBefore(now);
+
+  let reset = 0;
+  for (const subscription of ended) {
+    if (!subscription.periodEnd) {
+      await storage.updateSubscription(subscription.orgId, { periodEnd: startOfNextMonth(now) });
+      continue;
+    }
+
+    // Bill the period's remaining overage before its count is cleared. If
+    // that fails, the period stays open until a later run reports it.
+    try {
+      await reportOverage(subscription);
+    } catch (error: any) {
+      log(`failed to report overage for ${subscription.orgId}: ${error.message}`, "maintenance");
+      continue;
+    }
+
+    // Skip whole periods the server was down for
+    let periodEnd = subscription.periodEnd;
+    while (periodEnd <= now) periodEnd = addMonths(periodEnd, 1);
+
+    await storage.updateSubscription(subscription.orgId, { metered: {}, periodEnd });
+    reset++;
+  }
+
+  if (reset > 0) log(`reset metered usage for ${reset} subscriptions`, "maintenance");
+  return reset;
+}
+
+// Removes records nobody can act on anymore: invitations long past their
+// expiry, settled webhook deliveries and completed jobs
+export async function cleanUpExpiredData() {
+  const now = Date.now();
+  const [invitations, webhookDeliveries, jobs] = await Promise.all([
+    storage.deleteInvitationsExpiredBefore(new Date(now - EXPIRED_INVITATION_RETENTION_MS)),
+    storage.deleteWebhookDeliveriesBefore(new Date(now - WEBHOOK_DELIVERY_RETENTION_MS)),
+    storage.deleteJobsCompletedBefore(new Date(now - COMPLETED_JOB_RETENTION_MS)),
+  ]);
+
+  log(
+    `removed ${invitations} invitations, ${webhookDeliveries} webhook deliveries and ${jobs} jobs`,
+    "maintenance"
+  );
+  return { invitations, webhookDeliveries, jobs };
+}
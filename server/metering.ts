@@ -0,0 +1,172 @@
+import type { NextFunction, Request, Response } from "express";
+import { OVERAGE_PRICES, OVERAGE_UNIT, PLAN_LIMITS, USAGE_WARNING_RATIO, type UsageSummary } from "@shared/schema";
+import { storage } from "./storage";
+import { exceeded, getOrganizationPlan, type Plan, type PlanLimitExceeded } from "./plan-limits";
+import { sendEmail } from "./email";
+import { log } from "./vite";
+
+// The counter in subscriptions.metered. It's cleared when the subscription's
+// period ends (see resetMeteredUsage).
+const OPERATIONS = "operations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getOperations(metered: unknown): number {
+  return (metered as Record<string, number> | null)?.[OPERATIONS] || 0;
+}
+
+// Same day of the month, clamped to the month's last day
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const next = new Date(date);
+  next.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+  return next;
+}
+
+// Operations past the plan's allowance, on plans that pay for them
+export function getOverage(plan: Plan, metered: unknown): number {
+  if (OVERAGE_PRICES[plan] === undefined) return 0;
+  return Math.max(0, getOperations(metered) - PLAN_LIMITS[plan].operations);
+}
+
+// Returns the violation once the organization has used all of this period's
+// operations, or null while it has some left. Plans with overage pricing
+// never run out.
+export async function checkOperationsLimit(orgId: string): Promise<PlanLimitExceeded | null> {
+  const [plan, subscription] = await Promise.all([
+    getOrganizationPlan(orgId),
+    storage.getSubscription(orgId),
+  ]);
+  if (OVERAGE_PRICES[plan] !== undefined) return null;
+
+  const used = getOperations(subscription?.metered);
+  return used >= PLAN_LIMITS[plan].operations ? exceeded("operations", plan, used) : null;
+}
+
+// This period's usage and what it's on course to cost. The projection assumes
+// the rest of the period looks like the part so far, counting at least a day
+// so an early burst doesn't project wildly.
+export async function getUsageSummary(orgId: string): Promise<UsageSummary> {
+  const [plan, subscription] = await Promise.all([
+    getOrganizationPlan(orgId),
+    storage.getSubscription(orgId),
+  ]);
+  const periodEnd = subscription?.periodEnd ?? null;
+  const periodStart = periodEnd && addMonths(periodEnd, -1);
+  const used = getOperations(subscription?.metered);
+  const included = PLAN_LIMITS[plan].operations;
+  const overagePrice = OVERAGE_PRICES[plan] ?? null;
+
+  let projectedUsed = used;
+  const now = Date.now();
+  if (periodStart && periodEnd && now < periodEnd.getTime()) {
+    const elapsed = Math.max(now - periodStart.getTime(), DAY_MS);
+    projectedUsed = Math.round(used * (periodEnd.getTime() - periodStart.getTime()) / elapsed);
+  }
+  const projectedOverage = overagePrice === null ? 0 : Math.max(0, projectedUsed - included);
+
+  const reports = periodEnd ? await storage.getUsageReports(orgId, periodEnd) : [];
+  const reported = reports
+    .filter((report) => report.reportedAt)
+    .reduce((sum, report) => sum + report.quantity, 0);
+
+  return {
+    periodStart,
+    periodEnd,
+    used,
+    included,
+    overage: getOverage(plan, subscription?.metered),
+    reported,
+    projectedUsed,
+    projectedOverage,
+    overagePrice,
+    projectedOverageAmount: Math.ceil(projectedOverage / OVERAGE_UNIT) * (overagePrice ?? 0),
+  };
+}
+
+function formatOveragePrice(cents: number) {
+  return `$${(cents / 100).toFixed(2)} per ${OVERAGE_UNIT.toLocaleString()} operations`;
+}
+
+async function notifyAdmins(orgId: string, plan: Plan, used: number, limit: number) {
+  const reached = used >= limit;
+  const percent = reached ? 100 : Math.round(USAGE_WARNING_RATIO * 100);
+  const overagePrice = OVERAGE_PRICES[plan];
+
+  await storage.createAuditLog({
+    orgId,
+    actorId: null,
+    action: reached ? "limit" : "warn",
+    entity: "operations",
+    entityId: null,
+    metadata: { plan, used, limit, percent, overage: overagePrice !== undefined },
+  });
+
+  const consequence = overagePrice !== undefined
+    ? `Operations past the limit are billed as overage at ${formatOveragePrice(overagePrice)}.`
+    : reached
+      ? "API requests, lead changes and Airtable syncs are paused until the period ends or the plan is upgraded."
+      : "Once all of them are used, API requests, lead changes and Airtable syncs are paused until the period ends.";
+
+  const [organization, members] = await Promise.all([
+    storage.getOrganization(orgId),
+    storage.getOrgMembers(orgId),
+  ]);
+  const admins = members.filter((member) => member.role === "admin");
+  for (const admin of admins) {
+    await sendEmail({
+      to: admin.user.email,
+      subject: reached
+        ? `${organization?.name} has used all of its monthly operations`
+        : `${organization?.name} has used ${percent}% of its monthly operations`,
+      text: [
+        `${organization?.name} has used ${used.toLocaleString()} of the ${limit.toLocaleString()} operations included in the ${plan} plan this period.`,
+        consequence,
+        "Upgrade from the Billing page to raise the limit.",
+      ].join("\n\n"),
+    });
+  }
+}
+
+// Counts `amount` billable operations against the current period. Admins are
+// told once per period when usage crosses the warning threshold and again when
+// it reaches the limit. Never throws, since the operation already happened.
+export async function recordOperations(orgId: string, amount: number): Promise<void> {
+  if (amount <= 0) return;
+
+  try {
+    const subscription = await storage.incrementMeteredUsage(orgId, OPERATIONS, amount);
+    const plan = await getOrganizationPlan(orgId);
+    const limit = PLAN_LIMITS[plan].operations;
+    const used = getOperations(subscription.metered);
+    const previous = used - amount;
+
+    const crossed = [limit, Math.floor(limit * USAGE_WARNING_RATIO)]
+      .find((threshold) => previous < threshold && used >= threshold);
+    if (crossed !== undefined) await notifyAdmins(orgId, plan, used, limit);
+  } catch (error: any) {
+    log(`failed to record ${amount} operations for ${orgId}: ${error.message}`, "metering");
+  }
+}
+
+// For billable routes: answers 402 once the period's operations are used up,
+// and counts the request as one operation when it succeeds. Runs after
+// requireOrgAccess or requireApiKey.
+export async function meterOperations(req: Request, res: Response, next: NextFunction) {
+  try {
+    const orgId = req.orgMember.orgId;
+    const limit = await checkOperationsLimit(orgId);
+    if (limit) {
+      return res.status(402).json(limit);
+    }
+
+    res.on("finish", () => {
+      if (res.statusCode < 400) recordOperations(orgId, 1);
+    });
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
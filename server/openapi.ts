@@ -0,0 +1,172 @@
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  auditLogs,
+  leadComments,
+  leads,
+  orgMembers,
+  pipelines,
+  stages,
+  type ApiKeyScope,
+} from "@shared/schema";
+
+// A route served both to the app and, under /api/v1, to API keys. The body
+// and response schemas only feed the OpenAPI document; handlers still parse
+// their own input.
+export interface ApiRoute {
+  method: "get" | "post" | "put" | "delete";
+  path: string;
+  handler: RequestHandler;
+  scope: ApiKeyScope;
+  summary: string;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+// Referenced from route schemas and emitted once under components.schemas
+export const apiModels = {
+  Pipeline: createSelectSchema(pipelines),
+  Stage: createSelectSchema(stages),
+  Lead: createSelectSchema(leads),
+  LeadComment: createSelectSchema(leadComments),
+  Member: createSelectSchema(orgMembers).extend({
+    user: z.object({ id: z.string().uuid(), name: z.string(), email: z.string() }),
+  }),
+  AuditLog: createSelectSchema(auditLogs),
+  Success: z.object({ success: z.literal(true) }),
+};
+
+const errorSchema = {
+  type: "object",
+  properties: { error: { type: "string" } },
+  required: ["error"],
+};
+
+const rateLimitHeaders = {
+  "RateLimit-Limit": { schema: { type: "integer" }, description: "Requests allowed per minute" },
+  "RateLimit-Remaining": { schema: { type: "integer" }, description: "Requests left in the current window" },
+  "RateLimit-Reset": { schema: { type: "integer" }, description: "Seconds until the limit fully resets" },
+};
+
+function toJsonSchema(schema: z.ZodTypeAny, useRefs = true): object {
+  // Referenced models are emitted under components.schemas instead
+  const {
+    $schema,
+    schemas,
+    ...jsonSchema
+  } = zodToJsonSchema(schema, {
+    target: "jsonSchema7",
+    dateStrategy: "format:date-time",
+    basePath: ["#", "components"],
+    definitionPath: "schemas",
+    definitions: useRefs ? apiModels : {},
+  }) as Record<string, any>;
+  return jsonSchema;
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+  };
+}
+
+// "/leads/:leadId" -> "/leads/{leadId}" plus its path parameters
+function toOpenApiPath(path: string) {
+  const parameters: object[] = [];
+  const openApiPath = path.replace(/:(\w+)/g, (_match, name: string) => {
+    parameters.push({ name, in: "path", required: true, schema: { type: "string", format: "uuid" } });
+    return `{${name}}`;
+  });
+  return { openApiPath, parameters };
+}
+
+function toQueryParameters(query: z.AnyZodObject | undefined) {
+  return Object.entries(query?.shape || {}).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: !(schema as z.ZodTypeAny).isOptional(),
+    schema: toJsonSchema(schema as z.ZodTypeAny, false),
+  }));
+}
+
+// "/leads/:leadId/comments" is tagged "Leads"
+function toTag(path: string) {
+  const segment = path.split("/")[1];
+  return segment.charAt(0).toUpperCase() + segment.slice(1).replace(/-/g, " ");
+}
+
+export function buildOpenApiDocument(routes: ApiRoute[]) {
+  const paths: Record<string, Record<string, object>> = {};
+
+  for (const route of routes) {
+    const { openApiPath, parameters } = toOpenApiPath(route.path);
+
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method] = {
+      operationId: route.handler.name,
+      summary: route.summary,
+      description: `Requires the \`${route.scope}\` scope.`,
+      tags: [toTag(route.path)],
+      "x-scope": route.scope,
+      ...((parameters.length > 0 || route.query) && {
+        parameters: [...parameters, ...toQueryParameters(route.query)],
+      }),
+      ...(route.body && {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: toJsonSchema(route.body) } },
+        },
+      }),
+      responses: {
+        "200": {
+          description: "Success",
+          headers: rateLimitHeaders,
+          content: { "application/json": { schema: toJsonSchema(route.response) } },
+        },
+        "400": errorResponse("The request body is invalid"),
+        "401": errorResponse("The API key is missing, invalid or expired"),
+        "402": errorResponse("A plan limit was reached, or the organization is read-only because its payment failed"),
+        "403": errorResponse("The API key lacks the required scope or role"),
+        "404": errorResponse("The resource does not exist in this organization"),
+        "429": {
+          ...errorResponse("The rate limit was exceeded"),
+          headers: {
+            ...rateLimitHeaders,
+            "Retry-After": { schema: { type: "integer" }, description: "Seconds to wait before retrying" },
+          },
+        },
+      },
+    };
+  }
+
+  const schemas: Record<string, object> = { Error: errorSchema };
+  for (const [name, schema] of Object.entries(apiModels)) {
+    schemas[name] = toJsonSchema(schema, false);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Multi-Tenant SaaS Starter API",
+      version: "1.0.0",
+      description:
+        "Manage pipelines, stages, leads and comments, and read members and the audit log, " +
+        "with an organization API key. " +
+        "Send the key as `Authorization: Bearer sk_...`.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ apiKey: [] }],
+    tags: Array.from(new Set(routes.map((route) => toTag(route.path)))).map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer", description: "An organization API key (sk_...)" },
+      },
+      schemas,
+    },
+  };
+}
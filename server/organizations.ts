@@ -0,0 +1,41 @@
+import type { Organization } from "@shared/schema";
+import { storage } from "./storage";
+import { cancelOrganizationSubscription } from "./billing";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a deleted organization can still be restored before its data is purged
+export const ORG_DELETION_GRACE_MS =
+  (parseInt(process.env.ORG_DELETION_GRACE_DAYS || "", 10) || 30) * DAY_MS;
+
+export function getPurgeDate(organization: Pick<Organization, "deletedAt">): Date | null {
+  return organization.deletedAt
+    ? new Date(organization.deletedAt.getTime() + ORG_DELETION_GRACE_MS)
+    : null;
+}
+
+// Permanently removes organizations whose grace period has ended, along with
+// their members, pipelines, leads, keys, settings and audit history. A
+// subscription that's still active is canceled first; when that fails, the
+// organization is kept until the next run.
+export async function purgeDeletedOrganizations(): Promise<number> {
+  const expired = await storage.getOrganizationsDeletedBefore(
+    new Date(Date.now() - ORG_DELETION_GRACE_MS)
+  );
+
+  let purged = 0;
+  for (const organization of expired) {
+    try {
+      await cancelOrganizationSubscription(organization, null);
+    } catch (error: any) {
+      log(`couldn't cancel the subscription of ${organization.id}: ${error.message}`, "organizations");
+      continue;
+    }
+    await storage.deleteOrganization(organization.id);
+    log(`purged organization ${organization.id} (${organization.name})`, "organizations");
+    purged++;
+  }
+
+  return purged;
+}
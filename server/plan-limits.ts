@@ -0,0 +1,167 @@
+import type { NextFunction, Request, Response } from "express";
+import { PLAN_LIMITS } from "@shared/schema";
+import { storage } from "./storage";
+import { getInvitationStatus } from "./invitations";
+
+export type Plan = keyof typeof PLAN_LIMITS;
+export type PaidPlan = Exclude<Plan, "free">;
+export type PlanResource = "members" | "pipelines" | "tableMappings" | "organizations" | "operations";
+
+// Sent as the JSON body of a 402 response so the client can show an upgrade
+// prompt instead of a generic error
+export interface PlanLimitExceeded {
+  error: string;
+  code: "plan_limit_exceeded";
+  resource: PlanResource;
+  plan: Plan;
+  limit: number;
+  current: number;
+}
+
+// Airtable table mappings live in this setting as an array
+export const TABLE_MAPPINGS_SETTING = "airtable.tableMappings";
+
+const RESOURCE_LABELS: Record<PlanResource, string> = {
+  members: "Member",
+  pipelines: "Pipeline",
+  tableMappings: "Table mapping",
+  organizations: "Organization",
+  operations: "Monthly operations",
+};
+
+const PLANS = Object.keys(PLAN_LIMITS) as Plan[];
+export const PAID_PLANS = PLANS.filter((plan): plan is PaidPlan => plan !== "free");
+
+function toPlan(plan: string | null | undefined): Plan {
+  return PLANS.includes(plan as Plan) ? (plan as Plan) : "free";
+}
+
+export async function getOrganizationPlan(orgId: string): Promise<Plan> {
+  const subscription = await storage.getSubscription(orgId);
+  if (subscription) return toPlan(subscription.plan);
+
+  const organization = await storage.getOrganization(orgId);
+  return toPlan(organization?.plan);
+}
+
+type CountedResource = Exclude<PlanResource, "organizations" | "operations">;
+
+async function countUsage(orgId: string, resource: CountedResource) {
+  switch (resource) {
+    case "members": {
+      // Pending invitations hold a seat so admins can't over-invite
+      const [members, invitations] = await Promise.all([
+        storage.getOrgMembers(orgId),
+        storage.getPendingInvitations(orgId),
+      ]);
+      const pending = invitations.filter((i) => getInvitationStatus(i) === "pending");
+      return members.length + pending.length;
+    }
+    case "pipelines":
+      return (await storage.getPipelines(orgId)).length;
+    case "tableMappings": {
+      const setting = await storage.getSetting(orgId, TABLE_MAPPINGS_SETTING);
+      return Array.isArray(setting?.value) ? setting.value.length : 0;
+    }
+  }
+}
+
+export function exceeded(resource: PlanResource, plan: Plan, current: number): PlanLimitExceeded {
+  const limit = PLAN_LIMITS[plan][resource];
+  return {
+    error: `${RESOURCE_LABELS[resource]} limit reached for ${plan} plan (${limit}). Upgrade to add more.`,
+    code: "plan_limit_exceeded",
+    resource,
+    plan,
+    limit,
+    current,
+  };
+}
+
+// Returns the violation when adding one more of `resource` would go past the
+// organization's plan limit, or null when the create may proceed. Pass
+// `total` to check an absolute count instead (e.g. a replaced list). Shrinking
+// is always allowed, so downgraded organizations can get back under the limit.
+export async function checkPlanLimit(
+  orgId: string,
+  resource: CountedResource,
+  { total }: { total?: number } = {}
+): Promise<PlanLimitExceeded | null> {
+  const plan = await getOrganizationPlan(orgId);
+  const current = await countUsage(orgId, resource);
+  const next = total ?? current + 1;
+
+  return next > PLAN_LIMITS[plan][resource] && next > current
+    ? exceeded(resource, plan, current)
+    : null;
+}
+
+// Owners are allowed as many organizations as their best owned plan permits
+export async function checkOrganizationLimit(userId: string): Promise<PlanLimitExceeded | null> {
+  const organizations = await storage.getOrganizationsByUser(userId);
+  const owned = organizations.filter((org) => org.ownerId === userId);
+
+  let plan: Plan = "free";
+  for (const org of owned) {
+    const orgPlan = await getOrganizationPlan(org.id);
+    if (PLANS.indexOf(orgPlan) > PLANS.indexOf(plan)) plan = orgPlan;
+  }
+
+  return owned.length + 1 > PLAN_LIMITS[plan].organizations
+    ? exceeded("organizations", plan, owned.length)
+    : null;
+}
+
+// Pipelines past the plan's limit, which an organization can have after a
+// downgrade. They're kept, but read-only: the oldest pipelines up to the limit
+// stay editable until the organization upgrades or deletes some.
+export async function getReadOnlyPipelineIds(orgId: string): Promise<string[]> {
+  const [plan, pipelines] = await Promise.all([
+    getOrganizationPlan(orgId),
+    storage.getPipelines(orgId),
+  ]);
+  return pipelines.slice(PLAN_LIMITS[plan].pipelines).map((pipeline) => pipeline.id);
+}
+
+// The pipelines a pipeline, stage or lead route writes to, from its params
+// and body
+async function getTargetPipelineIds(req: Request): Promise<string[]> {
+  const { orgId } = req.orgMember;
+  const pipelineIds = [req.params.pipelineId, req.body?.pipelineId];
+  const stageIds = [req.params.stageId, req.body?.stageId];
+
+  if (req.params.leadId) {
+    const lead = await storage.getLead(req.params.leadId, orgId);
+    stageIds.push(lead?.stageId);
+  }
+  for (const stageId of stageIds) {
+    if (typeof stageId !== "string") continue;
+    const stage = await storage.getStage(stageId, orgId);
+    pipelineIds.push(stage?.pipelineId);
+  }
+
+  return pipelineIds.filter((id): id is string => typeof id === "string");
+}
+
+// For pipeline, stage and lead writes: answers 402 when they'd change a
+// read-only pipeline. Runs after requireOrgAccess or requireApiKey.
+export async function rejectReadOnlyPipelineWrites(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { orgId } = req.orgMember;
+    const readOnly = await getReadOnlyPipelineIds(orgId);
+    if (readOnly.length === 0) return next();
+
+    const targets = await getTargetPipelineIds(req);
+    if (targets.some((id) => readOnly.includes(id))) {
+      const plan = await getOrganizationPlan(orgId);
+      const pipelines = await storage.getPipelines(orgId);
+      return res.status(402).json({
+        ...exceeded("pipelines", plan, pipelines.length),
+        error: `This pipeline is over the ${plan} plan's limit of ${PLAN_LIMITS[plan].pipelines} and is read-only. Upgrade, or delete other pipelines, to edit it.`,
+      });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
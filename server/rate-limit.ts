@@ -0,0 +1,231 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { eq, lt } from "drizzle-orm";
+import { PLAN_LIMITS, rateLimitBuckets } from "@shared/schema";
+import { db, type Database } from "./db";
+import { getOrganizationPlan } from "./plan-limits";
+import { log } from "./vite";
+
+const MINUTE_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface BucketState {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Milliseconds until the bucket is full again
+  resetMs: number;
+  // Milliseconds until the next token, when the request was refused
+  retryAfterMs: number;
+}
+
+// Takes one token from the bucket at `key`, creating it full. Buckets hold
+// `capacity` tokens and regain `capacity` of them every `windowMs`.
+export interface RateLimitStore {
+  consume(key: string, capacity: number, windowMs: number): Promise<BucketState>;
+}
+
+function refill(
+  bucket: { tokens: number; updatedAt: number } | undefined,
+  capacity: number,
+  windowMs: number,
+  now: number
+) {
+  if (!bucket) return capacity;
+  return Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / windowMs);
+}
+
+function toState(tokens: number, allowed: boolean, capacity: number, windowMs: number): BucketState {
+  const msPerToken = windowMs / capacity;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((capacity - tokens) * msPerToken),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * msPerToken),
+  };
+}
+
+// Idle buckets are dropped once they would have refilled completely, since a
+// missing bucket starts full anyway
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+  private lastPrunedAt = Date.now();
+
+  async consume(key: string, capacity: number, windowMs: number): Promise<BucketState> {
+    const now = Date.now();
+    this.prune(now);
+
+    const tokens = refill(this.buckets.get(key), capacity, windowMs, now);
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+
+    this.buckets.set(key, {
+      tokens: left,
+      updatedAt: now,
+      fullAt: now + ((capacity - left) * windowMs) / capacity,
+    });
+
+    return toState(left, allowed, capacity, windowMs);
+  }
+
+  private prune(now: number) {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    });
+  }
+}
+
+// Shares buckets between server instances. Each take runs in a transaction
+// with the row locked, so concurrent requests can't spend the same token.
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = Date.now();
+
+  constructor(private db: Database) {}
+
+  async consume(key: string, capacity: number, windowMs: number): Promise<BucketState> {
+    const now = Date.now();
+    this.prune(now, windowMs);
+
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .insert(rateLimitBuckets)
+        .values({ key, tokens: capacity, updatedAt: now })
+        .onConflictDoNothing();
+
+      const [bucket] = await tx
+        .select()
+        .from(rateLimitBuckets)
+        .where(eq(rateLimitBuckets.key, key))
+        .for("update");
+
+      const tokens = refill(bucket, capacity, windowMs, now);
+      const allowed = tokens >= 1;
+      const left = allowed ? tokens - 1 : tokens;
+
+      await tx
+        .update(rateLimitBuckets)
+        .set({ tokens: left, updatedAt: now })
+        .where(eq(rateLimitBuckets.key, key));
+
+      return toState(left, allowed, capacity, windowMs);
+    });
+  }
+
+  // Buckets untouched for a full window have refilled and can be dropped
+  private prune(now: number, windowMs: number) {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    this.db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.updatedAt, now - windowMs))
+      .catch((error) => log(`failed to prune buckets: ${error.message}`, "rate-limit"));
+  }
+}
+
+// RATE_LIMIT_STORE picks the backend; by default buckets live in Postgres
+// whenever the app has a database
+function createRateLimitStore(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE || (db ? "postgres" : "memory");
+
+  if (store === "memory") return new MemoryRateLimitStore();
+  if (store === "postgres") {
+    if (!db) throw new Error("RATE_LIMIT_STORE=postgres needs a postgres or pglite STORAGE_DRIVER");
+    return new PostgresRateLimitStore(db);
+  }
+
+  throw new Error(`Unknown RATE_LIMIT_STORE "${store}"`);
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+interface RateLimitOptions {
+  // Namespaces the buckets of this limiter
+  name: string;
+  // Identifies the client; requests without a key are not limited
+  key: (req: Request) => string | undefined;
+  // Requests allowed per window
+  limit: (req: Request) => number | Promise<number>;
+  windowMs?: number;
+}
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress;
+}
+
+// Token bucket middleware that reports its state with the RateLimit-* headers
+// and answers 429 with Retry-After once the bucket is empty
+export function rateLimit({ name, key, limit, windowMs = MINUTE_MS }: RateLimitOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const client = key(req);
+      if (!client) return next();
+
+      const capacity = await limit(req);
+      const state = await rateLimitStore.consume(`${name}:${client}`, capacity, windowMs);
+
+      res.set({
+        "RateLimit-Policy": `${capacity};w=${Math.ceil(windowMs / 1000)}`,
+        "RateLimit-Limit": String(capacity),
+        "RateLimit-Remaining": String(state.remaining),
+        "RateLimit-Reset": String(Math.ceil(state.resetMs / 1000)),
+      });
+
+      if (!state.allowed) {
+        const retryAfter = Math.ceil(state.retryAfterMs / 1000);
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ error: "Too many requests. Try again later.", retryAfter });
+      }
+
+      next();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+}
+
+// The value for Express's "trust proxy" setting, from TRUST_PROXY: a number of
+// proxy hops, true, false, or a comma-separated list of proxy addresses.
+// Without it behind a proxy, every request seems to come from the proxy and
+// shares one per-IP bucket.
+export function getTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY;
+  if (!value) return process.env.NODE_ENV === "production" ? 1 : false;
+  if (value === "true" || value === "false") return value === "true";
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value;
+}
+
+// Stripe and the cron trigger call from a handful of addresses and
+// authenticate themselves, so throttling them per address would only drop
+// webhooks and job runs
+const IP_RATE_LIMIT_EXEMPT = ["/api/billing/stripe-webhook", "/api/cron"];
+
+// Backstop for every /api request from a single address
+export const ipRateLimit = rateLimit({
+  name: "ip",
+  key: (req) => {
+    const path = req.baseUrl + req.path;
+    const exempt = IP_RATE_LIMIT_EXEMPT.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+    return exempt ? undefined : clientIp(req);
+  },
+  limit: () => parseInt(process.env.RATE_LIMIT_IP_PER_MINUTE || "", 10) || 300,
+});
+
+// Login, signup and invitation lookups are limited much harder per address to
+// slow down password and token guessing
+export const authRateLimit = rateLimit({
+  name: "auth",
+  key: clientIp,
+  limit: () => parseInt(process.env.RATE_LIMIT_AUTH_PER_MINUTE || "", 10) || 10,
+});
+
+// Runs once req.orgMember is set. API keys and signed-in users each get their
+// own bucket, sized by the organization's plan.
+export const planRateLimit = rateLimit({
+  name: "plan",
+  key: (req) => (req.apiKey ? `key:${req.apiKey.id}` : `user:${req.orgMember.userId}`),
+  limit: async (req) => PLAN_LIMITS[await getOrganizationPlan(req.orgMember.orgId)].requestsPerMinute,
+});
@@ -1,21 +1,69 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import session from "express-session";
 import { storage } from "./storage";
+import { createSessionMiddleware, getSessionConfig } from "./session";
+import { getPurgeDate } from "./organizations";
+import {
+  DEFAULT_ROTATION_OVERLAP_HOURS,
+  MAX_ROTATION_OVERLAP_HOURS,
+  generateApiKey,
+  requireApiKey,
+  requireScope,
+  rotateApiKey,
+} from "./api-keys";
+import { getApiKeyUsageReport } from "./api-key-usage";
+import { AIRTABLE_API_KEY_SETTING, AIRTABLE_BASE_ID_SETTING, syncAirtable } from "./airtable";
+import { getCronJobStatuses, isCronJobName, requireCronSecret, triggerCronJob } from "./cron";
+import { retryJob } from "./jobs";
+import { checkOperationsLimit, getUsageSummary, meterOperations } from "./metering";
+import { billingProvider, cancelOrganizationSubscription, constructStripeEvent, handleStripeEvent, isAppPath } from "./billing";
+import { FakeBillingProvider, registerFakeBillingRoutes } from "./fake-billing";
+import { authRateLimit, getTrustProxy, ipRateLimit, planRateLimit } from "./rate-limit";
+import { apiModels, buildOpenApiDocument, type ApiRoute } from "./openapi";
+import {
+  checkWebhookUrl,
+  emitWebhookEvent,
+  generateWebhookSecret,
+  redeliverWebhook,
+} from "./webhooks";
+import {
+  PAID_PLANS,
+  TABLE_MAPPINGS_SETTING,
+  checkOrganizationLimit,
+  checkPlanLimit,
+  getReadOnlyPipelineIds,
+  rejectReadOnlyPipelineWrites,
+  type PaidPlan,
+} from "./plan-limits";
+import { isOnTrial, startTrial } from "./trials";
+import { getDunningState, rejectRestrictedWrites } from "./dunning";
+import {
+  INVITATION_TTL_MS,
+  acceptInvitation,
+  getInvitationStatus,
+  resolveInvitationToken,
+  sendInvitationEmail,
+} from "./invitations";
 import {
   insertUserSchema,
   insertOrganizationSchema,
   insertOrgMemberSchema,
+  insertInvitationSchema,
   insertApiKeySchema,
+  insertWebhookEndpointSchema,
   insertSettingSchema,
   insertPipelineSchema,
   insertStageSchema,
   insertLeadSchema,
   insertLeadCommentSchema,
-  PLAN_LIMITS,
+  JOB_STATUSES,
+  type ApiKey,
+  type JobStatus,
+  type OrgMember,
+  type Organization,
 } from "@shared/schema";
-import { randomBytes, createHash } from "crypto";
-import Stripe from "stripe";
+import { z } from "zod";
+import type Stripe from "stripe";
 
 // Session configuration
 declare module "express-session" {
@@ -25,22 +73,25 @@ declare module "express-session" {
   }
 }
 
-// Initialize Stripe if available
-let stripe: Stripe | null = null;
-if (process.env.STRIPE_SECRET_KEY) {
-  stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
+// Set by requireOrgAccess, or by requireApiKey for /api/v1 requests
+declare global {
+  namespace Express {
+    interface Request {
+      orgMember: OrgMember;
+      apiKey?: ApiKey & { organization: Organization };
+    }
+  }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Lets Express see the client's address and HTTPS through the proxy, for
+  // per-IP rate limits and Secure cookies
+  app.set("trust proxy", getTrustProxy());
+
   // Session middleware
-  app.use(
-    session({
-      secret: "dev-secret-change-in-production",
-      resave: false,
-      saveUninitialized: false,
-      cookie: { secure: false, maxAge: 24 * 60 * 60 * 1000 }, // 24 hours
-    })
-  );
+  const sessionConfig = getSessionConfig();
+  app.use(createSessionMiddleware(sessionConfig));
+  app.use("/api", ipRateLimit);
 
   // Middleware to check authentication
   const requireAuth = (req: any, res: any, next: any) => {
@@ -64,12 +115,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(403).json({ error: "Access denied to organization" });
     }
 
+    // Soft-deleted organizations are only reachable through the restore route
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || organization.deletedAt) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+
     req.orgMember = member;
-    next();
+    // Organizations whose payment failed become read-only after a grace period
+    planRateLimit(req, res, () => rejectRestrictedWrites(req, res, next));
   };
 
   // Auth routes
-  app.post("/api/auth/signup", async (req, res) => {
+  app.post("/api/auth/signup", authRateLimit, async (req, res) => {
     try {
       console.log("🚀 ~ registerRoutes ~ req.body:", req.body);
 
@@ -98,15 +156,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       req.session.userId = user.id;
 
+      // Signing up from an invitation link joins the inviting organization
+      // instead of creating a personal one
+      const invitation = req.body.inviteToken
+        ? await resolveInvitationToken(req.body.inviteToken)
+        : undefined;
+      const invitingOrganization = invitation && await storage.getOrganization(invitation.orgId);
+      if (
+        invitation &&
+        getInvitationStatus(invitation) === "pending" &&
+        invitation.email === user.email.toLowerCase() &&
+        invitingOrganization &&
+        !invitingOrganization.deletedAt
+      ) {
+        await acceptInvitation(invitation, user);
+
+        return res.json({
+          user: { id: user.id, email: user.email, name: user.name },
+        });
+      }
+
       try {
         const defaultOrgPayload = {
           name: `${name}'s Organization`,
         };
         // const orgData = insertOrganizationSchema.parse(req.body);
         const orgData = insertOrganizationSchema.parse(defaultOrgPayload);
-        const organization = await storage.createOrganization(
-          orgData,
-          user.id!
+        const organization = await startTrial(
+          await storage.createOrganization(orgData, user.id!)
         );
 
         await storage.createAuditLog({
@@ -131,7 +208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", authRateLimit, async (req, res) => {
     try {
       const { email, password } = req.body;
 
@@ -180,9 +257,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/organizations", requireAuth, async (req, res) => {
     try {
       const orgData = insertOrganizationSchema.parse(req.body);
-      const organization = await storage.createOrganization(
-        orgData,
-        req.session.userId!
+
+      const violation = await checkOrganizationLimit(req.session.userId!);
+      if (violation) {
+        return res.status(402).json(violation);
+      }
+
+      const organization = await startTrial(
+        await storage.createOrganization(orgData, req.session.userId!)
       );
 
       await storage.createAuditLog({
@@ -200,6 +282,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organizations the current user deleted that can still be restored
+  app.get("/api/organizations/deleted", requireAuth, async (req, res) => {
+    try {
+      const organizations = await storage.getDeletedOrganizations(
+        req.session.userId!
+      );
+      res.json(
+        organizations.map((organization) => ({
+          ...organization,
+          purgeAt: getPurgeDate(organization),
+        }))
+      );
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.get(
     "/api/organizations/:organizationId",
     requireAuth,
@@ -215,11 +314,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         const subscription = await storage.getSubscription(organizationId);
         const stats = await storage.getOrganizationStats(organizationId);
+        const readOnlyPipelineIds = await getReadOnlyPipelineIds(organizationId);
 
         res.json({
           organization,
           subscription,
           stats,
+          readOnlyPipelineIds,
+          dunning: getDunningState(subscription),
           userRole: req.orgMember.role,
         });
       } catch (error: any) {
@@ -229,329 +331,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Organization members
-  app.get(
-    "/api/organizations/:organizationId/members",
-    requireAuth,
-    requireOrgAccess,
-    async (req, res) => {
-      try {
-        const { organizationId } = req.params;
-        const members = await storage.getOrgMembers(organizationId);
-        res.json(members);
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
-      }
-    }
-  );
-
-  app.post(
-    "/api/organizations/:organizationId/members",
+  app.patch(
+    "/api/organizations/:organizationId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const { email, role } = req.body;
-
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
-        }
 
-        // Check if user exists
-        const invitedUser = await storage.getUserByEmail(email);
-        if (!invitedUser) {
-          return res.status(404).json({ error: "User not found" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        // Check if already a member
-        const existing = await storage.getOrgMember(
-          organizationId,
-          invitedUser.id
-        );
-        if (existing) {
-          return res.status(400).json({ error: "User is already a member" });
+        const { name } = insertOrganizationSchema
+          .pick({ name: true })
+          .parse({ name: String(req.body.name || "").trim() });
+        if (!name) {
+          return res.status(400).json({ error: "Name is required" });
         }
 
-        const member = await storage.addOrgMember({
-          orgId: organizationId,
-          userId: invitedUser.id,
-          role,
-          invitedBy: req.session.userId!,
-          acceptedAt: new Date(),
+        const before = await storage.getOrganization(organizationId);
+        const organization = await storage.updateOrganization(organizationId, {
+          name,
         });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "invite",
-          entity: "member",
-          entityId: invitedUser.id,
-          metadata: { email, role },
+          action: "update",
+          entity: "organization",
+          entityId: organizationId,
+          metadata: { before: before?.name, after: name },
         });
 
-        res.json(member);
+        res.json(organization);
       } catch (error: any) {
         res.status(400).json({ error: error.message });
       }
     }
   );
 
-  // API Keys
-  app.get(
-    "/api/organizations/:organizationId/api-keys",
-    requireAuth,
-    requireOrgAccess,
-    async (req, res) => {
-      try {
-        const { organizationId } = req.params;
-        const apiKeys = await storage.getApiKeys(organizationId);
-        res.json(apiKeys);
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
-      }
-    }
-  );
-
   app.post(
-    "/api/organizations/:organizationId/api-keys",
+    "/api/organizations/:organizationId/transfer",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const { name } = insertApiKeySchema.parse(req.body);
+        const { userId } = req.body;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        const organization = await storage.getOrganization(organizationId);
+        if (!organization || organization.ownerId !== req.session.userId) {
+          return res
+            .status(403)
+            .json({ error: "Only the owner can transfer ownership" });
         }
 
-        // Generate API key
-        const keyValue = `sk_${randomBytes(24).toString("hex")}`;
-        const keyHash = createHash("sha256").update(keyValue).digest("hex");
-        const keyPreview = `${keyValue.substring(0, 12)}${"*".repeat(20)}`;
+        const target = userId
+          ? await storage.getOrgMember(organizationId, userId)
+          : undefined;
+        if (!target || target.userId === organization.ownerId) {
+          return res.status(400).json({ error: "Choose another member" });
+        }
+        if (target.role !== "admin") {
+          return res
+            .status(400)
+            .json({ error: "Ownership can only be transferred to an admin" });
+        }
 
-        const apiKey = await storage.createApiKey({
-          orgId: organizationId,
-          name,
-          keyHash,
-          keyPreview,
-          createdBy: req.session.userId!,
+        const updated = await storage.updateOrganization(organizationId, {
+          ownerId: target.userId,
         });
+        const newOwner = await storage.getUserById(target.userId);
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "create",
-          entity: "api_key",
-          entityId: apiKey.id,
-          metadata: { name },
+          action: "transfer",
+          entity: "organization",
+          entityId: organizationId,
+          metadata: {
+            fromUserId: organization.ownerId,
+            toUserId: target.userId,
+            email: newOwner?.email,
+          },
         });
 
-        // Return the actual key only once
-        res.json({ ...apiKey, keyValue });
+        res.json(updated);
       } catch (error: any) {
-        res.status(400).json({ error: error.message });
+        res.status(500).json({ error: error.message });
       }
     }
   );
 
   app.delete(
-    "/api/organizations/:organizationId/api-keys/:keyId",
+    "/api/organizations/:organizationId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, keyId } = req.params;
+        const { organizationId } = req.params;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        const organization = await storage.getOrganization(organizationId);
+        if (!organization || organization.ownerId !== req.session.userId) {
+          return res
+            .status(403)
+            .json({ error: "Only the owner can delete the organization" });
         }
 
-        await storage.deleteApiKey(keyId, organizationId);
+        if (req.body.confirmName !== organization.name) {
+          return res
+            .status(400)
+            .json({ error: "Type the organization name to confirm deletion" });
+        }
+
+        // A deleted organization isn't billed, even while it can be restored
+        await cancelOrganizationSubscription(organization, req.session.userId!);
+
+        const deleted = await storage.updateOrganization(organizationId, {
+          deletedAt: new Date(),
+        });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "delete",
-          entity: "api_key",
-          entityId: keyId,
-          metadata: {},
+          entity: "organization",
+          entityId: organizationId,
+          metadata: { name: organization.name },
         });
 
-        res.json({ success: true });
+        res.json({ ...deleted, purgeAt: getPurgeDate(deleted) });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Settings
-  app.get(
-    "/api/organizations/:organizationId/settings",
+  // Not behind requireOrgAccess, which rejects deleted organizations
+  app.post(
+    "/api/organizations/:organizationId/restore",
     requireAuth,
-    requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const settings = await storage.getSettings(organizationId);
-
-        const settingsMap = settings.reduce((acc, setting) => {
-          acc[setting.key] = setting.value;
-          return acc;
-        }, {} as Record<string, any>);
 
-        res.json(settingsMap);
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
-      }
-    }
-  );
+        const organization = await storage.getOrganization(organizationId);
+        if (
+          !organization ||
+          !organization.deletedAt ||
+          organization.ownerId !== req.session.userId
+        ) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
 
-  app.put(
-    "/api/organizations/:organizationId/settings/:key",
-    requireAuth,
-    requireOrgAccess,
-    async (req, res) => {
-      try {
-        const { organizationId, key } = req.params;
-        const { value } = req.body;
+        if (getPurgeDate(organization)! < new Date()) {
+          return res
+            .status(410)
+            .json({ error: "The restore period for this organization has ended" });
+        }
 
-        if (req.orgMember.role !== "admin") {
-          return res.status(403).json({ error: "Admin access required" });
+        const violation = await checkOrganizationLimit(req.session.userId!);
+        if (violation) {
+          return res.status(402).json(violation);
         }
 
-        const setting = await storage.setSetting({
-          orgId: organizationId,
-          key,
-          value,
-          updatedBy: req.session.userId!,
+        const restored = await storage.updateOrganization(organizationId, {
+          deletedAt: null,
         });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "update",
-          entity: "setting",
-          entityId: key,
-          metadata: { key, value },
+          action: "restore",
+          entity: "organization",
+          entityId: organizationId,
+          metadata: { name: organization.name },
         });
 
-        res.json(setting);
+        res.json(restored);
       } catch (error: any) {
-        res.status(400).json({ error: error.message });
+        res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Audit Logs
-  app.get(
-    "/api/organizations/:organizationId/audit-logs",
+  app.post(
+    "/api/organizations/:organizationId/members",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const limit = parseInt(req.query.limit as string) || 50;
-        const logs = await storage.getAuditLogs(organizationId, limit);
-        res.json(logs);
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
-      }
-    }
-  );
-
-  // Stripe billing routes
-  if (stripe) {
-    app.post(
-      "/api/billing/create-checkout-session",
-      requireAuth,
-      requireOrgAccess,
-      async (req, res) => {
-        try {
-          const { organizationId } = req.params;
-          const { priceId, successUrl, cancelUrl } = req.body;
-
-          if (req.orgMember.role !== "admin") {
-            return res.status(403).json({ error: "Admin access required" });
-          }
 
-          const organization = await storage.getOrganization(organizationId);
-          if (!organization) {
-            return res.status(404).json({ error: "Organization not found" });
-          }
+        if (!["admin", "editor"].includes(req.orgMember.role)) {
+          return res.status(403).json({ error: "Insufficient permissions" });
+        }
 
-          let customerId = organization.stripeCustomerId;
+        const { email, role, message } = insertInvitationSchema.parse({
+          ...req.body,
+          email: String(req.body.email || "").trim().toLowerCase(),
+          orgId: organizationId,
+          invitedBy: req.session.userId!,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        });
 
-          if (!customerId) {
-            const customer = await stripe!.customers.create({
-              metadata: { organizationId },
-            });
-            customerId = customer.id;
-            await storage.updateOrganization(organizationId, {
-              stripeCustomerId: customerId,
-            });
-          }
+        // Editors can invite, but not grant more than they have
+        if (role === "admin" && req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Only admins can invite admins" });
+        }
 
-          const session = await stripe!.checkout.sessions.create({
-            customer: customerId,
-            payment_method_types: ["card"],
-            line_items: [{ price: priceId, quantity: 1 }],
-            mode: "subscription",
-            success_url: successUrl,
-            cancel_url: cancelUrl,
-            metadata: { organizationId },
-          });
+        // Check if already a member
+        const existingUser = await storage.getUserByEmail(email);
+        if (
+          existingUser &&
+          (await storage.getOrgMember(organizationId, existingUser.id))
+        ) {
+          return res.status(400).json({ error: "User is already a member" });
+        }
 
-          res.json({ url: session.url });
-        } catch (error: any) {
-          res.status(500).json({ error: error.message });
+        const pending = await storage.getPendingInvitations(organizationId);
+        if (
+          pending.some(
+            (i) => i.email === email && getInvitationStatus(i) === "pending"
+          )
+        ) {
+          return res
+            .status(400)
+            .json({ error: "An invitation is already pending for this email" });
         }
-      }
-    );
 
-    app.post(
-      "/api/billing/create-portal-session",
-      requireAuth,
-      requireOrgAccess,
-      async (req, res) => {
-        try {
-          const { organizationId } = req.params;
-          const { returnUrl } = req.body;
+        const violation = await checkPlanLimit(organizationId, "members");
+        if (violation) {
+          return res.status(402).json(violation);
+        }
 
-          if (req.orgMember.role !== "admin") {
-            return res.status(403).json({ error: "Admin access required" });
-          }
+        const invitation = await storage.createInvitation({
+          orgId: organizationId,
+          email,
+          role,
+          message: message || null,
+          invitedBy: req.session.userId!,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        });
 
-          const organization = await storage.getOrganization(organizationId);
-          if (!organization?.stripeCustomerId) {
-            return res.status(400).json({ error: "No billing account found" });
-          }
+        await sendInvitationEmail(invitation, `${req.protocol}://${req.get("host")}`);
 
-          const session = await stripe!.billingPortal.sessions.create({
-            customer: organization.stripeCustomerId,
-            return_url: returnUrl,
-          });
+        await storage.createAuditLog({
+          orgId: organizationId,
+          actorId: req.session.userId!,
+          action: "invite",
+          entity: "member",
+          entityId: invitation.id,
+          metadata: { email, role },
+        });
 
-          res.json({ url: session.url });
-        } catch (error: any) {
-          res.status(500).json({ error: error.message });
-        }
+        res.json(invitation);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
       }
-    );
-  }
-
-  // Pipeline Management Routes
+    }
+  );
 
-  // Pipelines
+  // Invitations
   app.get(
-    "/api/organizations/:organizationId/pipelines",
+    "/api/organizations/:organizationId/invitations",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const pipelines = await storage.getPipelines(organizationId);
-        res.json(pipelines);
+        const invitations = await storage.getPendingInvitations(organizationId);
+        res.json(
+          invitations.map((invitation) => ({
+            ...invitation,
+            status: getInvitationStatus(invitation),
+          }))
+        );
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
@@ -559,105 +615,248 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   app.post(
-    "/api/organizations/:organizationId/pipelines",
+    "/api/organizations/:organizationId/invitations/:invitationId/resend",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId } = req.params;
-        const pipelineData = insertPipelineSchema.parse({
-          ...req.body,
-          orgId: organizationId,
-        });
+        const { organizationId, invitationId } = req.params;
 
         if (!["admin", "editor"].includes(req.orgMember.role)) {
           return res.status(403).json({ error: "Insufficient permissions" });
         }
 
-        // Check plan limits
-        const subscription = await storage.getSubscription(organizationId);
-        const plan = subscription?.plan || "free";
-        const existingPipelines = await storage.getPipelines(organizationId);
+        const existing = await storage.getInvitation(invitationId);
+        if (
+          !existing ||
+          existing.orgId !== organizationId ||
+          !["pending", "expired"].includes(getInvitationStatus(existing))
+        ) {
+          return res.status(404).json({ error: "Invitation not found" });
+        }
 
-        if (existingPipelines.length >= (PLAN_LIMITS as any)[plan].pipelines) {
-          return res.status(400).json({
-            error: `Pipeline limit reached for ${plan} plan. Upgrade to create more pipelines.`,
-          });
+        if (existing.role === "admin" && req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Only admins can invite admins" });
+        }
+
+        // An expired invitation no longer holds a seat
+        if (getInvitationStatus(existing) === "expired") {
+          const violation = await checkPlanLimit(organizationId, "members");
+          if (violation) {
+            return res.status(402).json(violation);
+          }
         }
 
-        const pipeline = await storage.createPipeline(pipelineData);
+        const invitation = await storage.updateInvitation(invitationId, {
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        });
+
+        await sendInvitationEmail(invitation, `${req.protocol}://${req.get("host")}`);
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "create",
-          entity: "pipeline",
-          entityId: pipeline.id,
-          metadata: { name: pipeline.name },
+          action: "resend",
+          entity: "invitation",
+          entityId: invitationId,
+          metadata: { email: invitation.email },
         });
 
-        res.json(pipeline);
+        res.json({ ...invitation, status: getInvitationStatus(invitation) });
       } catch (error: any) {
-        res.status(400).json({ error: error.message });
+        res.status(500).json({ error: error.message });
       }
     }
   );
 
-  app.get(
-    "/api/organizations/:organizationId/pipelines/:pipelineId",
+  app.delete(
+    "/api/organizations/:organizationId/invitations/:invitationId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, pipelineId } = req.params;
+        const { organizationId, invitationId } = req.params;
 
-        const pipeline = await storage.getPipeline(pipelineId, organizationId);
-        if (!pipeline) {
-          return res.status(404).json({ error: "Pipeline not found" });
+        if (!["admin", "editor"].includes(req.orgMember.role)) {
+          return res.status(403).json({ error: "Insufficient permissions" });
         }
 
-        const stages = await storage.getStages(pipelineId, organizationId);
-        const leads = await storage.getLeadsByPipeline(
-          pipelineId,
-          organizationId
-        );
+        const existing = await storage.getInvitation(invitationId);
+        if (!existing || existing.orgId !== organizationId) {
+          return res.status(404).json({ error: "Invitation not found" });
+        }
 
-        res.json({ pipeline, stages, leads });
+        await storage.updateInvitation(invitationId, { revokedAt: new Date() });
+
+        await storage.createAuditLog({
+          orgId: organizationId,
+          actorId: req.session.userId!,
+          action: "revoke",
+          entity: "invitation",
+          entityId: invitationId,
+          metadata: { email: existing.email },
+        });
+
+        res.json({ success: true });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  app.put(
-    "/api/organizations/:organizationId/pipelines/:pipelineId",
+  // Token-based invitation routes, used by the accept/decline page
+  app.get("/api/invitations/:token", authRateLimit, async (req, res) => {
+    try {
+      const invitation = await resolveInvitationToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      const organization = await storage.getOrganization(invitation.orgId);
+      const inviter = await storage.getUserById(invitation.invitedBy);
+
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        message: invitation.message,
+        expiresAt: invitation.expiresAt,
+        status: getInvitationStatus(invitation),
+        organization: { id: organization?.id, name: organization?.name },
+        inviter: { name: inviter?.name },
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", authRateLimit, requireAuth, async (req, res) => {
+    try {
+      const invitation = await resolveInvitationToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      const status = getInvitationStatus(invitation);
+      if (status !== "pending") {
+        return res.status(410).json({ error: `Invitation is ${status}` });
+      }
+
+      // Members of a soft-deleted organization can't reach it either
+      const organization = await storage.getOrganization(invitation.orgId);
+      if (!organization || organization.deletedAt) {
+        return res.status(410).json({ error: "The organization was deleted" });
+      }
+
+      const user = await storage.getUserById(req.session.userId!);
+      if (!user || user.email.toLowerCase() !== invitation.email) {
+        return res
+          .status(403)
+          .json({ error: `This invitation was sent to ${invitation.email}` });
+      }
+
+      const member = await acceptInvitation(invitation, user);
+      res.json(member);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/invitations/:token/decline", authRateLimit, async (req, res) => {
+    try {
+      const invitation = await resolveInvitationToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      const status = getInvitationStatus(invitation);
+      if (status !== "pending") {
+        return res.status(410).json({ error: `Invitation is ${status}` });
+      }
+
+      await storage.updateInvitation(invitation.id, { declinedAt: new Date() });
+
+      await storage.createAuditLog({
+        orgId: invitation.orgId,
+        actorId: req.session.userId || null,
+        action: "decline",
+        entity: "invitation",
+        entityId: invitation.id,
+        metadata: { email: invitation.email },
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rejects changes that would leave the organization without its owner or
+  // without any admin. Returns the error message, or null if the change is allowed.
+  const checkAdminGuard = async (
+    organizationId: string,
+    member: { userId: string; role: string },
+    newRole: string | null
+  ) => {
+    const organization = await storage.getOrganization(organizationId);
+    if (organization?.ownerId === member.userId) {
+      return "The organization owner cannot be demoted or removed";
+    }
+
+    if (member.role === "admin" && newRole !== "admin") {
+      const members = await storage.getOrgMembers(organizationId);
+      const admins = members.filter((m) => m.role === "admin");
+      if (admins.length <= 1) {
+        return "An organization must have at least one admin";
+      }
+    }
+
+    return null;
+  };
+
+  app.patch(
+    "/api/organizations/:organizationId/members/:userId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, pipelineId } = req.params;
-        const updates = req.body;
+        const { organizationId, userId } = req.params;
+        const { role } = req.body;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        if (!["admin", "editor", "viewer"].includes(role)) {
+          return res.status(400).json({ error: "Invalid role" });
+        }
+
+        const member = await storage.getOrgMember(organizationId, userId);
+        if (!member) {
+          return res.status(404).json({ error: "Member not found" });
+        }
+
+        const guardError = await checkAdminGuard(organizationId, member, role);
+        if (guardError) {
+          return res.status(400).json({ error: guardError });
         }
 
-        const pipeline = await storage.updatePipeline(
-          pipelineId,
+        const updated = await storage.updateOrgMemberRole(
           organizationId,
-          updates
+          userId,
+          role
         );
+        const user = await storage.getUserById(userId);
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "update",
-          entity: "pipeline",
-          entityId: pipeline.id,
-          metadata: { updates },
+          entity: "member",
+          entityId: userId,
+          metadata: { email: user?.email, before: member.role, after: role },
         });
 
-        res.json(pipeline);
+        res.json(updated);
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
@@ -665,26 +864,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   app.delete(
-    "/api/organizations/:organizationId/pipelines/:pipelineId",
+    "/api/organizations/:organizationId/members/:userId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, pipelineId } = req.params;
+        const { organizationId, userId } = req.params;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        const member = await storage.getOrgMember(organizationId, userId);
+        if (!member) {
+          return res.status(404).json({ error: "Member not found" });
         }
 
-        await storage.deletePipeline(pipelineId, organizationId);
+        const guardError = await checkAdminGuard(organizationId, member, null);
+        if (guardError) {
+          return res.status(400).json({ error: guardError });
+        }
+
+        await storage.removeOrgMember(organizationId, userId);
+        const user = await storage.getUserById(userId);
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "delete",
-          entity: "pipeline",
-          entityId: pipelineId,
-          metadata: {},
+          entity: "member",
+          entityId: userId,
+          metadata: { email: user?.email, before: member.role, after: null },
         });
 
         res.json({ success: true });
@@ -694,238 +904,318 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  // Stages
+  // API Keys
+  app.get(
+    "/api/organizations/:organizationId/api-keys",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const apiKeys = await storage.getApiKeys(organizationId);
+        res.json(apiKeys);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
   app.post(
-    "/api/organizations/:organizationId/stages",
+    "/api/organizations/:organizationId/api-keys",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const stageData = insertStageSchema.parse({
+        const { name, scopes, expiresAt, roleCeiling } = insertApiKeySchema.parse({
           ...req.body,
           orgId: organizationId,
+          createdBy: req.session.userId!,
         });
 
         if (!["admin", "editor"].includes(req.orgMember.role)) {
           return res.status(403).json({ error: "Insufficient permissions" });
         }
 
-        // Verify pipeline access
-        const pipeline = await storage.getPipeline(
-          stageData.pipelineId,
-          organizationId
-        );
-        if (!pipeline) {
-          return res.status(404).json({ error: "Pipeline not found" });
-        }
+        const { keyValue, keyHash, keyPreview } = generateApiKey();
 
-        const stage = await storage.createStage(stageData);
+        const apiKey = await storage.createApiKey({
+          orgId: organizationId,
+          name,
+          keyHash,
+          keyPreview,
+          scopes,
+          expiresAt: expiresAt ?? null,
+          roleCeiling: roleCeiling ?? null,
+          createdBy: req.session.userId!,
+        });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "create",
-          entity: "stage",
-          entityId: stage.id,
-          metadata: { name: stage.name, pipelineId: stage.pipelineId },
+          entity: "api_key",
+          entityId: apiKey.id,
+          metadata: { name, scopes, expiresAt, roleCeiling },
         });
 
-        res.json(stage);
+        // Return the actual key only once
+        res.json({ ...apiKey, keyValue });
       } catch (error: any) {
         res.status(400).json({ error: error.message });
       }
     }
   );
 
-  app.put(
-    "/api/organizations/:organizationId/stages/:stageId",
+  app.delete(
+    "/api/organizations/:organizationId/api-keys/:keyId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, stageId } = req.params;
-        const updates = req.body;
+        const { organizationId, keyId } = req.params;
 
         if (!["admin", "editor"].includes(req.orgMember.role)) {
           return res.status(403).json({ error: "Insufficient permissions" });
         }
 
-        const stage = await storage.updateStage(
-          stageId,
-          organizationId,
-          updates
-        );
+        const apiKey = (await storage.getApiKeys(organizationId)).find((key) => key.id === keyId);
+        await storage.deleteApiKey(keyId, organizationId);
 
+        // For a rotated key, this is when it stopped working if its overlap
+        // window hadn't ended yet
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "update",
-          entity: "stage",
-          entityId: stage.id,
-          metadata: { updates },
+          action: "delete",
+          entity: "api_key",
+          entityId: keyId,
+          metadata: apiKey
+            ? { name: apiKey.name, successorId: apiKey.replacedById, expiresAt: apiKey.expiresAt }
+            : {},
         });
 
-        res.json(stage);
+        res.json({ success: true });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  app.delete(
-    "/api/organizations/:organizationId/stages/:stageId",
+  app.get(
+    "/api/organizations/:organizationId/api-keys/:keyId/usage",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId, keyId } = req.params;
+        const apiKeys = await storage.getApiKeys(organizationId);
+        const apiKey = apiKeys.find((key) => key.id === keyId);
+        if (!apiKey) {
+          return res.status(404).json({ error: "API key not found" });
+        }
+
+        const report = await getApiKeyUsageReport(apiKey);
+        res.json({ apiKey, ...report });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/organizations/:organizationId/api-keys/:keyId/rotate",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, stageId } = req.params;
+        const { organizationId, keyId } = req.params;
+        const overlapHours = req.body.overlapHours ?? DEFAULT_ROTATION_OVERLAP_HOURS;
 
         if (!["admin", "editor"].includes(req.orgMember.role)) {
           return res.status(403).json({ error: "Insufficient permissions" });
         }
 
-        await storage.deleteStage(stageId, organizationId);
+        if (
+          !Number.isInteger(overlapHours) ||
+          overlapHours < 0 ||
+          overlapHours > MAX_ROTATION_OVERLAP_HOURS
+        ) {
+          return res.status(400).json({
+            error: `Overlap must be a whole number of hours between 0 and ${MAX_ROTATION_OVERLAP_HOURS}`,
+          });
+        }
 
-        await storage.createAuditLog({
-          orgId: organizationId,
+        const apiKeys = await storage.getApiKeys(organizationId);
+        const apiKey = apiKeys.find((key) => key.id === keyId);
+        if (!apiKey) {
+          return res.status(404).json({ error: "API key not found" });
+        }
+
+        if (apiKey.replacedById) {
+          return res.status(409).json({ error: "This API key has already been rotated" });
+        }
+
+        if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+          return res.status(409).json({ error: "Expired API keys can't be rotated" });
+        }
+
+        const { rotated, successor, keyValue } = await rotateApiKey(apiKey, {
+          overlapHours,
           actorId: req.session.userId!,
-          action: "delete",
-          entity: "stage",
-          entityId: stageId,
-          metadata: {},
         });
 
-        res.json({ success: true });
+        // Return the new key only once
+        res.json({ rotated, apiKey: { ...successor, keyValue } });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  app.post(
-    "/api/organizations/:organizationId/stages/reorder",
+  // Webhooks
+  app.get(
+    "/api/organizations/:organizationId/webhooks",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const { pipelineId, stageOrders } = req.body;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        await storage.reorderStages(pipelineId, organizationId, stageOrders);
-
-        await storage.createAuditLog({
-          orgId: organizationId,
-          actorId: req.session.userId!,
-          action: "reorder",
-          entity: "stage",
-          entityId: pipelineId,
-          metadata: { stageOrders },
-        });
-
-        res.json({ success: true });
+        const endpoints = await storage.getWebhookEndpoints(organizationId);
+        res.json(endpoints);
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Leads
   app.post(
-    "/api/organizations/:organizationId/leads",
+    "/api/organizations/:organizationId/webhooks",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const leadData = insertLeadSchema.parse({
+        const { url, description, events } = insertWebhookEndpointSchema.parse({
           ...req.body,
           orgId: organizationId,
+          createdBy: req.session.userId!,
         });
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        // Verify stage access
-        const stage = await storage.getStage(leadData.stageId, organizationId);
-        if (!stage) {
-          return res.status(404).json({ error: "Stage not found" });
+        const urlError = await checkWebhookUrl(url);
+        if (urlError) {
+          return res.status(400).json({ error: urlError });
         }
 
-        const lead = await storage.createLead(leadData);
+        const endpoint = await storage.createWebhookEndpoint({
+          orgId: organizationId,
+          url,
+          description: description ?? null,
+          events,
+          secret: generateWebhookSecret(),
+          createdBy: req.session.userId!,
+        });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "create",
-          entity: "lead",
-          entityId: lead.id,
-          metadata: {
-            name: lead.name,
-            email: lead.email,
-            stageId: lead.stageId,
-          },
+          entity: "webhook",
+          entityId: endpoint.id,
+          metadata: { url, events },
         });
 
-        res.json(lead);
+        res.json(endpoint);
       } catch (error: any) {
         res.status(400).json({ error: error.message });
       }
     }
   );
 
-  app.get(
-    "/api/organizations/:organizationId/leads/:leadId",
+  app.put(
+    "/api/organizations/:organizationId/webhooks/:webhookId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId } = req.params;
+        const { organizationId, webhookId } = req.params;
+        const updates = insertWebhookEndpointSchema
+          .pick({ url: true, description: true, events: true, enabled: true })
+          .partial()
+          .parse(req.body);
 
-        const lead = await storage.getLead(leadId, organizationId);
-        if (!lead) {
-          return res.status(404).json({ error: "Lead not found" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        const existing = await storage.getWebhookEndpoint(webhookId, organizationId);
+        if (!existing) {
+          return res.status(404).json({ error: "Webhook not found" });
         }
 
-        const comments = await storage.getLeadComments(leadId, organizationId);
+        const urlError = updates.url && (await checkWebhookUrl(updates.url));
+        if (urlError) {
+          return res.status(400).json({ error: urlError });
+        }
+
+        const endpoint = await storage.updateWebhookEndpoint(webhookId, organizationId, updates);
+
+        await storage.createAuditLog({
+          orgId: organizationId,
+          actorId: req.session.userId!,
+          action: "update",
+          entity: "webhook",
+          entityId: endpoint.id,
+          metadata: { url: endpoint.url, updates },
+        });
 
-        res.json({ lead, comments });
+        res.json(endpoint);
       } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        res.status(400).json({ error: error.message });
       }
     }
   );
 
-  app.put(
-    "/api/organizations/:organizationId/leads/:leadId",
+  app.post(
+    "/api/organizations/:organizationId/webhooks/:webhookId/roll-secret",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId } = req.params;
-        const updates = req.body;
+        const { organizationId, webhookId } = req.params;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        const lead = await storage.updateLead(leadId, organizationId, updates);
+        const existing = await storage.getWebhookEndpoint(webhookId, organizationId);
+        if (!existing) {
+          return res.status(404).json({ error: "Webhook not found" });
+        }
+
+        const endpoint = await storage.updateWebhookEndpoint(webhookId, organizationId, {
+          secret: generateWebhookSecret(),
+        });
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "update",
-          entity: "lead",
-          entityId: lead.id,
-          metadata: { updates },
+          action: "rotate",
+          entity: "webhook",
+          entityId: endpoint.id,
+          metadata: { url: endpoint.url },
         });
 
-        res.json(lead);
+        res.json(endpoint);
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
@@ -933,26 +1223,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   app.delete(
-    "/api/organizations/:organizationId/leads/:leadId",
+    "/api/organizations/:organizationId/webhooks/:webhookId",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId } = req.params;
+        const { organizationId, webhookId } = req.params;
 
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        await storage.deleteLead(leadId, organizationId);
+        const endpoint = await storage.getWebhookEndpoint(webhookId, organizationId);
+        if (!endpoint) {
+          return res.status(404).json({ error: "Webhook not found" });
+        }
+
+        await storage.deleteWebhookEndpoint(webhookId, organizationId);
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
           action: "delete",
-          entity: "lead",
-          entityId: leadId,
-          metadata: {},
+          entity: "webhook",
+          entityId: webhookId,
+          metadata: { url: endpoint.url },
         });
 
         res.json({ success: true });
@@ -962,246 +1257,1225 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  app.post(
-    "/api/organizations/:organizationId/leads/:leadId/move",
+  app.get(
+    "/api/organizations/:organizationId/webhooks/:webhookId/deliveries",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId } = req.params;
-        const { stageId } = req.body;
-
-        if (!["admin", "editor"].includes(req.orgMember.role)) {
-          return res.status(403).json({ error: "Insufficient permissions" });
-        }
+        const { organizationId, webhookId } = req.params;
 
-        // Verify stage access
-        const stage = await storage.getStage(stageId, organizationId);
-        if (!stage) {
-          return res.status(404).json({ error: "Stage not found" });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
-        const lead = await storage.moveLeadToStage(
-          leadId,
-          stageId,
-          organizationId
-        );
-
-        await storage.createAuditLog({
-          orgId: organizationId,
-          actorId: req.session.userId!,
-          action: "move",
-          entity: "lead",
-          entityId: lead.id,
-          metadata: { newStageId: stageId, stageName: stage.name },
-        });
-
-        res.json(lead);
+        const deliveries = await storage.getWebhookDeliveries(webhookId, organizationId);
+        res.json(deliveries);
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Lead Comments
   app.post(
-    "/api/organizations/:organizationId/leads/:leadId/comments",
+    "/api/organizations/:organizationId/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId } = req.params;
-        const { body } = req.body;
-
-        // Extract @username mentions
-        const mentionRegex = /@(\w+)/g;
-        const mentions = [];
-        let match;
-        while ((match = mentionRegex.exec(body)) !== null) {
-          mentions.push(match[1]);
-        }
-
-        // Find mentioned users in organization
-        const mentionedUserIds = [];
-        if (mentions.length > 0) {
-          const orgMembers = await storage.getOrgMembers(organizationId);
-          const membersByUsername = new Map(
-            orgMembers.map((m) => [
-              m.user.name.toLowerCase().replace(/\s+/g, ""),
-              m.user.id,
-            ])
-          );
-
-          for (const mention of mentions) {
-            const userId = membersByUsername.get(mention.toLowerCase());
-            if (userId && userId !== req.session.userId) {
-              mentionedUserIds.push(userId);
-            }
-          }
-        }
+        const { organizationId, webhookId, deliveryId } = req.params;
 
-        const commentData = insertLeadCommentSchema.parse({
-          orgId: organizationId,
-          leadId,
-          body,
-          userId: req.session.userId!,
-          mentionedUserIds:
-            mentionedUserIds.length > 0 ? mentionedUserIds : null,
-        });
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
 
-        const comment = await storage.createLeadComment(commentData);
-
-        // Send email notifications for mentions (webhook simulation)
-        if (mentionedUserIds.length > 0) {
-          const lead = await storage.getLead(leadId, organizationId);
-          const user = await storage.getUserById(req.session.userId!);
-
-          for (const mentionedUserId of mentionedUserIds) {
-            const mentionedUser = await storage.getUserById(mentionedUserId);
-            if (mentionedUser) {
-              // In a real implementation, this would send an actual email
-              console.log(
-                `Email notification: ${user?.name} mentioned ${mentionedUser.name} in lead "${lead?.name}"`
-              );
-
-              await storage.createAuditLog({
-                orgId: organizationId,
-                actorId: req.session.userId!,
-                action: "mention",
-                entity: "user",
-                entityId: mentionedUserId,
-                metadata: {
-                  leadId,
-                  leadName: lead?.name,
-                  commentBody: body,
-                  mentionedUserEmail: mentionedUser.email,
-                },
-              });
-            }
-          }
+        const delivery = await storage.getWebhookDelivery(deliveryId, organizationId);
+        if (!delivery || delivery.endpointId !== webhookId) {
+          return res.status(404).json({ error: "Delivery not found" });
         }
 
-        await storage.createAuditLog({
-          orgId: organizationId,
-          actorId: req.session.userId!,
-          action: "create",
-          entity: "comment",
-          entityId: comment.id,
-          metadata: { leadId, body: body.substring(0, 100) },
-        });
+        const endpoint = await storage.getWebhookEndpoint(webhookId, organizationId);
+        if (!endpoint?.enabled) {
+          return res.status(409).json({ error: "Enable the webhook before redelivering" });
+        }
 
-        res.json(comment);
+        const redelivery = await redeliverWebhook(delivery);
+        res.json(redelivery);
       } catch (error: any) {
-        res.status(400).json({ error: error.message });
+        res.status(500).json({ error: error.message });
       }
     }
   );
 
-  app.delete(
-    "/api/organizations/:organizationId/leads/:leadId/comments/:commentId",
+  // Job queue
+  app.get(
+    "/api/organizations/:organizationId/jobs",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
-        const { organizationId, leadId, commentId } = req.params;
+        const { organizationId } = req.params;
 
-        // Only allow comment author or admin to delete
-        const comments = await storage.getLeadComments(leadId, organizationId);
-        const comment = comments.find((c) => c.id === commentId);
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
 
-        if (!comment) {
-          return res.status(404).json({ error: "Comment not found" });
+        const type = (req.query.type as string) || undefined;
+        const status = (req.query.status as string) || undefined;
+        if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+          return res.status(400).json({ error: `Status must be one of ${JOB_STATUSES.join(", ")}` });
         }
 
-        if (
-          comment.userId !== req.session.userId &&
-          req.orgMember.role !== "admin"
-        ) {
-          return res
-            .status(403)
-            .json({ error: "Can only delete your own comments" });
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const before = parseInt(req.query.before as string) || undefined;
+        const jobs = await storage.getJobs(organizationId, {
+          type,
+          status: status as JobStatus | undefined,
+          limit,
+          before,
+        });
+        res.json(jobs);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.get(
+    "/api/organizations/:organizationId/jobs/stats",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        const stats = await storage.getJobStats(organizationId, new Date());
+        res.json(stats);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/organizations/:organizationId/jobs/:jobId/retry",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const jobId = parseInt(req.params.jobId);
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        const job = Number.isInteger(jobId) ? await storage.getJob(jobId, organizationId) : undefined;
+        if (!job) {
+          return res.status(404).json({ error: "Job not found" });
         }
 
-        await storage.deleteLeadComment(commentId, organizationId);
+        const retried = await retryJob(jobId, organizationId);
+        if (!retried) {
+          return res.status(409).json({ error: "Only dead or cancelled jobs can be retried" });
+        }
 
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "delete",
-          entity: "comment",
-          entityId: commentId,
-          metadata: { leadId },
+          action: "retry",
+          entity: "job",
+          entityId: String(jobId),
+          metadata: { type: job.type, status: job.status },
         });
 
-        res.json({ success: true });
+        res.json(retried);
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
     }
   );
 
-  // Airtable Integration for Pipelines
   app.post(
-    "/api/organizations/:organizationId/airtable/sync",
+    "/api/organizations/:organizationId/jobs/:jobId/cancel",
     requireAuth,
     requireOrgAccess,
     async (req, res) => {
       try {
         const { organizationId } = req.params;
-        const { direction = "both" } = req.body; // 'push', 'pull', or 'both'
+        const jobId = parseInt(req.params.jobId);
 
         if (req.orgMember.role !== "admin") {
           return res.status(403).json({ error: "Admin access required" });
         }
 
-        // Get Airtable settings
-        const baseIdSetting = await storage.getSetting(
-          organizationId,
-          "airtable.baseId"
-        );
-        const apiKeySetting = await storage.getSetting(
-          organizationId,
-          "airtable.apiKey"
-        );
+        const job = Number.isInteger(jobId) ? await storage.getJob(jobId, organizationId) : undefined;
+        if (!job) {
+          return res.status(404).json({ error: "Job not found" });
+        }
 
-        if (!baseIdSetting || !apiKeySetting) {
-          return res
-            .status(400)
-            .json({ error: "Airtable configuration incomplete" });
+        const cancelled = await storage.cancelJob(jobId, organizationId);
+        if (!cancelled) {
+          return res.status(409).json({ error: "Only pending jobs can be cancelled" });
         }
 
-        // Mock sync operation - in reality this would interact with Airtable API
-        const leads = await storage.getLeadsByPipeline("", organizationId); // Get all leads
-        const stages = await storage.getPipelines(organizationId);
+        await storage.createAuditLog({
+          orgId: organizationId,
+          actorId: req.session.userId!,
+          action: "cancel",
+          entity: "job",
+          entityId: String(jobId),
+          metadata: { type: job.type },
+        });
 
-        let syncedLeads = 0;
-        let syncedStages = 0;
+        res.json(cancelled);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
 
-        if (direction === "push" || direction === "both") {
-          // Mock push to Airtable
-          syncedLeads = leads.length;
-          syncedStages = stages.length;
-        }
+  app.delete(
+    "/api/organizations/:organizationId/jobs/dead",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
 
-        if (direction === "pull" || direction === "both") {
-          // Mock pull from Airtable - would create/update leads and stages
-          // For now, just simulate some updates
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
         }
 
+        const deleted = await storage.deleteDeadJobs(organizationId);
+
         await storage.createAuditLog({
           orgId: organizationId,
           actorId: req.session.userId!,
-          action: "sync",
-          entity: "airtable",
+          action: "purge",
+          entity: "job",
           entityId: null,
-          metadata: { direction, syncedLeads, syncedStages },
+          metadata: { status: "dead", deleted },
+        });
+
+        res.json({ deleted });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  // Settings
+  app.get(
+    "/api/organizations/:organizationId/settings",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const settings = await storage.getSettings(organizationId);
+
+        const settingsMap = settings.reduce((acc, setting) => {
+          acc[setting.key] = setting.value;
+          return acc;
+        }, {} as Record<string, any>);
+
+        res.json(settingsMap);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.put(
+    "/api/organizations/:organizationId/settings/:key",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId, key } = req.params;
+        const { value } = req.body;
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        if (key === TABLE_MAPPINGS_SETTING && Array.isArray(value)) {
+          const violation = await checkPlanLimit(organizationId, "tableMappings", {
+            total: value.length,
+          });
+          if (violation) {
+            return res.status(402).json(violation);
+          }
+        }
+
+        const setting = await storage.setSetting({
+          orgId: organizationId,
+          key,
+          value,
+          updatedBy: req.session.userId!,
+        });
+
+        await storage.createAuditLog({
+          orgId: organizationId,
+          actorId: req.session.userId!,
+          action: "update",
+          entity: "setting",
+          entityId: key,
+          metadata: { key, value },
+        });
+
+        res.json(setting);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Stripe billing routes
+  //
+  // Stripe calls the webhook directly, so it's authenticated by the
+  // Stripe-Signature header rather than a session
+  app.post("/api/billing/stripe-webhook", async (req, res) => {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(503).json({ error: "Stripe webhooks are disabled; set STRIPE_WEBHOOK_SECRET to enable them" });
+    }
+
+    const signature = req.headers["stripe-signature"];
+    if (typeof signature !== "string" || !Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ error: "Missing Stripe signature" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = constructStripeEvent(req.rawBody, signature, secret);
+    } catch {
+      return res.status(400).json({ error: "Invalid Stripe signature" });
+    }
+
+    try {
+      const handled = await handleStripeEvent(event);
+      res.json({ received: true, duplicate: !handled });
+    } catch (error: any) {
+      // Stripe retries failed deliveries with backoff
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post(
+    "/api/organizations/:organizationId/billing/create-checkout-session",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const { plan, successUrl, cancelUrl } = req.body;
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        if (!billingProvider) {
+          return res.status(503).json({ error: "Billing is not configured" });
+        }
+
+        const priceId = PAID_PLANS.includes(plan) ? billingProvider.prices[plan as PaidPlan] : undefined;
+        if (!priceId) {
+          return res.status(400).json({ error: `Plan must be one of ${PAID_PLANS.join(", ")}` });
+        }
+
+        // Checkout redirects to these, so they can't lead off the app
+        if (!isAppPath(successUrl) || !isAppPath(cancelUrl)) {
+          return res.status(400).json({ error: "successUrl and cancelUrl must be paths within the app, like /billing" });
+        }
+
+        const organization = await storage.getOrganization(organizationId);
+        if (!organization) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+
+        let customerId = organization.stripeCustomerId;
+
+        if (!customerId) {
+          customerId = await billingProvider.createCustomer(organizationId);
+          await storage.updateOrganization(organizationId, {
+            stripeCustomerId: customerId,
+          });
+        }
+
+        // Subscribing during the trial doesn't cut it short
+        const subscription = await storage.getSubscription(organizationId);
+        const url = await billingProvider.createCheckoutSession({
+          organizationId,
+          customerId,
+          priceId,
+          successUrl,
+          cancelUrl,
+          appUrl: process.env.APP_URL || `${req.protocol}://${req.get("host")}`,
+          trialEnd: isOnTrial(organization, subscription) ? organization.trialEnd! : undefined,
         });
 
+        res.json({ url });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/organizations/:organizationId/billing/create-portal-session",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const { returnUrl } = req.body;
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        if (!billingProvider) {
+          return res.status(503).json({ error: "Billing is not configured" });
+        }
+
+        const organization = await storage.getOrganization(organizationId);
+        if (!organization?.stripeCustomerId) {
+          return res.status(400).json({ error: "No billing account found" });
+        }
+
+        const url = await billingProvider.createPortalSession(organization.stripeCustomerId, returnUrl);
+
+        res.json({ url });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  app.get(
+    "/api/organizations/:organizationId/billing/usage",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        res.json(await getUsageSummary(req.params.organizationId));
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  if (billingProvider instanceof FakeBillingProvider) {
+    registerFakeBillingRoutes(app, billingProvider);
+  }
+
+  // Pipeline Management Routes
+  //
+  // These handlers are shared by the session routes under
+  // /api/organizations/:organizationId and the API-key routes under /api/v1.
+  // Both authenticate first and put the organization and acting member in
+  // req.orgMember.
+
+  // Request bodies. The organization comes from req.orgMember, and updates
+  // can't change it, ids or timestamps: unknown keys are rejected.
+  const pipelineBody = insertPipelineSchema.omit({ orgId: true });
+  const stageBody = insertStageSchema.omit({ orgId: true });
+  const leadBody = insertLeadSchema.omit({ orgId: true, airtableRecordId: true });
+  const pipelineUpdates = pipelineBody.partial().strict();
+  const stageUpdates = stageBody.partial().strict();
+  const leadUpdates = leadBody.partial().strict();
+
+  // Pipelines
+  const listPipelines = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const pipelines = await storage.getPipelines(organizationId);
+      res.json(pipelines);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const createPipeline = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const pipelineData = insertPipelineSchema.parse({
+        ...req.body,
+        orgId: organizationId,
+      });
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const violation = await checkPlanLimit(organizationId, "pipelines");
+      if (violation) {
+        return res.status(402).json(violation);
+      }
+
+      const pipeline = await storage.createPipeline(pipelineData);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "create",
+        entity: "pipeline",
+        entityId: pipeline.id,
+        metadata: { name: pipeline.name },
+      });
+      emitWebhookEvent(organizationId, "pipeline.created", { pipeline });
+
+      res.json(pipeline);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  const getPipeline = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { pipelineId } = req.params;
+
+      const pipeline = await storage.getPipeline(pipelineId, organizationId);
+      if (!pipeline) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      const stages = await storage.getStages(pipelineId, organizationId);
+      const leads = await storage.getLeadsByPipeline(
+        pipelineId,
+        organizationId
+      );
+
+      res.json({ pipeline, stages, leads });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const updatePipeline = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { pipelineId } = req.params;
+      const parsed = pipelineUpdates.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const updates = parsed.data;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const pipeline = await storage.updatePipeline(
+        pipelineId,
+        organizationId,
+        updates
+      );
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "update",
+        entity: "pipeline",
+        entityId: pipeline.id,
+        metadata: { updates },
+      });
+      emitWebhookEvent(organizationId, "pipeline.updated", { pipeline });
+
+      res.json(pipeline);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const deletePipeline = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { pipelineId } = req.params;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      await storage.deletePipeline(pipelineId, organizationId);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "delete",
+        entity: "pipeline",
+        entityId: pipelineId,
+        metadata: {},
+      });
+      emitWebhookEvent(organizationId, "pipeline.deleted", { pipeline: { id: pipelineId } });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Stages
+  const createStage = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const stageData = insertStageSchema.parse({
+        ...req.body,
+        orgId: organizationId,
+      });
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Verify pipeline access
+      const pipeline = await storage.getPipeline(
+        stageData.pipelineId,
+        organizationId
+      );
+      if (!pipeline) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      const stage = await storage.createStage(stageData);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "create",
+        entity: "stage",
+        entityId: stage.id,
+        metadata: { name: stage.name, pipelineId: stage.pipelineId },
+      });
+
+      res.json(stage);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  const updateStage = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { stageId } = req.params;
+      const parsed = stageUpdates.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const updates = parsed.data;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Stages can only move to a pipeline of the same organization
+      if (updates.pipelineId && !(await storage.getPipeline(updates.pipelineId, organizationId))) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      const stage = await storage.updateStage(
+        stageId,
+        organizationId,
+        updates
+      );
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "update",
+        entity: "stage",
+        entityId: stage.id,
+        metadata: { updates },
+      });
+
+      res.json(stage);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const deleteStage = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { stageId } = req.params;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      await storage.deleteStage(stageId, organizationId);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "delete",
+        entity: "stage",
+        entityId: stageId,
+        metadata: {},
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const reorderStages = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { pipelineId, stageOrders } = req.body;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      await storage.reorderStages(pipelineId, organizationId, stageOrders);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "reorder",
+        entity: "stage",
+        entityId: pipelineId,
+        metadata: { stageOrders },
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Leads
+  const createLead = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const leadData = insertLeadSchema.parse({
+        ...req.body,
+        orgId: organizationId,
+      });
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Verify stage access
+      const stage = await storage.getStage(leadData.stageId, organizationId);
+      if (!stage) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+
+      const lead = await storage.createLead(leadData);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "create",
+        entity: "lead",
+        entityId: lead.id,
+        metadata: {
+          name: lead.name,
+          email: lead.email,
+          stageId: lead.stageId,
+        },
+      });
+      emitWebhookEvent(organizationId, "lead.created", { lead });
+
+      res.json(lead);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  const getLead = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId } = req.params;
+
+      const lead = await storage.getLead(leadId, organizationId);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const comments = await storage.getLeadComments(leadId, organizationId);
+
+      res.json({ lead, comments });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const updateLead = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId } = req.params;
+      const parsed = leadUpdates.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const updates = parsed.data;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Leads can only move to a stage of the same organization
+      if (updates.stageId && !(await storage.getStage(updates.stageId, organizationId))) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+
+      const previous = await storage.getLead(leadId, organizationId);
+      if (!previous) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const lead = await storage.updateLead(leadId, organizationId, updates);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "update",
+        entity: "lead",
+        entityId: lead.id,
+        metadata: { updates },
+      });
+      emitWebhookEvent(organizationId, "lead.updated", { lead });
+      // Changing the stage here is a move too, as with POST /leads/:leadId/move
+      if (updates.stageId && updates.stageId !== previous.stageId) {
+        emitWebhookEvent(organizationId, "lead.moved", {
+          lead,
+          fromStageId: previous.stageId,
+          toStageId: updates.stageId,
+        });
+      }
+
+      res.json(lead);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const deleteLead = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId } = req.params;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      await storage.deleteLead(leadId, organizationId);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "delete",
+        entity: "lead",
+        entityId: leadId,
+        metadata: {},
+      });
+      emitWebhookEvent(organizationId, "lead.deleted", { lead: { id: leadId } });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  const moveLead = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId } = req.params;
+      const { stageId } = req.body;
+
+      if (!["admin", "editor"].includes(req.orgMember.role)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Verify stage access
+      const stage = await storage.getStage(stageId, organizationId);
+      if (!stage) {
+        return res.status(404).json({ error: "Stage not found" });
+      }
+
+      const previous = await storage.getLead(leadId, organizationId);
+      if (!previous) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const lead = await storage.moveLeadToStage(
+        leadId,
+        stageId,
+        organizationId
+      );
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "move",
+        entity: "lead",
+        entityId: lead.id,
+        metadata: { newStageId: stageId, stageName: stage.name },
+      });
+      emitWebhookEvent(organizationId, "lead.moved", {
+        lead,
+        fromStageId: previous.stageId,
+        toStageId: stageId,
+      });
+
+      res.json(lead);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Lead Comments
+  const createLeadComment = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId } = req.params;
+      const { body } = req.body;
+
+      // Extract @username mentions
+      const mentionRegex = /@(\w+)/g;
+      const mentions = [];
+      let match;
+      while ((match = mentionRegex.exec(body)) !== null) {
+        mentions.push(match[1]);
+      }
+
+      // Find mentioned users in organization
+      const mentionedUserIds = [];
+      if (mentions.length > 0) {
+        const orgMembers = await storage.getOrgMembers(organizationId);
+        const membersByUsername = new Map(
+          orgMembers.map((m) => [
+            m.user.name.toLowerCase().replace(/\s+/g, ""),
+            m.user.id,
+          ])
+        );
+
+        for (const mention of mentions) {
+          const userId = membersByUsername.get(mention.toLowerCase());
+          if (userId && userId !== req.orgMember.userId) {
+            mentionedUserIds.push(userId);
+          }
+        }
+      }
+
+      const commentData = insertLeadCommentSchema.parse({
+        orgId: organizationId,
+        leadId,
+        body,
+        userId: req.orgMember.userId,
+        mentionedUserIds:
+          mentionedUserIds.length > 0 ? mentionedUserIds : null,
+      });
+
+      const comment = await storage.createLeadComment(commentData);
+
+      // Send email notifications for mentions (webhook simulation)
+      if (mentionedUserIds.length > 0) {
+        const lead = await storage.getLead(leadId, organizationId);
+        const user = await storage.getUserById(req.orgMember.userId);
+
+        for (const mentionedUserId of mentionedUserIds) {
+          const mentionedUser = await storage.getUserById(mentionedUserId);
+          if (mentionedUser) {
+            // In a real implementation, this would send an actual email
+            console.log(
+              `Email notification: ${user?.name} mentioned ${mentionedUser.name} in lead "${lead?.name}"`
+            );
+
+            await storage.createAuditLog({
+              orgId: organizationId,
+              actorId: req.orgMember.userId,
+              action: "mention",
+              entity: "user",
+              entityId: mentionedUserId,
+              metadata: {
+                leadId,
+                leadName: lead?.name,
+                commentBody: body,
+                mentionedUserEmail: mentionedUser.email,
+              },
+            });
+          }
+        }
+      }
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "create",
+        entity: "comment",
+        entityId: comment.id,
+        metadata: { leadId, body: body.substring(0, 100) },
+      });
+      emitWebhookEvent(organizationId, "lead.commented", { leadId, comment });
+
+      res.json(comment);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  const deleteLeadComment = async (req: Request, res: Response) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const { leadId, commentId } = req.params;
+
+      // Only allow comment author or admin to delete
+      const comments = await storage.getLeadComments(leadId, organizationId);
+      const comment = comments.find((c) => c.id === commentId);
+
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      if (
+        comment.userId !== req.orgMember.userId &&
+        req.orgMember.role !== "admin"
+      ) {
+        return res
+          .status(403)
+          .json({ error: "Can only delete your own comments" });
+      }
+
+      await storage.deleteLeadComment(commentId, organizationId);
+
+      await storage.createAuditLog({
+        orgId: organizationId,
+        actorId: req.orgMember.userId,
+        action: "delete",
+        entity: "comment",
+        entityId: commentId,
+        metadata: { leadId },
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Members are also listed through the shared route table below
+  const listMembers: RequestHandler = async (req, res) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const members = await storage.getOrgMembers(organizationId);
+      res.json(members);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Audit Logs
+  const listAuditLogs: RequestHandler = async (req, res) => {
+    try {
+      const { orgId: organizationId } = req.orgMember;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const before = parseInt(req.query.before as string) || undefined;
+      const logs = await storage.getAuditLogs(organizationId, limit, before);
+      res.json(logs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Each route is served to the app under its organization and to API keys
+  // under /api/v1, where the key must hold the listed scope
+  const { Pipeline, Stage, Lead, LeadComment, Member, AuditLog, Success } = apiModels;
+
+  const pipelineRoutes: ApiRoute[] = [
+    {
+      method: "get", path: "/pipelines", handler: listPipelines, scope: "leads:read",
+      summary: "List pipelines",
+      response: z.array(Pipeline),
+    },
+    {
+      method: "post", path: "/pipelines", handler: createPipeline, scope: "pipelines:admin",
+      summary: "Create a pipeline",
+      body: pipelineBody,
+      response: Pipeline,
+    },
+    {
+      method: "get", path: "/pipelines/:pipelineId", handler: getPipeline, scope: "leads:read",
+      summary: "Get a pipeline with its stages and leads",
+      response: z.object({ pipeline: Pipeline, stages: z.array(Stage), leads: z.array(Lead) }),
+    },
+    {
+      method: "put", path: "/pipelines/:pipelineId", handler: updatePipeline, scope: "pipelines:admin",
+      summary: "Update a pipeline",
+      body: pipelineUpdates,
+      response: Pipeline,
+    },
+    {
+      method: "delete", path: "/pipelines/:pipelineId", handler: deletePipeline, scope: "pipelines:admin",
+      summary: "Delete a pipeline with its stages and leads",
+      response: Success,
+    },
+    {
+      method: "post", path: "/stages", handler: createStage, scope: "pipelines:admin",
+      summary: "Create a stage",
+      body: stageBody,
+      response: Stage,
+    },
+    {
+      method: "put", path: "/stages/:stageId", handler: updateStage, scope: "pipelines:admin",
+      summary: "Update a stage",
+      body: stageUpdates,
+      response: Stage,
+    },
+    {
+      method: "delete", path: "/stages/:stageId", handler: deleteStage, scope: "pipelines:admin",
+      summary: "Delete a stage with its leads",
+      response: Success,
+    },
+    {
+      method: "post", path: "/stages/reorder", handler: reorderStages, scope: "pipelines:admin",
+      summary: "Reorder the stages of a pipeline",
+      body: z.object({
+        pipelineId: z.string().uuid(),
+        stageOrders: z.array(z.object({ id: z.string().uuid(), order: z.number().int() })),
+      }),
+      response: Success,
+    },
+    {
+      method: "post", path: "/leads", handler: createLead, scope: "leads:write",
+      summary: "Create a lead",
+      body: leadBody,
+      response: Lead,
+    },
+    {
+      method: "get", path: "/leads/:leadId", handler: getLead, scope: "leads:read",
+      summary: "Get a lead with its comments",
+      response: z.object({ lead: Lead, comments: z.array(LeadComment) }),
+    },
+    {
+      method: "put", path: "/leads/:leadId", handler: updateLead, scope: "leads:write",
+      summary: "Update a lead",
+      body: leadUpdates,
+      response: Lead,
+    },
+    {
+      method: "delete", path: "/leads/:leadId", handler: deleteLead, scope: "leads:write",
+      summary: "Delete a lead",
+      response: Success,
+    },
+    {
+      method: "post", path: "/leads/:leadId/move", handler: moveLead, scope: "leads:write",
+      summary: "Move a lead to another stage",
+      body: z.object({ stageId: z.string().uuid() }),
+      response: Lead,
+    },
+    {
+      method: "post", path: "/leads/:leadId/comments", handler: createLeadComment, scope: "leads:write",
+      summary: "Comment on a lead, notifying @mentioned members",
+      body: z.object({ body: z.string().min(1) }),
+      response: LeadComment,
+    },
+    {
+      method: "delete", path: "/leads/:leadId/comments/:commentId", handler: deleteLeadComment, scope: "leads:write",
+      summary: "Delete a comment",
+      response: Success,
+    },
+    {
+      method: "get", path: "/members", handler: listMembers, scope: "members:read",
+      summary: "List organization members",
+      response: z.array(Member),
+    },
+    {
+      method: "get", path: "/audit-logs", handler: listAuditLogs, scope: "audit:read",
+      summary: "List audit log entries, newest first",
+      query: z.object({
+        limit: z.number().int().positive().max(200).default(50),
+        before: z.number().int().optional().describe("Only return entries with a lower id, to page back"),
+      }),
+      response: z.array(AuditLog),
+    },
+  ];
+
+  // Every API request counts against the plan's monthly operations, and so do
+  // changes to leads made in the app. Writes to pipelines over the plan's limit
+  // are refused, except deleting them.
+  for (const { method, path, handler, scope } of pipelineRoutes) {
+    const readOnlyCheck = method === "get" || handler === deletePipeline ? [] : [rejectReadOnlyPipelineWrites];
+    app[method](
+      `/api/organizations/:organizationId${path}`,
+      requireAuth,
+      requireOrgAccess,
+      ...readOnlyCheck,
+      ...(scope === "leads:write" ? [meterOperations] : []),
+      handler
+    );
+    app[method](`/api/v1${path}`, requireApiKey, planRateLimit, rejectRestrictedWrites, requireScope(scope), ...readOnlyCheck, meterOperations, handler);
+  }
+
+  const openApiDocument = buildOpenApiDocument(pipelineRoutes);
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  // Cron: for schedulers outside the app (e.g. Replit Scheduled Deployments)
+  // and for running a job by hand
+  app.get("/api/cron", requireCronSecret, async (_req, res) => {
+    try {
+      res.json(await getCronJobStatuses());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/cron/:job", requireCronSecret, async (req, res) => {
+    try {
+      const { job } = req.params;
+      if (!isCronJobName(job)) {
+        return res.status(404).json({ error: `Unknown cron job "${job}"` });
+      }
+
+      res.status(202).json(await triggerCronJob(job));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Airtable Integration for Pipelines
+  app.post(
+    "/api/organizations/:organizationId/airtable/sync",
+    requireAuth,
+    requireOrgAccess,
+    async (req, res) => {
+      try {
+        const { organizationId } = req.params;
+        const { direction = "both" } = req.body; // 'push', 'pull', or 'both'
+
+        if (req.orgMember.role !== "admin") {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+
+        const limit = await checkOperationsLimit(organizationId);
+        if (limit) {
+          return res.status(402).json(limit);
+        }
+
+        const result = await syncAirtable(organizationId, direction, req.session.userId!);
+        if (!result) {
+          return res
+            .status(400)
+            .json({ error: "Airtable configuration incomplete" });
+        }
+
         res.json({
           success: true,
-          syncedLeads,
-          syncedStages,
-          direction,
+          ...result,
           timestamp: new Date().toISOString(),
         });
       } catch (error: any) {
@@ -1245,7 +2519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         await storage.setSetting({
           orgId: organizationId,
-          key: "airtable.baseId",
+          key: AIRTABLE_BASE_ID_SETTING,
           value: baseId,
           updatedBy: req.session.userId!,
         });
@@ -1253,7 +2527,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (req.body.apiKey) {
           await storage.setSetting({
             orgId: organizationId,
-            key: "airtable.apiKey",
+            key: AIRTABLE_API_KEY_SETTING,
             value: airtableKey,
             updatedBy: req.session.userId!,
           });
@@ -0,0 +1,82 @@
+import { spawnSync } from "child_process";
+import { describe, expect, it } from "vitest";
+import { hashApiKey } from "./api-keys";
+import { seedDemoTenant } from "./seed";
+import { MemStorage, type IStorage } from "./storage";
+
+const LEADS = 30;
+
+// The fixture data that should come out the same for the same seed
+async function snapshot(storage: IStorage, orgId: string) {
+  const pipelines = await storage.getPipelines(orgId);
+  const leads = [];
+  for (const pipeline of pipelines) {
+    for (const lead of await storage.getLeadsByPipeline(pipeline.id, orgId)) {
+      leads.push({ pipeline: pipeline.name, stage: lead.stageName, name: lead.name, email: lead.email, source: lead.source });
+    }
+  }
+  return leads.sort((a, b) => a.email.localeCompare(b.email));
+}
+
+describe("seedDemoTenant", () => {
+  it("builds the same fixtures from the same seed", async () => {
+    const first = new MemStorage();
+    const second = new MemStorage();
+    const a = await seedDemoTenant(first, { seed: 7, leads: LEADS });
+    const b = await seedDemoTenant(second, { seed: 7, leads: LEADS });
+
+    expect(a.leads).toBe(LEADS);
+    expect(b.comments).toBe(a.comments);
+    expect(await snapshot(second, b.organizations[0].id)).toEqual(await snapshot(first, a.organizations[0].id));
+  });
+
+  it("builds different fixtures from another seed", async () => {
+    const first = new MemStorage();
+    const second = new MemStorage();
+    const a = await seedDemoTenant(first, { seed: 7, leads: LEADS });
+    const b = await seedDemoTenant(second, { seed: 8, leads: LEADS });
+
+    expect(await snapshot(second, b.organizations[0].id)).not.toEqual(await snapshot(first, a.organizations[0].id));
+  });
+
+  it("issues random API keys and a random password", async () => {
+    const first = new MemStorage();
+    const a = await seedDemoTenant(first, { seed: 7, leads: 0 });
+    const b = await seedDemoTenant(new MemStorage(), { seed: 7, leads: 0 });
+
+    expect(a.password).not.toBe(b.password);
+    expect(a.apiKeys.map((key) => key.keyValue)).not.toEqual(b.apiKeys.map((key) => key.keyValue));
+    for (const { keyValue } of a.apiKeys) {
+      expect((await first.getApiKeyByHash(hashApiKey(keyValue)))?.orgId).toBe(a.organizations[0].id);
+    }
+    expect((await first.verifyPassword(a.users.owner.email, a.password))?.id).toBe(a.users.owner.id);
+  });
+
+  it("uses the password it's given", async () => {
+    const storage = new MemStorage();
+    const result = await seedDemoTenant(storage, { leads: 0, password: "let me in" });
+
+    expect(result.password).toBe("let me in");
+    expect(await storage.verifyPassword(result.users.viewer.email, "let me in")).toBeDefined();
+  });
+
+  it("refuses to seed a second demo tenant", async () => {
+    const storage = new MemStorage();
+    await seedDemoTenant(storage, { leads: 0 });
+
+    await expect(seedDemoTenant(storage, { leads: 0 })).rejects.toThrow("Demo tenant already exists");
+  });
+});
+
+describe("npm run seed", () => {
+  it("refuses to run with NODE_ENV=production", () => {
+    const result = spawnSync("node_modules/.bin/tsx", ["server/commands/seed.ts"], {
+      env: { ...process.env, NODE_ENV: "production" },
+      encoding: "utf8",
+      timeout: 30_000,
+    });
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("Refusing to seed with NODE_ENV=production");
+  }, 30_000);
+});
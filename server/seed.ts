@@ -0,0 +1,263 @@
+import { randomBytes } from "crypto";
+import { generateApiKey } from "./api-keys";
+import type { IStorage } from "./storage";
+import { API_KEY_SCOPES, type InsertAuditLog, type Lead, type Organization, type User } from "@shared/schema";
+
+// The seed makes the fixture data reproducible. Credentials aren't derived
+// from it: API keys are always random, and so is the password unless given.
+export interface SeedOptions {
+  seed?: number;
+  leads?: number;
+  password?: string;
+}
+
+export interface SeedResult {
+  password: string;
+  users: { owner: User; editor: User; viewer: User };
+  organizations: Organization[];
+  apiKeys: { name: string; keyValue: string }[];
+  leads: number;
+  comments: number;
+}
+
+export const DEMO_OWNER_EMAIL = "owner@demo.test";
+
+const FIRST_NAMES = ["Ava", "Liam", "Mia", "Noah", "Zoe", "Omar", "Ivy", "Leo", "Nina", "Hugo", "Sara", "Yusuf", "Elena", "Kai", "Priya", "Mateo"];
+const LAST_NAMES = ["Nguyen", "Garcia", "Smith", "Okafor", "Rossi", "Kim", "Novak", "Silva", "Haddad", "Berg", "Tanaka", "Moreau", "Patel", "Walsh"];
+const COMPANIES = ["Northwind", "Initech", "Umbrella", "Hooli", "Stark Industries", "Wayne Enterprises", "Soylent", "Vandelay", "Cyberdyne", "Wonka"];
+const SOURCES = ["website", "referral", "linkedin", "conference", "cold outreach", "airtable"];
+const NOTES = [
+  "Asked for a pricing breakdown.",
+  "Wants a demo next week.",
+  "Currently evaluating competitors.",
+  "Budget approved for Q3.",
+  "Needs SSO before signing.",
+  null,
+];
+
+const PIPELINES = [
+  { name: "Sales", stages: ["New", "Contacted", "Qualified", "Proposal", "Won", "Lost"] },
+  { name: "Partnerships", stages: ["Sourced", "Intro Call", "Negotiation", "Signed"] },
+];
+
+// mulberry32: small, fast and good enough to make fixtures reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * max),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+// Mentions are matched against the member's name with whitespace removed
+function mentionHandle(user: User) {
+  return user.name.toLowerCase().replace(/\s+/g, "");
+}
+
+export async function seedDemoTenant(storage: IStorage, options: SeedOptions = {}): Promise<SeedResult> {
+  const random = createRandom(options.seed ?? 42);
+  const leadCount = options.leads ?? 300;
+  const password = options.password ?? randomBytes(12).toString("base64url");
+
+  if (await storage.getUserByEmail(DEMO_OWNER_EMAIL)) {
+    throw new Error(`Demo tenant already exists (${DEMO_OWNER_EMAIL})`);
+  }
+
+  const audit = (log: InsertAuditLog) => storage.createAuditLog(log);
+
+  // Users
+  const owner = await storage.createUser({ email: DEMO_OWNER_EMAIL, passwordHash: password, name: "Olivia Park" });
+  const editor = await storage.createUser({ email: "editor@demo.test", passwordHash: password, name: "Ethan Cole" });
+  const viewer = await storage.createUser({ email: "viewer@demo.test", passwordHash: password, name: "Vera Lane" });
+
+  // Organizations
+  const acme = await storage.createOrganization({ name: "Acme Corp" }, owner.id);
+  const globex = await storage.createOrganization({ name: "Globex" }, owner.id);
+
+  for (const org of [acme, globex]) {
+    await audit({
+      orgId: org.id,
+      actorId: owner.id,
+      action: "create",
+      entity: "organization",
+      entityId: org.id,
+      metadata: { name: org.name },
+    });
+  }
+
+  const organizations = [await storage.updateOrganization(acme.id, { plan: "pro" }), globex];
+  await storage.updateSubscription(acme.id, { plan: "pro", status: "active" });
+
+  // Members
+  for (const [org, member, role] of [
+    [acme, editor, "editor"],
+    [acme, viewer, "viewer"],
+    [globex, editor, "viewer"],
+  ] as const) {
+    await storage.addOrgMember({
+      orgId: org.id,
+      userId: member.id,
+      role,
+      invitedBy: owner.id,
+      acceptedAt: new Date(),
+    });
+
+    await audit({
+      orgId: org.id,
+      actorId: owner.id,
+      action: "invite",
+      entity: "member",
+      entityId: member.id,
+      metadata: { email: member.email, role },
+    });
+  }
+
+  // API keys, generated the same way as POST /api-keys
+  const apiKeys: SeedResult["apiKeys"] = [];
+  for (const name of ["Production API", "Zapier"]) {
+    const { keyValue, keyHash, keyPreview } = generateApiKey();
+    const apiKey = await storage.createApiKey({
+      orgId: acme.id,
+      name,
+      keyHash,
+      keyPreview,
+      scopes: [...API_KEY_SCOPES],
+      createdBy: owner.id,
+    });
+
+    await audit({
+      orgId: acme.id,
+      actorId: owner.id,
+      action: "create",
+      entity: "api_key",
+      entityId: apiKey.id,
+      metadata: { name },
+    });
+
+    apiKeys.push({ name, keyValue });
+  }
+
+  // Pipelines and ordered stages
+  const stageIds: string[] = [];
+  for (const definition of PIPELINES) {
+    const pipeline = await storage.createPipeline({ orgId: acme.id, name: definition.name });
+    await audit({
+      orgId: acme.id,
+      actorId: owner.id,
+      action: "create",
+      entity: "pipeline",
+      entityId: pipeline.id,
+      metadata: { name: pipeline.name },
+    });
+
+    for (let order = 0; order < definition.stages.length; order++) {
+      const name = definition.stages[order];
+      const stage = await storage.createStage({ orgId: acme.id, pipelineId: pipeline.id, name, order });
+      stageIds.push(stage.id);
+
+      await audit({
+        orgId: acme.id,
+        actorId: owner.id,
+        action: "create",
+        entity: "stage",
+        entityId: stage.id,
+        metadata: { name: stage.name, pipelineId: stage.pipelineId },
+      });
+    }
+  }
+
+  // Leads
+  const authors = [owner, editor];
+  const leads: Lead[] = [];
+  for (let i = 0; i < leadCount; i++) {
+    const first = random.pick(FIRST_NAMES);
+    const last = random.pick(LAST_NAMES);
+    const company = random.pick(COMPANIES);
+    const author = random.pick(authors);
+
+    const lead = await storage.createLead({
+      orgId: acme.id,
+      stageId: random.pick(stageIds),
+      name: `${first} ${last}`,
+      email: `${first}.${last}${i}@${company.toLowerCase().replace(/\s+/g, "")}.test`.toLowerCase(),
+      source: random.pick(SOURCES),
+      notes: random.pick(NOTES),
+    });
+    leads.push(lead);
+
+    await audit({
+      orgId: acme.id,
+      actorId: author.id,
+      action: "create",
+      entity: "lead",
+      entityId: lead.id,
+      metadata: { name: lead.name, email: lead.email, stageId: lead.stageId },
+    });
+  }
+
+  // Comments, a third of which mention the other author
+  let comments = 0;
+  for (const lead of leads) {
+    const count = random.int(3);
+    for (let i = 0; i < count; i++) {
+      const author = random.pick(authors);
+      const other = author.id === owner.id ? editor : owner;
+      const mentions = random.next() < 0.33;
+      const body = mentions
+        ? `@${mentionHandle(other)} can you follow up with ${lead.name}?`
+        : random.pick(["Left a voicemail.", "Sent the deck.", "Scheduled a call.", "Waiting on legal."]);
+
+      const comment = await storage.createLeadComment({
+        orgId: acme.id,
+        leadId: lead.id,
+        body,
+        userId: author.id,
+        mentionedUserIds: mentions ? [other.id] : null,
+      });
+      comments++;
+
+      if (mentions) {
+        await audit({
+          orgId: acme.id,
+          actorId: author.id,
+          action: "mention",
+          entity: "user",
+          entityId: other.id,
+          metadata: {
+            leadId: lead.id,
+            leadName: lead.name,
+            commentBody: body,
+            mentionedUserEmail: other.email,
+          },
+        });
+      }
+
+      await audit({
+        orgId: acme.id,
+        actorId: author.id,
+        action: "create",
+        entity: "comment",
+        entityId: comment.id,
+        metadata: { leadId: lead.id, body: body.substring(0, 100) },
+      });
+    }
+  }
+
+  return {
+    password,
+    users: { owner, editor, viewer },
+    organizations,
+    apiKeys,
+    leads: leads.length,
+    comments,
+  };
+}
@@ -0,0 +1,81 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { PGlite } from "@electric-sql/pglite";
+import { dbClient } from "./db";
+
+const PgStore = connectPgSimple(session);
+const MemoryStore = createMemoryStore(session);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionConfig {
+  secret: string;
+  secure: boolean;
+  sameSite: "lax" | "strict" | "none";
+  maxAge: number;
+}
+
+export function getSessionConfig(): SessionConfig {
+  const isProduction = process.env.NODE_ENV === "production";
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret && isProduction) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sameSite = process.env.SESSION_COOKIE_SAMESITE || "lax";
+  if (sameSite !== "lax" && sameSite !== "strict" && sameSite !== "none") {
+    throw new Error(`Invalid SESSION_COOKIE_SAMESITE "${sameSite}"`);
+  }
+
+  const secure = process.env.SESSION_COOKIE_SECURE
+    ? process.env.SESSION_COOKIE_SECURE === "true"
+    : isProduction;
+
+  // Browsers reject SameSite=None cookies that are not Secure
+  if (sameSite === "none" && !secure) {
+    throw new Error("SESSION_COOKIE_SAMESITE=none requires SESSION_COOKIE_SECURE=true");
+  }
+
+  return {
+    secret: secret || "dev-secret-change-in-production",
+    secure,
+    sameSite,
+    maxAge: parseInt(process.env.SESSION_MAX_AGE_MS || "", 10) || DAY_MS,
+  };
+}
+
+function createStore(): session.Store {
+  if (!dbClient) {
+    // Prunes expired sessions, unlike express-session's default MemoryStore
+    return new MemoryStore({ checkPeriod: DAY_MS });
+  }
+
+  if (dbClient instanceof PGlite) {
+    const client = dbClient;
+    return new PgStore({
+      pgPromise: { any: async (query: string, params: unknown[]) => (await client.query(query, params)).rows },
+      tableName: "session",
+    });
+  }
+
+  return new PgStore({ pool: dbClient, tableName: "session" });
+}
+
+export function createSessionMiddleware(config: SessionConfig = getSessionConfig()) {
+  return session({
+    store: createStore(),
+    secret: config.secret,
+    resave: false,
+    saveUninitialized: false,
+    // Every response pushes the expiry forward, so active users stay signed in
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      secure: config.secure,
+      sameSite: config.sameSite,
+      maxAge: config.maxAge,
+    },
+  });
+}
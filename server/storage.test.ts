@@ -0,0 +1,124 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { DbStorage } from "./db-storage";
+import { MemStorage, type IStorage } from "./storage";
+
+// An embedded, in-memory Postgres with every migration applied
+async function createPgliteStorage(): Promise<IStorage> {
+  const db = drizzle(new PGlite(), { schema });
+  await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+  return new DbStorage(db);
+}
+
+// The same behaviour is expected of both implementations
+describe.each([
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage on pglite", createPgliteStorage],
+])("%s", (_name, createStorage: () => Promise<IStorage>) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  async function createOwnerAndOrganization() {
+    const owner = await storage.createUser({
+      email: `${randomUUID()}@example.test`,
+      passwordHash: "correct horse",
+      name: "Owner",
+    });
+    const organization = await storage.createOrganization({ name: "Acme" }, owner.id);
+    return { owner, organization };
+  }
+
+  it("hashes passwords and verifies them", async () => {
+    const { owner } = await createOwnerAndOrganization();
+
+    expect(owner.passwordHash).not.toBe("correct horse");
+    expect((await storage.verifyPassword(owner.email, "correct horse"))?.id).toBe(owner.id);
+    expect(await storage.verifyPassword(owner.email, "wrong")).toBeUndefined();
+  });
+
+  it("makes the creator an admin of a new organization on the free plan", async () => {
+    const { owner, organization } = await createOwnerAndOrganization();
+
+    expect((await storage.getOrgMember(organization.id, owner.id))?.role).toBe("admin");
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "free" });
+    const user = await storage.getUserWithOrganizations(owner.id);
+    expect(user?.organizations.map((org) => org.id)).toContain(organization.id);
+  });
+
+  it("keeps pipelines, stages and leads inside their organization", async () => {
+    const { organization } = await createOwnerAndOrganization();
+    const { organization: other } = await createOwnerAndOrganization();
+
+    const pipeline = await storage.createPipeline({ orgId: organization.id, name: "Sales" });
+    const stage = await storage.createStage({ orgId: organization.id, pipelineId: pipeline.id, name: "New", order: 0 });
+    const lead = await storage.createLead({ orgId: organization.id, stageId: stage.id, name: "Ada", email: "ada@example.test" });
+
+    expect(await storage.getPipeline(pipeline.id, other.id)).toBeUndefined();
+    expect(await storage.getStage(stage.id, other.id)).toBeUndefined();
+    expect(await storage.getLead(lead.id, other.id)).toBeUndefined();
+    expect((await storage.getLeadsByPipeline(pipeline.id, organization.id)).map((l) => l.id)).toEqual([lead.id]);
+  });
+
+  it("orders stages and moves leads between them", async () => {
+    const { organization } = await createOwnerAndOrganization();
+    const pipeline = await storage.createPipeline({ orgId: organization.id, name: "Sales" });
+    const first = await storage.createStage({ orgId: organization.id, pipelineId: pipeline.id, name: "New", order: 0 });
+    const second = await storage.createStage({ orgId: organization.id, pipelineId: pipeline.id, name: "Won", order: 1 });
+
+    await storage.reorderStages(pipeline.id, organization.id, [
+      { id: first.id, order: 1 },
+      { id: second.id, order: 0 },
+    ]);
+    expect((await storage.getStages(pipeline.id, organization.id)).map((stage) => stage.name)).toEqual(["Won", "New"]);
+
+    const lead = await storage.createLead({ orgId: organization.id, stageId: first.id, name: "Ada", email: "ada@example.test" });
+    await storage.moveLeadToStage(lead.id, second.id, organization.id);
+    expect((await storage.getLead(lead.id, organization.id))?.stageId).toBe(second.id);
+  });
+
+  it("records a Stripe event only once", async () => {
+    const id = `evt_${randomUUID()}`;
+
+    expect(await storage.recordStripeEvent(id, "invoice.paid")).toBe(true);
+    expect(await storage.recordStripeEvent(id, "invoice.paid")).toBe(false);
+    await storage.deleteStripeEvent(id);
+    expect(await storage.recordStripeEvent(id, "invoice.paid")).toBe(true);
+  });
+
+  it("counts metered usage", async () => {
+    const { organization } = await createOwnerAndOrganization();
+
+    await storage.incrementMeteredUsage(organization.id, "operations", 2);
+    const subscription = await storage.incrementMeteredUsage(organization.id, "operations", 3);
+    expect(subscription.metered).toEqual({ operations: 5 });
+  });
+
+  it("hands each due job to one claim only", async () => {
+    const { organization } = await createOwnerAndOrganization();
+    const due = await storage.enqueueJob({ type: "trials.process", payload: {}, orgId: organization.id, runAt: new Date() });
+    const later = await storage.enqueueJob({
+      type: "trials.process",
+      payload: {},
+      orgId: organization.id,
+      runAt: new Date(Date.now() + 60_000),
+    });
+    const lockedUntil = new Date(Date.now() + 60_000);
+
+    const [first, second] = await Promise.all([
+      storage.claimJobs(100, lockedUntil),
+      storage.claimJobs(100, lockedUntil),
+    ]);
+    const claimed = [...first, ...second].filter((job) => job.id === due.id || job.id === later.id);
+
+    expect(claimed).toHaveLength(1);
+    expect(claimed[0]).toMatchObject({ id: due.id, status: "running", attempts: 1 });
+  });
+});
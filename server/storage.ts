@@ -1,6 +1,8 @@
-import { type User, type InsertUser, type Organization, type InsertOrganization, type OrgMember, type InsertOrgMember, type ApiKey, type InsertApiKey, type Setting, type InsertSetting, type AuditLog, type InsertAuditLog, type AuthUser, type UserWithOrganizations, type Subscription, type Pipeline, type InsertPipeline, type Stage, type InsertStage, type Lead, type InsertLead, type LeadComment, type InsertLeadComment } from "@shared/schema";
+import { type User, type InsertUser, type Organization, type InsertOrganization, type OrgMember, type InsertOrgMember, type Invitation, type InsertInvitation, type ApiKey, type InsertApiKey, type ApiKeyUsage, type InsertApiKeyUsage, type ApiKeyUsageStats, type WebhookEndpoint, type InsertWebhookEndpoint, type WebhookDelivery, type InsertWebhookDelivery, type Job, type InsertJob, type JobStatus, type JobQueueStats, type CronRun, type InsertCronRun, type StripeEvent, type UsageReport, type InsertUsageReport, type Setting, type InsertSetting, type AuditLog, type InsertAuditLog, type AuthUser, type UserWithOrganizations, type Subscription, type Pipeline, type InsertPipeline, type Stage, type InsertStage, type Lead, type InsertLead, type LeadComment, type InsertLeadComment } from "@shared/schema";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
+import { db } from "./db";
+import { DbStorage } from "./db-storage";
 
 export interface IStorage {
   // Auth
@@ -14,7 +16,14 @@ export interface IStorage {
   createOrganization(org: InsertOrganization, ownerId: string): Promise<Organization>;
   getOrganization(id: string): Promise<Organization | undefined>;
   getOrganizationsByUser(userId: string): Promise<Organization[]>;
+  getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined>;
   updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization>;
+  getDeletedOrganizations(ownerId: string): Promise<Organization[]>;
+  getOrganizationsDeletedBefore(cutoff: Date): Promise<Organization[]>;
+  // Organizations on a paid plan without a subscription whose trial ends
+  // before `cutoff`
+  getOrganizationsWithTrialEndingBefore(cutoff: Date): Promise<Organization[]>;
+  deleteOrganization(id: string): Promise<void>;
   
   // Organization Members
   addOrgMember(member: InsertOrgMember): Promise<OrgMember>;
@@ -23,24 +32,99 @@ export interface IStorage {
   updateOrgMemberRole(orgId: string, userId: string, role: string): Promise<OrgMember>;
   removeOrgMember(orgId: string, userId: string): Promise<void>;
   
+  // Invitations
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  getInvitation(id: string): Promise<Invitation | undefined>;
+  getPendingInvitations(orgId: string): Promise<Invitation[]>;
+  updateInvitation(id: string, updates: Partial<Invitation>): Promise<Invitation>;
+  // Removes invitations that expired before `cutoff` without being accepted
+  deleteInvitationsExpiredBefore(cutoff: Date): Promise<number>;
+  
   // API Keys
   createApiKey(apiKey: InsertApiKey & { keyHash: string; keyPreview: string }): Promise<ApiKey>;
   getApiKeys(orgId: string): Promise<ApiKey[]>;
   getApiKeyByHash(keyHash: string): Promise<(ApiKey & { organization: Organization }) | undefined>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey>;
   deleteApiKey(id: string, orgId: string): Promise<void>;
+  // Keys that expired before `cutoff` without the audit log recording it yet
+  getUnrecordedExpiredApiKeys(cutoff: Date): Promise<ApiKey[]>;
+
+  // API key usage
+  recordApiKeyUsage(usage: InsertApiKeyUsage): Promise<void>;
+  getApiKeyUsageStats(apiKeyId: string, orgId: string, since: Date): Promise<ApiKeyUsageStats>;
+  deleteApiKeyUsageBefore(orgId: string, cutoff: Date): Promise<void>;
+
+  // Webhooks
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string }): Promise<WebhookEndpoint>;
+  getWebhookEndpoints(orgId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string, orgId: string): Promise<WebhookEndpoint | undefined>;
+  updateWebhookEndpoint(id: string, orgId: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(id: string, orgId: string): Promise<void>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string, orgId: string): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  getWebhookDeliveries(endpointId: string, orgId: string, limit?: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery>;
+  // Leaves pending deliveries alone, however old
+  deleteWebhookDeliveriesBefore(cutoff: Date): Promise<number>;
+
+  // Job queue
+  enqueueJob(job: InsertJob): Promise<Job>;
+  // Marks up to `limit` due jobs running until `lockedUntil` and returns them.
+  // Pending jobs are due at runAt, running ones once their lock has lapsed.
+  // Concurrent callers never receive the same job.
+  claimJobs(limit: number, lockedUntil: Date): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Job>): Promise<Job>;
+  deleteJobsCompletedBefore(cutoff: Date): Promise<number>;
+  // Newest first; `before` pages back from an earlier result's id
+  getJobs(orgId: string, filters?: { type?: string; status?: JobStatus; limit?: number; before?: number }): Promise<Job[]>;
+  getJob(id: number, orgId: string): Promise<Job | undefined>;
+  getJobStats(orgId: string, now: Date): Promise<JobQueueStats>;
+  // Puts a dead or cancelled job back in the queue with fresh attempts.
+  // Returns undefined when the job is in any other state.
+  retryJob(id: number, orgId: string): Promise<Job | undefined>;
+  // Cancels a pending job; returns undefined when it's no longer pending
+  cancelJob(id: number, orgId: string): Promise<Job | undefined>;
+  deleteDeadJobs(orgId: string): Promise<number>;
+
+  // Cron
+  getCronRuns(): Promise<CronRun[]>;
+  saveCronRun(run: InsertCronRun): Promise<CronRun>;
+  // Records a run of a job that was due at `dueAt` and moves it on to
+  // `nextRunAt`. Returns undefined when another process got there first.
+  claimCronRun(name: string, dueAt: Date, nextRunAt: Date): Promise<CronRun | undefined>;
+  updateCronRun(name: string, updates: Partial<CronRun>): Promise<CronRun>;
   
   // Settings
   setSetting(setting: InsertSetting): Promise<Setting>;
   getSetting(orgId: string, key: string): Promise<Setting | undefined>;
   getSettings(orgId: string): Promise<Setting[]>;
+  getOrganizationIdsWithSetting(key: string): Promise<string[]>;
   
   // Subscriptions
   updateSubscription(orgId: string, subscription: Partial<Subscription>): Promise<Subscription>;
   getSubscription(orgId: string): Promise<Subscription | undefined>;
+  // Subscriptions whose usage period ended before `cutoff` or was never set
+  getSubscriptionsEndedBefore(cutoff: Date): Promise<Subscription[]>;
+  // Adds `amount` to a counter in `metered`, atomically
+  incrementMeteredUsage(orgId: string, metric: string, amount: number): Promise<Subscription>;
+  // Marks a Stripe event as handled; false if it already was
+  recordStripeEvent(id: string, type: string): Promise<boolean>;
+  // Forgets an event whose handling failed, so Stripe's retry is handled again
+  deleteStripeEvent(id: string): Promise<void>;
+  getSubscriptionsOnPlans(plans: string[]): Promise<Subscription[]>;
+  getSubscriptionsWithStatuses(statuses: string[]): Promise<Subscription[]>;
+
+  // Usage reports
+  // The reports for one usage period, oldest first
+  getUsageReports(orgId: string, periodEnd: Date): Promise<UsageReport[]>;
+  createUsageReport(report: InsertUsageReport): Promise<UsageReport>;
+  markUsageReported(id: number): Promise<void>;
   
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(orgId: string, limit?: number): Promise<AuditLog[]>;
+  // Newest (highest id) first; `before` pages back from an earlier result's id
+  getAuditLogs(orgId: string, limit?: number, before?: number): Promise<AuditLog[]>;
   
   // Pipelines
   createPipeline(pipeline: InsertPipeline): Promise<Pipeline>;
@@ -86,10 +170,22 @@ export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private organizations: Map<string, Organization> = new Map();
   private orgMembers: Map<string, OrgMember> = new Map();
+  private invitations: Map<string, Invitation> = new Map();
   private apiKeys: Map<string, ApiKey> = new Map();
   private settings: Map<string, Setting> = new Map();
   private subscriptions: Map<string, Subscription> = new Map();
+  private stripeEvents: Map<string, StripeEvent> = new Map();
+  private usageReports: UsageReport[] = [];
+  private nextUsageReportId = 1;
   private auditLogs: AuditLog[] = [];
+  private nextAuditLogId = 1;
+  private apiKeyUsage: ApiKeyUsage[] = [];
+  private nextApiKeyUsageId = 1;
+  private webhookEndpoints: Map<string, WebhookEndpoint> = new Map();
+  private webhookDeliveries: Map<string, WebhookDelivery> = new Map();
+  private jobs: Map<number, Job> = new Map();
+  private nextJobId = 1;
+  private cronRuns: Map<string, CronRun> = new Map();
   private pipelines: Map<string, Pipeline> = new Map();
   private stages: Map<string, Stage> = new Map();
   private leads: Map<string, Lead> = new Map();
@@ -150,6 +246,8 @@ export class MemStorage implements IStorage {
       stripeSubscriptionId: null,
       plan: insertOrg.plan || 'free',
       trialEnd: null,
+      trialRemindedAt: null,
+      deletedAt: null,
       createdAt: new Date()
     };
     this.organizations.set(id, org);
@@ -170,6 +268,8 @@ export class MemStorage implements IStorage {
       status: 'active',
       periodEnd: null,
       metered: {},
+      pastDueSince: null,
+      dunningRemindedAt: null,
       updatedAt: new Date()
     });
 
@@ -186,7 +286,7 @@ export class MemStorage implements IStorage {
     
     return userMemberships
       .map(m => this.organizations.get(m.orgId))
-      .filter((org): org is Organization => org !== undefined);
+      .filter((org): org is Organization => org !== undefined && !org.deletedAt);
   }
 
   async updateOrganization(id: string, updates: Partial<Organization>): Promise<Organization> {
@@ -197,13 +297,63 @@ export class MemStorage implements IStorage {
     this.organizations.set(id, updated);
     return updated;
   }
+  async getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values()).find(org => org.stripeCustomerId === customerId);
+  }
+
+  async getDeletedOrganizations(ownerId: string): Promise<Organization[]> {
+    return Array.from(this.organizations.values())
+      .filter(org => org.ownerId === ownerId && org.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async getOrganizationsDeletedBefore(cutoff: Date): Promise<Organization[]> {
+    return Array.from(this.organizations.values())
+      .filter(org => org.deletedAt && org.deletedAt < cutoff);
+  }
+
+  async getOrganizationsWithTrialEndingBefore(cutoff: Date): Promise<Organization[]> {
+    return Array.from(this.organizations.values())
+      .filter(org =>
+        org.trialEnd && org.trialEnd < cutoff &&
+        !org.stripeSubscriptionId && !org.deletedAt && org.plan !== 'free'
+      );
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    const removeByOrg = <T extends { orgId: string | null }>(map: Map<string, T>) => {
+      map.forEach((value, key) => {
+        if (value.orgId === id) map.delete(key);
+      });
+    };
+
+    removeByOrg(this.orgMembers);
+    removeByOrg(this.invitations);
+    removeByOrg(this.apiKeys);
+    removeByOrg(this.settings);
+    removeByOrg(this.pipelines);
+    removeByOrg(this.stages);
+    removeByOrg(this.leads);
+    removeByOrg(this.leadComments);
+    removeByOrg(this.webhookEndpoints);
+    removeByOrg(this.webhookDeliveries);
+    this.jobs.forEach((job, key) => {
+      if (job.orgId === id) this.jobs.delete(key);
+    });
+    this.subscriptions.delete(id);
+    this.usageReports = this.usageReports.filter(report => report.orgId !== id);
+    this.auditLogs = this.auditLogs.filter(log => log.orgId !== id);
+    this.apiKeyUsage = this.apiKeyUsage.filter(usage => usage.orgId !== id);
+    this.organizations.delete(id);
+  }
+
 
   async addOrgMember(insertMember: InsertOrgMember): Promise<OrgMember> {
     const key = `${insertMember.orgId}-${insertMember.userId}`;
     const member: OrgMember = {
       ...insertMember,
       invitedBy: insertMember.invitedBy || null,
-      invitedAt: new Date(),
+      invitedAt: insertMember.invitedAt || new Date(),
       acceptedAt: insertMember.acceptedAt || null,
       createdAt: new Date()
     };
@@ -248,11 +398,61 @@ export class MemStorage implements IStorage {
     this.orgMembers.delete(key);
   }
 
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = randomUUID();
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      message: insertInvitation.message || null,
+      acceptedAt: null,
+      declinedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+
+  async getInvitation(id: string): Promise<Invitation | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async getPendingInvitations(orgId: string): Promise<Invitation[]> {
+    return Array.from(this.invitations.values())
+      .filter(i => i.orgId === orgId && !i.acceptedAt && !i.declinedAt && !i.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateInvitation(id: string, updates: Partial<Invitation>): Promise<Invitation> {
+    const invitation = this.invitations.get(id);
+    if (!invitation) throw new Error('Invitation not found');
+    
+    const updated = { ...invitation, ...updates };
+    this.invitations.set(id, updated);
+    return updated;
+  }
+
+  async deleteInvitationsExpiredBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    this.invitations.forEach((invitation, id) => {
+      if (!invitation.acceptedAt && invitation.expiresAt < cutoff) {
+        this.invitations.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
   async createApiKey(apiKey: InsertApiKey & { keyHash: string; keyPreview: string }): Promise<ApiKey> {
     const id = randomUUID();
     const key: ApiKey = {
       ...apiKey,
       id,
+      scopes: apiKey.scopes ?? [],
+      expiresAt: apiKey.expiresAt ?? null,
+      roleCeiling: apiKey.roleCeiling ?? null,
+      replacedById: null,
+      expiryRecordedAt: null,
       lastUsedAt: null,
       createdAt: new Date()
     };
@@ -277,11 +477,337 @@ export class MemStorage implements IStorage {
     return { ...apiKey, organization };
   }
 
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) throw new Error('API key not found');
+    
+    const updated = { ...apiKey, ...updates };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
   async deleteApiKey(id: string, orgId: string): Promise<void> {
     const key = this.apiKeys.get(id);
     if (key && key.orgId === orgId) {
       this.apiKeys.delete(id);
+      this.apiKeys.forEach((other) => {
+        if (other.replacedById === id) other.replacedById = null;
+      });
+    }
+  }
+
+  async getUnrecordedExpiredApiKeys(cutoff: Date): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.expiresAt && key.expiresAt < cutoff && !key.expiryRecordedAt);
+  }
+
+  async recordApiKeyUsage(usage: InsertApiKeyUsage): Promise<void> {
+    this.apiKeyUsage.push({
+      ...usage,
+      id: this.nextApiKeyUsageId++,
+      createdAt: new Date()
+    });
+  }
+
+  async getApiKeyUsageStats(apiKeyId: string, orgId: string, since: Date): Promise<ApiKeyUsageStats> {
+    const rows = this.apiKeyUsage.filter(usage =>
+      usage.apiKeyId === apiKeyId && usage.orgId === orgId && usage.createdAt >= since
+    );
+
+    const daily = new Map<string, ApiKeyUsageStats["daily"][number]>();
+    const endpoints = new Map<string, ApiKeyUsageStats["endpoints"][number] & { totalMs: number }>();
+
+    for (const usage of rows) {
+      const day = usage.createdAt.toISOString().slice(0, 10);
+      const dayStats = daily.get(day) || { day, requests: 0, errors: 0 };
+      dayStats.requests++;
+      if (usage.status >= 400) dayStats.errors++;
+      daily.set(day, dayStats);
+
+      const key = `${usage.method} ${usage.route}`;
+      const endpoint = endpoints.get(key) ||
+        { method: usage.method, route: usage.route, requests: 0, errors: 0, avgDurationMs: 0, totalMs: 0 };
+      endpoint.requests++;
+      if (usage.status >= 400) endpoint.errors++;
+      endpoint.totalMs += usage.durationMs;
+      endpoint.avgDurationMs = Math.round(endpoint.totalMs / endpoint.requests);
+      endpoints.set(key, endpoint);
     }
+
+    return {
+      daily: Array.from(daily.values()).sort((a, b) => a.day.localeCompare(b.day)),
+      endpoints: Array.from(endpoints.values())
+        .sort((a, b) => b.requests - a.requests)
+        .slice(0, 10)
+        .map(({ totalMs, ...endpoint }) => endpoint),
+    };
+  }
+
+  async deleteApiKeyUsageBefore(orgId: string, cutoff: Date): Promise<void> {
+    this.apiKeyUsage = this.apiKeyUsage.filter(usage =>
+      usage.orgId !== orgId || usage.createdAt >= cutoff
+    );
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string }): Promise<WebhookEndpoint> {
+    const id = randomUUID();
+    const webhookEndpoint: WebhookEndpoint = {
+      ...endpoint,
+      id,
+      description: endpoint.description ?? null,
+      enabled: endpoint.enabled ?? true,
+      createdAt: new Date()
+    };
+    this.webhookEndpoints.set(id, webhookEndpoint);
+    return webhookEndpoint;
+  }
+
+  async getWebhookEndpoints(orgId: string): Promise<WebhookEndpoint[]> {
+    return Array.from(this.webhookEndpoints.values())
+      .filter(endpoint => endpoint.orgId === orgId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWebhookEndpoint(id: string, orgId: string): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.webhookEndpoints.get(id);
+    return endpoint && endpoint.orgId === orgId ? endpoint : undefined;
+  }
+
+  async updateWebhookEndpoint(id: string, orgId: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint> {
+    const endpoint = this.webhookEndpoints.get(id);
+    if (!endpoint || endpoint.orgId !== orgId) throw new Error('Webhook endpoint not found');
+
+    const updated = { ...endpoint, ...updates };
+    this.webhookEndpoints.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(id: string, orgId: string): Promise<void> {
+    const endpoint = this.webhookEndpoints.get(id);
+    if (endpoint && endpoint.orgId === orgId) {
+      this.webhookEndpoints.delete(id);
+      this.webhookDeliveries.forEach((delivery, key) => {
+        if (delivery.endpointId === id) this.webhookDeliveries.delete(key);
+      });
+    }
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    const webhookDelivery: WebhookDelivery = {
+      ...delivery,
+      id,
+      status: delivery.status ?? "pending",
+      attempts: delivery.attempts ?? 0,
+      responseStatus: delivery.responseStatus ?? null,
+      responseBody: delivery.responseBody ?? null,
+      error: delivery.error ?? null,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+      lastAttemptAt: delivery.lastAttemptAt ?? null,
+      createdAt: new Date()
+    };
+    this.webhookDeliveries.set(id, webhookDelivery);
+    return webhookDelivery;
+  }
+
+  async getWebhookDelivery(id: string, orgId: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    return delivery && delivery.orgId === orgId ? delivery : undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: string, orgId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.endpointId === endpointId && delivery.orgId === orgId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) throw new Error('Webhook delivery not found');
+
+    const updated = { ...delivery, ...updates };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookDeliveriesBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    this.webhookDeliveries.forEach((delivery, id) => {
+      if (delivery.status !== "pending" && delivery.createdAt < cutoff) {
+        this.webhookDeliveries.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async enqueueJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.nextJobId++;
+    const job: Job = {
+      ...insertJob,
+      id,
+      orgId: insertJob.orgId ?? null,
+      runAt: insertJob.runAt ?? new Date(),
+      status: insertJob.status ?? "pending",
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      lockedUntil: insertJob.lockedUntil ?? null,
+      lastError: insertJob.lastError ?? null,
+      completedAt: insertJob.completedAt ?? null,
+      createdAt: new Date()
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  // Claiming happens synchronously, so two workers in this process can't
+  // pick up the same job
+  async claimJobs(limit: number, lockedUntil: Date): Promise<Job[]> {
+    const now = new Date();
+    const due = Array.from(this.jobs.values())
+      .filter(job =>
+        (job.status === "pending" && job.runAt <= now) ||
+        (job.status === "running" && !!job.lockedUntil && job.lockedUntil <= now)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return due.map(job => {
+      const claimed: Job = { ...job, status: "running", attempts: job.attempts + 1, lockedUntil };
+      this.jobs.set(job.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job> {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error('Job not found');
+
+    const updated = { ...job, ...updates };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteJobsCompletedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    this.jobs.forEach((job, id) => {
+      if (job.status === "completed" && !!job.completedAt && job.completedAt < cutoff) {
+        this.jobs.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async getJobs(orgId: string, { type, status, limit = 50, before }: { type?: string; status?: JobStatus; limit?: number; before?: number } = {}): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        job.orgId === orgId &&
+        (type === undefined || job.type === type) &&
+        (status === undefined || job.status === status) &&
+        (before === undefined || job.id < before)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getJob(id: number, orgId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    return job && job.orgId === orgId ? job : undefined;
+  }
+
+  async getJobStats(orgId: string, now: Date): Promise<JobQueueStats> {
+    const hourAgo = now.getTime() - 60 * 60 * 1000;
+    const dayAgo = now.getTime() - 24 * 60 * 60 * 1000;
+    const stats: JobQueueStats = {
+      counts: { pending: 0, running: 0, completed: 0, dead: 0, cancelled: 0 },
+      due: 0,
+      oldestDueAt: null,
+      completedLastHour: 0,
+      completedLastDay: 0,
+      types: [],
+    };
+
+    this.jobs.forEach(job => {
+      if (job.orgId !== orgId) return;
+      stats.counts[job.status]++;
+      if (!stats.types.includes(job.type)) stats.types.push(job.type);
+      if (job.status === "pending" && job.runAt <= now) {
+        stats.due++;
+        if (!stats.oldestDueAt || job.runAt < stats.oldestDueAt) stats.oldestDueAt = job.runAt;
+      }
+      if (job.completedAt && job.completedAt.getTime() > dayAgo) {
+        stats.completedLastDay++;
+        if (job.completedAt.getTime() > hourAgo) stats.completedLastHour++;
+      }
+    });
+
+    stats.types.sort();
+    return stats;
+  }
+
+  async retryJob(id: number, orgId: string): Promise<Job | undefined> {
+    const job = await this.getJob(id, orgId);
+    if (!job || (job.status !== "dead" && job.status !== "cancelled")) return undefined;
+
+    const retried: Job = { ...job, status: "pending", attempts: 0, runAt: new Date(), lockedUntil: null };
+    this.jobs.set(id, retried);
+    return retried;
+  }
+
+  async cancelJob(id: number, orgId: string): Promise<Job | undefined> {
+    const job = await this.getJob(id, orgId);
+    if (!job || job.status !== "pending") return undefined;
+
+    const cancelled: Job = { ...job, status: "cancelled" };
+    this.jobs.set(id, cancelled);
+    return cancelled;
+  }
+
+  async deleteDeadJobs(orgId: string): Promise<number> {
+    let deleted = 0;
+    this.jobs.forEach((job, id) => {
+      if (job.orgId === orgId && job.status === "dead") {
+        this.jobs.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async getCronRuns(): Promise<CronRun[]> {
+    return Array.from(this.cronRuns.values());
+  }
+
+  async saveCronRun(run: InsertCronRun): Promise<CronRun> {
+    const cronRun: CronRun = {
+      lastRunAt: null,
+      lastJobId: null,
+      ...this.cronRuns.get(run.name),
+      ...run,
+      updatedAt: new Date()
+    };
+    this.cronRuns.set(run.name, cronRun);
+    return cronRun;
+  }
+
+  async claimCronRun(name: string, dueAt: Date, nextRunAt: Date): Promise<CronRun | undefined> {
+    const run = this.cronRuns.get(name);
+    if (!run || run.nextRunAt.getTime() !== dueAt.getTime()) return undefined;
+
+    const claimed = { ...run, lastRunAt: new Date(), nextRunAt, updatedAt: new Date() };
+    this.cronRuns.set(name, claimed);
+    return claimed;
+  }
+
+  async updateCronRun(name: string, updates: Partial<CronRun>): Promise<CronRun> {
+    const run = this.cronRuns.get(name);
+    if (!run) throw new Error('Cron run not found');
+
+    const updated = { ...run, ...updates, updatedAt: new Date() };
+    this.cronRuns.set(name, updated);
+    return updated;
   }
 
   async setSetting(insertSetting: InsertSetting): Promise<Setting> {
@@ -304,6 +830,12 @@ export class MemStorage implements IStorage {
       .filter(setting => setting.orgId === orgId);
   }
 
+  async getOrganizationIdsWithSetting(key: string): Promise<string[]> {
+    return Array.from(this.settings.values())
+      .filter(setting => setting.key === key)
+      .map(setting => setting.orgId);
+  }
+
   async updateSubscription(orgId: string, updates: Partial<Subscription>): Promise<Subscription> {
     const existing = this.subscriptions.get(orgId);
     const subscription: Subscription = {
@@ -312,6 +844,8 @@ export class MemStorage implements IStorage {
       status: 'active',
       periodEnd: null,
       metered: {},
+      pastDueSince: null,
+      dunningRemindedAt: null,
       updatedAt: new Date(),
       ...existing,
       ...updates
@@ -324,10 +858,68 @@ export class MemStorage implements IStorage {
     return this.subscriptions.get(orgId);
   }
 
+  async getSubscriptionsEndedBefore(cutoff: Date): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => !subscription.periodEnd || subscription.periodEnd < cutoff);
+  }
+
+  async incrementMeteredUsage(orgId: string, metric: string, amount: number): Promise<Subscription> {
+    const metered = (this.subscriptions.get(orgId)?.metered || {}) as Record<string, number>;
+    return this.updateSubscription(orgId, {
+      metered: { ...metered, [metric]: (metered[metric] || 0) + amount }
+    });
+  }
+
+  async recordStripeEvent(id: string, type: string): Promise<boolean> {
+    if (this.stripeEvents.has(id)) return false;
+    this.stripeEvents.set(id, { id, type, processedAt: new Date() });
+    return true;
+  }
+
+  async deleteStripeEvent(id: string): Promise<void> {
+    this.stripeEvents.delete(id);
+  }
+
+  async getSubscriptionsOnPlans(plans: string[]): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => plans.includes(subscription.plan));
+  }
+
+  async getSubscriptionsWithStatuses(statuses: string[]): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => statuses.includes(subscription.status));
+  }
+
+  async getUsageReports(orgId: string, periodEnd: Date): Promise<UsageReport[]> {
+    return this.usageReports.filter(report =>
+      report.orgId === orgId && report.periodEnd.getTime() === periodEnd.getTime()
+    );
+  }
+
+  async createUsageReport(insertReport: InsertUsageReport): Promise<UsageReport> {
+    if (this.usageReports.some(report => report.idempotencyKey === insertReport.idempotencyKey)) {
+      throw new Error(`Usage report ${insertReport.idempotencyKey} already exists`);
+    }
+
+    const report: UsageReport = {
+      ...insertReport,
+      id: this.nextUsageReportId++,
+      reportedAt: null,
+      createdAt: new Date()
+    };
+    this.usageReports.push(report);
+    return report;
+  }
+
+  async markUsageReported(id: number): Promise<void> {
+    const report = this.usageReports.find(report => report.id === id);
+    if (report) report.reportedAt = new Date();
+  }
+
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const log: AuditLog = {
       ...insertLog,
-      id: this.auditLogs.length + 1,
+      id: this.nextAuditLogId++,
       actorId: insertLog.actorId || null,
       entityId: insertLog.entityId || null,
       metadata: insertLog.metadata || {},
@@ -337,10 +929,10 @@ export class MemStorage implements IStorage {
     return log;
   }
 
-  async getAuditLogs(orgId: string, limit: number = 50): Promise<AuditLog[]> {
+  async getAuditLogs(orgId: string, limit: number = 50, before?: number): Promise<AuditLog[]> {
     return this.auditLogs
-      .filter(log => log.orgId === orgId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .filter(log => log.orgId === orgId && (before === undefined || log.id < before))
+      .sort((a, b) => b.id - a.id)
       .slice(0, limit);
   }
 
@@ -579,4 +1171,4 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
@@ -0,0 +1,204 @@
+import { randomUUID } from "crypto";
+import express from "express";
+import request from "supertest";
+import Stripe from "stripe";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Organization } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+const SECRET = "whsec_test";
+const PRO_PRICE = "price_fake_pro";
+const TEAM_PRICE = "price_fake_team";
+
+const app = express();
+// As in server/index.ts: the signature is checked over the raw body
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
+
+beforeAll(async () => {
+  await registerRoutes(app);
+});
+
+function event(type: string, object: object, id = `evt_${randomUUID()}`) {
+  return { id, object: "event", type, created: Math.floor(Date.now() / 1000), data: { object } };
+}
+
+function deliver(body: object, secret = SECRET) {
+  const payload = JSON.stringify(body);
+  return request(app)
+    .post("/api/billing/stripe-webhook")
+    .set("Content-Type", "application/json")
+    .set("Stripe-Signature", Stripe.webhooks.generateTestHeaderString({ payload, secret }))
+    .send(payload);
+}
+
+function subscriptionObject(organization: Organization, priceId: string, status: string) {
+  return {
+    id: "sub_test",
+    object: "subscription",
+    customer: "cus_test",
+    status,
+    metadata: { organizationId: organization.id },
+    items: {
+      data: [{ price: { id: priceId }, current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60 }],
+    },
+  };
+}
+
+describe("POST /api/billing/stripe-webhook", () => {
+  let organization: Organization;
+
+  beforeEach(async () => {
+    const owner = await storage.createUser({
+      email: `${randomUUID()}@example.test`,
+      passwordHash: "password",
+      name: "Owner",
+    });
+    organization = await storage.createOrganization({ name: "Acme" }, owner.id);
+  });
+
+  // The organization as it is after checkout: on Pro with subscription sub_test
+  async function subscribe() {
+    organization = await storage.updateOrganization(organization.id, {
+      stripeCustomerId: "cus_test",
+      stripeSubscriptionId: "sub_test",
+      plan: "pro",
+    });
+    await storage.updateSubscription(organization.id, { plan: "pro", status: "active" });
+  }
+
+  it("accepts a correctly signed event", async () => {
+    const res = await deliver(event("customer.created", { id: "cus_test", object: "customer" }));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true, duplicate: false });
+  });
+
+  it("rejects an event signed with another secret", async () => {
+    const res = await deliver(event("customer.created", { id: "cus_test", object: "customer" }), "whsec_other");
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Invalid Stripe signature");
+  });
+
+  it("rejects an event without a signature", async () => {
+    const res = await request(app)
+      .post("/api/billing/stripe-webhook")
+      .send(event("customer.created", { id: "cus_test", object: "customer" }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a body changed after signing", async () => {
+    const payload = JSON.stringify(event("customer.created", { id: "cus_test", object: "customer" }));
+    const res = await request(app)
+      .post("/api/billing/stripe-webhook")
+      .set("Content-Type", "application/json")
+      .set("Stripe-Signature", Stripe.webhooks.generateTestHeaderString({ payload, secret: SECRET }))
+      .send(payload.replace("cus_test", "cus_other"));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("handles an event id only once", async () => {
+    const body = event("invoice.payment_failed", {
+      id: "in_test",
+      object: "invoice",
+      customer: "cus_test",
+      amount_due: 2900,
+      currency: "usd",
+      attempt_count: 1,
+      parent: { subscription_details: { subscription: "sub_test", metadata: { organizationId: organization.id } } },
+    });
+    await subscribe();
+
+    const first = await deliver(body);
+    const second = await deliver(body);
+
+    expect(first.body).toEqual({ received: true, duplicate: false });
+    expect(second.status).toBe(200);
+    expect(second.body).toEqual({ received: true, duplicate: true });
+    const logs = await storage.getAuditLogs(organization.id);
+    expect(logs.filter((log) => log.action === "payment_failed")).toHaveLength(1);
+  });
+
+  it("moves the organization to the plan bought at checkout", async () => {
+    const res = await deliver(event("checkout.session.completed", {
+      id: "cs_test",
+      object: "checkout.session",
+      mode: "subscription",
+      customer: "cus_test",
+      subscription: "sub_test",
+      metadata: { organizationId: organization.id, priceId: PRO_PRICE },
+    }));
+
+    expect(res.status).toBe(200);
+    const updated = await storage.getOrganization(organization.id);
+    expect(updated).toMatchObject({ plan: "pro", stripeCustomerId: "cus_test", stripeSubscriptionId: "sub_test" });
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "pro", status: "active" });
+  });
+
+  it("follows a plan change on customer.subscription.updated", async () => {
+    await subscribe();
+
+    const res = await deliver(event("customer.subscription.updated", subscriptionObject(organization, TEAM_PRICE, "active")));
+
+    expect(res.status).toBe(200);
+    expect((await storage.getOrganization(organization.id))?.plan).toBe("team");
+    const subscription = await storage.getSubscription(organization.id);
+    expect(subscription).toMatchObject({ plan: "team", status: "active" });
+    expect(subscription?.periodEnd?.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("ignores updates to a subscription the organization no longer has", async () => {
+    await subscribe();
+
+    const res = await deliver(event("customer.subscription.updated", {
+      ...subscriptionObject(organization, TEAM_PRICE, "active"),
+      id: "sub_old",
+    }));
+
+    expect(res.status).toBe(200);
+    expect((await storage.getOrganization(organization.id))?.plan).toBe("pro");
+  });
+
+  it("moves the organization to the Free plan on customer.subscription.deleted", async () => {
+    await subscribe();
+
+    const res = await deliver(event("customer.subscription.deleted", subscriptionObject(organization, PRO_PRICE, "canceled")));
+
+    expect(res.status).toBe(200);
+    const updated = await storage.getOrganization(organization.id);
+    expect(updated).toMatchObject({ plan: "free", stripeSubscriptionId: null });
+    expect(await storage.getSubscription(organization.id)).toMatchObject({ plan: "free", status: "canceled" });
+    const logs = await storage.getAuditLogs(organization.id);
+    expect(logs.some((log) => log.action === "cancel" && log.entity === "subscription")).toBe(true);
+  });
+
+  it("marks the subscription past due on invoice.payment_failed", async () => {
+    await subscribe();
+
+    const res = await deliver(event("invoice.payment_failed", {
+      id: "in_test",
+      object: "invoice",
+      customer: "cus_test",
+      amount_due: 2900,
+      currency: "usd",
+      attempt_count: 1,
+      parent: { subscription_details: { subscription: "sub_test", metadata: { organizationId: organization.id } } },
+    }));
+
+    expect(res.status).toBe(200);
+    const subscription = await storage.getSubscription(organization.id);
+    expect(subscription?.status).toBe("past_due");
+    expect(subscription?.pastDueSince).toBeInstanceOf(Date);
+    // The plan is kept during the grace period
+    expect((await storage.getOrganization(organization.id))?.plan).toBe("pro");
+    const logs = await storage.getAuditLogs(organization.id);
+    expect(logs.find((log) => log.action === "payment_failed")?.metadata).toMatchObject({ amountDue: 2900 });
+  });
+});
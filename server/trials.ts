@@ -0,0 +1,124 @@
+import type { Organization, Subscription } from "@shared/schema";
+import { storage } from "./storage";
+import { getReadOnlyPipelineIds, type PaidPlan } from "./plan-limits";
+import { emailAdmins } from "./email";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// New organizations try this plan for TRIAL_DAYS days; TRIAL_DAYS=0 turns
+// trials off
+export const TRIAL_PLAN: PaidPlan = "pro";
+const TRIAL_DAYS = Number(process.env.TRIAL_DAYS ?? 14);
+
+// Admins are reminded this many days before the trial ends
+const REMINDER_DAYS = [3, 1];
+
+// On a trial the app started, as opposed to a Stripe subscription's trial,
+// which Stripe ends by itself
+export function isOnTrial(organization: Organization, subscription: Subscription | undefined): boolean {
+  return !!organization.trialEnd && !organization.stripeSubscriptionId && subscription?.status === "trialing";
+}
+
+// Starts a trial for a newly created organization. Each owner gets one: no
+// trial when they've had one in another organization, deleted ones included.
+export async function startTrial(organization: Organization): Promise<Organization> {
+  if (!(TRIAL_DAYS > 0)) return organization;
+
+  const [current, deleted] = await Promise.all([
+    storage.getOrganizationsByUser(organization.ownerId),
+    storage.getDeletedOrganizations(organization.ownerId),
+  ]);
+  const hadTrial = current.concat(deleted).some((other) =>
+    other.id !== organization.id && other.ownerId === organization.ownerId && other.trialEnd
+  );
+  if (hadTrial) return organization;
+
+  const trialEnd = new Date(Date.now() + TRIAL_DAYS * DAY_MS);
+  const updated = await storage.updateOrganization(organization.id, {
+    plan: TRIAL_PLAN,
+    trialEnd,
+    trialRemindedAt: null,
+  });
+  await storage.updateSubscription(organization.id, { plan: TRIAL_PLAN, status: "trialing" });
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "start",
+    entity: "trial",
+    entityId: null,
+    metadata: { plan: TRIAL_PLAN, trialEnd },
+  });
+
+  return updated;
+}
+
+async function remind(organization: Organization, trialEnd: Date, daysLeft: number) {
+  await storage.updateOrganization(organization.id, { trialRemindedAt: new Date() });
+
+  const when = daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`;
+  await emailAdmins(organization.id, `Your ${organization.plan} trial for ${organization.name} ends ${when}`, [
+    `The ${organization.plan} trial for ${organization.name} ends on ${trialEnd.toDateString()}.`,
+    "Choose a plan on the Billing page to keep its features. Otherwise the organization moves to the Free plan: nothing is deleted, but pipelines over the Free plan's limit become read-only.",
+  ]);
+}
+
+// Moves the organization to the Free plan. What it has over the Free plan's
+// limits is kept; see getReadOnlyPipelineIds.
+async function endTrial(organization: Organization) {
+  await storage.updateOrganization(organization.id, { plan: "free" });
+  await storage.updateSubscription(organization.id, { plan: "free", status: "active" });
+
+  const readOnlyPipelines = (await getReadOnlyPipelineIds(organization.id)).length;
+  await storage.createAuditLog({
+    orgId: organization.id,
+    actorId: null,
+    action: "expire",
+    entity: "trial",
+    entityId: null,
+    metadata: { plan: organization.plan, readOnlyPipelines },
+  });
+
+  await emailAdmins(organization.id, `Your ${organization.plan} trial for ${organization.name} has ended`, [
+    `${organization.name} is now on the Free plan.`,
+    readOnlyPipelines > 0
+      ? `Nothing was deleted, but ${readOnlyPipelines} pipeline${readOnlyPipelines === 1 ? " is" : "s are"} over the Free plan's limit and read-only until you upgrade.`
+      : "Nothing was deleted.",
+    "Choose a plan on the Billing page to get the trial's features back.",
+  ]);
+}
+
+// Reminds admins of trials ending soon and downgrades lapsed ones. Runs from
+// the process-trials job; reminders are sent once per entry in REMINDER_DAYS.
+export async function processTrials(): Promise<{ reminded: number; ended: number }> {
+  const now = Date.now();
+  const organizations = await storage.getOrganizationsWithTrialEndingBefore(
+    new Date(now + Math.max(...REMINDER_DAYS) * DAY_MS)
+  );
+
+  let reminded = 0;
+  let ended = 0;
+  for (const organization of organizations) {
+    const subscription = await storage.getSubscription(organization.id);
+    if (!isOnTrial(organization, subscription)) continue;
+
+    const trialEnd = organization.trialEnd!;
+    if (trialEnd.getTime() <= now) {
+      await endTrial(organization);
+      ended++;
+      continue;
+    }
+
+    // The closest reminder that's due, sent unless it already was
+    const daysLeft = Math.ceil((trialEnd.getTime() - now) / DAY_MS);
+    const due = Math.min(...REMINDER_DAYS.filter((days) => days >= daysLeft));
+    const dueAt = trialEnd.getTime() - due * DAY_MS;
+    if (!organization.trialRemindedAt || organization.trialRemindedAt.getTime() < dueAt) {
+      await remind(organization, trialEnd, daysLeft);
+      reminded++;
+    }
+  }
+
+  if (reminded > 0 || ended > 0) log(`reminded ${reminded} and ended ${ended} trials`, "trials");
+  return { reminded, ended };
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PLAN_LIMITS, type Subscription } from "@shared/schema";
+import { billingProvider, reportAllOverage, reportOverage } from "./billing";
+import { FakeBillingProvider } from "./fake-billing";
+import { storage } from "./storage";
+
+const provider = billingProvider as FakeBillingProvider;
+const INCLUDED = PLAN_LIMITS.pro.operations;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("overage reporting", () => {
+  let customerId: string;
+  let subscription: Subscription;
+  let periodEnd: Date;
+
+  // An organization subscribed to Pro, with its period ending at periodEnd
+  async function subscribe() {
+    const owner = await storage.createUser({ email: `${randomUUID()}@example.test`, passwordHash: "password", name: "Owner" });
+    const organization = await storage.createOrganization({ name: "Acme" }, owner.id);
+    const customerId = `cus_${randomUUID()}`;
+    await storage.updateOrganization(organization.id, { plan: "pro", stripeCustomerId: customerId, stripeSubscriptionId: "sub_test" });
+    const subscription = await storage.updateSubscription(organization.id, { plan: "pro", status: "active", periodEnd });
+    return { customerId, subscription };
+  }
+
+  beforeEach(async () => {
+    periodEnd = new Date(Date.now() + 10 * DAY_MS);
+    ({ customerId, subscription } = await subscribe());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function use(operations: number) {
+    subscription = await storage.incrementMeteredUsage(subscription.orgId, "operations", operations);
+  }
+
+  it("reports nothing within the included operations", async () => {
+    await use(INCLUDED);
+
+    expect(await reportOverage(subscription)).toBe(0);
+    expect(await storage.getUsageReports(subscription.orgId, periodEnd)).toEqual([]);
+  });
+
+  it("reports the overage of a period once", async () => {
+    const reportUsage = vi.spyOn(provider, "reportUsage");
+    await use(INCLUDED + 250);
+
+    expect(await reportOverage(subscription)).toBe(250);
+    expect(await reportOverage(subscription)).toBe(0);
+
+    expect(reportUsage).toHaveBeenCalledTimes(1);
+    expect(reportUsage.mock.calls[0][0]).toMatchObject({ customerId, quantity: 250 });
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(250);
+  });
+
+  it("reports only what was used since the last report, under a new key", async () => {
+    const reportUsage = vi.spyOn(provider, "reportUsage");
+    await use(INCLUDED + 250);
+    await reportOverage(subscription);
+    await use(100);
+
+    expect(await reportOverage(subscription)).toBe(100);
+
+    const keys = reportUsage.mock.calls.map(([record]) => record.idempotencyKey);
+    expect(new Set(keys).size).toBe(2);
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(350);
+  });
+
+  it("resends a failed report under the same idempotency key", async () => {
+    const reportUsage = vi.spyOn(provider, "reportUsage").mockRejectedValueOnce(new Error("Stripe is unavailable"));
+    await use(INCLUDED + 250);
+
+    await expect(reportOverage(subscription)).rejects.toThrow("Stripe is unavailable");
+    expect(await reportOverage(subscription)).toBe(250);
+
+    expect(reportUsage).toHaveBeenCalledTimes(2);
+    expect(reportUsage.mock.calls[1][0].idempotencyKey).toBe(reportUsage.mock.calls[0][0].idempotencyKey);
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(250);
+  });
+
+  it("doesn't double count a report that reached the provider before failing", async () => {
+    const markUsageReported = vi.spyOn(storage, "markUsageReported").mockRejectedValueOnce(new Error("connection lost"));
+    await use(INCLUDED + 250);
+
+    await expect(reportOverage(subscription)).rejects.toThrow("connection lost");
+    await reportOverage(subscription);
+
+    expect(markUsageReported).toHaveBeenCalledTimes(2);
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(250);
+    const reports = await storage.getUsageReports(subscription.orgId, periodEnd);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].reportedAt).toBeInstanceOf(Date);
+  });
+
+  it("keeps an unsent report pending when another organization is purged", async () => {
+    const purged = await subscribe();
+    await storage.incrementMeteredUsage(purged.subscription.orgId, "operations", INCLUDED + 10);
+    await reportOverage((await storage.getSubscription(purged.subscription.orgId))!);
+    vi.spyOn(provider, "reportUsage").mockRejectedValueOnce(new Error("Stripe is unavailable"));
+    await use(INCLUDED + 250);
+    await expect(reportOverage(subscription)).rejects.toThrow("Stripe is unavailable");
+
+    await storage.deleteOrganization(purged.subscription.orgId);
+    const other = await subscribe();
+    await storage.incrementMeteredUsage(other.subscription.orgId, "operations", INCLUDED + 20);
+    await reportOverage((await storage.getSubscription(other.subscription.orgId))!);
+
+    const [report] = await storage.getUsageReports(subscription.orgId, periodEnd);
+    expect(report.reportedAt).toBeNull();
+    expect(await reportOverage(subscription)).toBe(250);
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(250);
+  });
+
+  it("reports every subscription with overage from the job", async () => {
+    await use(INCLUDED + 40);
+
+    expect(await reportAllOverage()).toBe(40);
+    expect(provider.getReportedUsage(customerId, periodEnd)).toBe(40);
+    expect(await reportAllOverage()).toBe(0);
+  });
+});
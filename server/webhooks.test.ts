@@ -0,0 +1,169 @@
+import { createHmac, randomUUID } from "crypto";
+import dns from "dns";
+import express from "express";
+import request from "supertest";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { checkWebhookUrl, deliverWebhook, signWebhookPayload } from "./webhooks";
+
+// What dns.promises.lookup answers for a hostname
+function resolveTo(...addresses: string[]) {
+  vi.spyOn(dns.promises, "lookup").mockResolvedValue(
+    addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })) as never
+  );
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("checkWebhookUrl", () => {
+  it.each([
+    "https://127.0.0.1/hook",
+    "https://10.1.2.3/hook",
+    "https://172.16.0.1/hook",
+    "https://192.168.1.1/hook",
+    "https://100.64.0.1/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://0.0.0.0/hook",
+    "https://[::1]/hook",
+    "https://[::]/hook",
+    "https://[fe80::1]/hook",
+    "https://[fd00::1]/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[::ffff:169.254.169.254]/hook",
+    "https://[::ffff:a00:1]/hook",
+  ])("refuses %s", async (url) => {
+    expect(await checkWebhookUrl(url)).toBe("The URL must not point to a private, loopback or link-local address");
+  });
+
+  it.each([
+    "https://8.8.8.8/hook",
+    "https://[2606:4700:4700::1111]/hook",
+  ])("accepts %s", async (url) => {
+    expect(await checkWebhookUrl(url)).toBeNull();
+  });
+
+  it("refuses a hostname that resolves to a private address", async () => {
+    resolveTo("93.184.216.34", "10.0.0.5");
+
+    expect(await checkWebhookUrl("https://hooks.example.com/in")).toMatch(/private/);
+  });
+
+  it("accepts a hostname that resolves to public addresses only", async () => {
+    resolveTo("93.184.216.34", "2606:2800:220:1::1");
+
+    expect(await checkWebhookUrl("https://hooks.example.com/in")).toBeNull();
+  });
+
+  it("refuses a hostname that doesn't resolve", async () => {
+    vi.spyOn(dns.promises, "lookup").mockRejectedValue(new Error("ENOTFOUND"));
+
+    expect(await checkWebhookUrl("https://nowhere.example.com/in")).toBe("nowhere.example.com could not be resolved");
+  });
+
+  it("requires https outside development", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(await checkWebhookUrl("http://8.8.8.8/hook")).toBe("The URL must start with https://");
+    expect(await checkWebhookUrl("ftp://8.8.8.8/hook")).toBe("The URL must start with https://");
+  });
+
+  it("allows http in development, but still not to private addresses", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+
+    expect(await checkWebhookUrl("http://8.8.8.8/hook")).toBeNull();
+    expect(await checkWebhookUrl("http://127.0.0.1:5000/hook")).toMatch(/private/);
+  });
+
+  it("refuses what isn't a URL", async () => {
+    expect(await checkWebhookUrl("not a url")).toBe("The URL is invalid");
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("is the hex HMAC-SHA256 of the timestamp, a dot and the body", () => {
+    const body = '{"id":"evt_1","event":"lead.created"}';
+
+    // Computed independently with
+    // printf '%s' '1700000000.<body>' | openssl dgst -sha256 -hmac whsec_test
+    expect(signWebhookPayload("whsec_test", 1700000000, body)).toBe(
+      "e08ec67617648acfe8794ba8d7e417575c1e2cccf33e8c6baeb1dd452f2bd4a4"
+    );
+    expect(signWebhookPayload("whsec_test", 1700000000, body)).toBe(
+      createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex")
+    );
+  });
+
+  it("changes with the timestamp, so old requests can't be replayed as new", () => {
+    expect(signWebhookPayload("whsec_test", 1700000001, "{}")).not.toBe(signWebhookPayload("whsec_test", 1700000000, "{}"));
+  });
+});
+
+describe("webhook delivery", () => {
+  const app = express();
+  app.use(express.json());
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+  });
+
+  async function createEndpoint(url: string) {
+    const owner = await storage.createUser({ email: `${randomUUID()}@example.test`, passwordHash: "password", name: "Owner" });
+    const organization = await storage.createOrganization({ name: "Acme" }, owner.id);
+    const endpoint = await storage.createWebhookEndpoint({
+      orgId: organization.id,
+      url,
+      secret: "whsec_test",
+      events: ["lead.updated", "lead.moved"],
+      createdBy: owner.id,
+    });
+    return { owner, organization, endpoint };
+  }
+
+  it("fails a delivery without retrying once the host resolves to a private address", async () => {
+    const { organization, endpoint } = await createEndpoint("https://hooks.example.com/in");
+    const delivery = await storage.createWebhookDelivery({
+      orgId: organization.id,
+      endpointId: endpoint.id,
+      event: "lead.updated",
+      requestBody: "{}",
+      nextAttemptAt: new Date(),
+    });
+    // DNS rebinding: the record changed after the endpoint was created
+    resolveTo("169.254.169.254");
+
+    await deliverWebhook(delivery.id, organization.id);
+
+    expect(await storage.getWebhookDelivery(delivery.id, organization.id)).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      nextAttemptAt: null,
+      error: "The URL must not point to a private, loopback or link-local address",
+    });
+  });
+
+  it("sends lead.moved as well as lead.updated when an update changes the stage", async () => {
+    const { owner, organization, endpoint } = await createEndpoint("https://hooks.example.com/in");
+    const pipeline = await storage.createPipeline({ orgId: organization.id, name: "Sales" });
+    const from = await storage.createStage({ orgId: organization.id, pipelineId: pipeline.id, name: "New", order: 0 });
+    const to = await storage.createStage({ orgId: organization.id, pipelineId: pipeline.id, name: "Won", order: 1 });
+    const lead = await storage.createLead({ orgId: organization.id, stageId: from.id, name: "Ada", email: "ada@example.test" });
+    const agent = request.agent(app);
+    await agent.post("/api/auth/login").send({ email: owner.email, password: "password" }).expect(200);
+
+    await agent.put(`/api/organizations/${organization.id}/leads/${lead.id}`).send({ name: "Ada L." }).expect(200);
+    await agent.put(`/api/organizations/${organization.id}/leads/${lead.id}`).send({ stageId: to.id }).expect(200);
+
+    // Events are queued after the response is sent
+    await vi.waitFor(async () => {
+      expect(await storage.getWebhookDeliveries(endpoint.id, organization.id)).toHaveLength(3);
+    });
+    const deliveries = await storage.getWebhookDeliveries(endpoint.id, organization.id);
+    expect(deliveries.map((delivery) => delivery.event).sort()).toEqual(["lead.moved", "lead.updated", "lead.updated"]);
+    const moved = deliveries.find((delivery) => delivery.event === "lead.moved")!;
+    expect(JSON.parse(moved.requestBody).data).toMatchObject({ fromStageId: from.id, toStageId: to.id });
+  });
+});
@@ -0,0 +1,262 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import dns, { type LookupAddress, type LookupOptions } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+import type { WebhookDelivery, WebhookEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { enqueueJob } from "./jobs";
+import { log } from "./vite";
+
+const MINUTE_MS = 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Longer response bodies are cut off in the delivery log. It's only there to
+// help debug the receiver, so it's kept short.
+const MAX_RESPONSE_BODY_LENGTH = 512;
+
+// Webhooks can't reach the app's own network: loopback, private, link-local
+// (cloud metadata), shared, multicast and reserved addresses
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8],
+  ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16],
+  ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Attempts per delivery, counting the first. Retries wait 1, 4, 16, 64 and
+// then 256 minutes.
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+function retryDelayMs(attempts: number) {
+  return MINUTE_MS * 4 ** (attempts - 1);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute this over the X-Webhook-Timestamp header and the raw
+// body, and should reject old timestamps so captured requests can't be replayed
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// dns.lookup that fails for blocked addresses. Deliveries connect through it,
+// so the address that was checked is the one connected to, even if the DNS
+// record changes after checkWebhookUrl ran.
+function lookupAllowedAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a private address`), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Returns why `url` can't receive webhooks, or null when it can. Endpoints
+// must use https outside development and resolve to public addresses only.
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "The URL is invalid";
+  }
+
+  const allowHttp = process.env.NODE_ENV === "development";
+  if (parsed.protocol !== "https:" && !(allowHttp && parsed.protocol === "http:")) {
+    return allowHttp ? "The URL must start with http:// or https://" : "The URL must start with https://";
+  }
+
+  // URL keeps the brackets around IPv6 addresses
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(({ address }) => address);
+    } catch {
+      return `${hostname} could not be resolved`;
+    }
+  }
+
+  if (addresses.some(isBlockedAddress)) {
+    return "The URL must not point to a private, loopback or link-local address";
+  }
+  return null;
+}
+
+// POSTs `body` without following redirects, returning the status and the
+// start of the response body
+function post(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith("https:") ? https : http;
+    const request = client.request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: lookupAllowedAddress,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    request.on("error", reject);
+    request.on("response", (res) => {
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk;
+      });
+      res.on("end", () => resolve({ status: res.statusCode!, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) }));
+      res.on("error", reject);
+    });
+    request.end(body);
+  });
+}
+
+// Posts a delivery once and records the outcome. Failures get a nextAttemptAt
+// with backoff until WEBHOOK_MAX_ATTEMPTS, then the delivery is marked failed.
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const endpoint = await storage.getWebhookEndpoint(delivery.endpointId, delivery.orgId);
+  if (!endpoint || !endpoint.enabled) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      error: "The endpoint was disabled",
+      nextAttemptAt: null,
+    });
+  }
+
+  // Checked again on every attempt, since DNS may have changed
+  const urlError = await checkWebhookUrl(endpoint.url);
+  if (urlError) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      attempts: delivery.attempts + 1,
+      error: urlError,
+      nextAttemptAt: null,
+      lastAttemptAt: new Date(),
+    });
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await post(endpoint.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "SaaS-Starter-Webhooks/1.0",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Timestamp": String(timestamp),
+      "X-Webhook-Signature": `sha256=${signWebhookPayload(endpoint.secret, timestamp, delivery.requestBody)}`,
+    }, delivery.requestBody);
+    responseStatus = res.status;
+    responseBody = res.body;
+    if (res.status < 200 || res.status >= 300) error = `The endpoint responded with ${res.status}`;
+  } catch (postError: any) {
+    error = postError.name === "AbortError"
+      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+      : postError.message;
+  }
+
+  const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: !error ? "succeeded" : exhausted ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    responseBody,
+    error,
+    nextAttemptAt: !error || exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)),
+    lastAttemptAt: new Date(),
+  });
+}
+
+// Follows up on an attempt that failed but has retries left
+async function scheduleRetry(delivery: WebhookDelivery) {
+  if (delivery.status !== "pending" || !delivery.nextAttemptAt) return;
+  await enqueueJob(
+    "webhook.deliver",
+    { deliveryId: delivery.id },
+    { orgId: delivery.orgId, runAt: delivery.nextAttemptAt }
+  );
+}
+
+// Handler for "webhook.deliver" jobs. Each job makes one attempt and queues
+// the next one itself, so the job queue's own retries only cover errors
+// reaching storage.
+export async function deliverWebhook(deliveryId: string, orgId: string): Promise<void> {
+  const delivery = await storage.getWebhookDelivery(deliveryId, orgId);
+  // Deleted along with its endpoint, or already settled by a duplicate job
+  if (!delivery || delivery.status !== "pending") return;
+  await scheduleRetry(await attemptDelivery(delivery));
+}
+
+// Queues `event` for every enabled endpoint of the organization subscribed to
+// it. Never throws, so callers don't need to guard the request that triggered
+// the event.
+export async function emitWebhookEvent(orgId: string, event: WebhookEvent, data: object): Promise<void> {
+  try {
+    const endpoints = (await storage.getWebhookEndpoints(orgId)).filter(
+      (endpoint) => endpoint.enabled && endpoint.events.includes(event)
+    );
+    if (endpoints.length === 0) return;
+
+    // Every endpoint gets the same body; receivers can dedupe on its id
+    const requestBody = JSON.stringify({
+      id: randomUUID(),
+      event,
+      organizationId: orgId,
+      createdAt: new Date().toISOString(),
+      data,
+    });
+
+    for (const endpoint of endpoints) {
+      const delivery = await storage.createWebhookDelivery({
+        orgId,
+        endpointId: endpoint.id,
+        event,
+        requestBody,
+        nextAttemptAt: new Date(),
+      });
+      await enqueueJob("webhook.deliver", { deliveryId: delivery.id }, { orgId });
+    }
+  } catch (error: any) {
+    log(`failed to queue ${event} for ${orgId}: ${error.message}`, "webhooks");
+  }
+}
+
+// Sends a copy of an earlier delivery as a new delivery and waits for the
+// first attempt, so the caller can show its outcome. Retries go through the
+// job queue like any other delivery.
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const copy = await storage.createWebhookDelivery({
+    orgId: delivery.orgId,
+    endpointId: delivery.endpointId,
+    event: delivery.event,
+    requestBody: delivery.requestBody,
+    nextAttemptAt: new Date(),
+  });
+  const attempted = await attemptDelivery(copy);
+  await scheduleRetry(attempted);
+  return attempted;
+}
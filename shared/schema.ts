@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, uuid, timestamp, jsonb, bigserial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, uuid, timestamp, json, jsonb, bigserial, bigint, doublePrecision, integer, boolean, primaryKey, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,90 +21,219 @@ export const organizations = pgTable("organizations", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   plan: text("plan").notNull().default("free"), // free, pro, team
   trialEnd: timestamp("trial_end"),
+  // When admins were last reminded that the trial is ending
+  trialRemindedAt: timestamp("trial_reminded_at"),
+  // Soft-deleted organizations can be restored until the grace period ends
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const orgMembers = pgTable("org_members", {
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   userId: uuid("user_id").notNull().references(() => users.id),
   role: text("role").notNull(), // admin, editor, viewer
   invitedBy: uuid("invited_by").references(() => users.id),
   invitedAt: timestamp("invited_at").defaultNow().notNull(),
   acceptedAt: timestamp("accepted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  primaryKey({ columns: [table.orgId, table.userId] }),
+  index("org_members_user_id_idx").on(table.userId),
+]);
+
+// Pending invitations; a member row is only created once the invitee accepts
+export const invitations = pgTable("invitations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").notNull(),
+  message: text("message"),
+  invitedBy: uuid("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  declinedAt: timestamp("declined_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("invitations_org_id_idx").on(table.orgId),
+]);
+
+// Permissions an API key can be granted; each /api/v1 route requires one
+export const API_KEY_SCOPES = [
+  "leads:read",
+  "leads:write",
+  "pipelines:admin",
+  "members:read",
+  "audit:read",
+] as const;
 
 export const apiKeys = pgTable("api_keys", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   keyHash: text("key_hash").notNull(),
   keyPreview: text("key_preview").notNull(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull().default(sql`'{}'::text[]`),
+  expiresAt: timestamp("expires_at"),
+  // Caps the creator's role for requests made with this key
+  roleCeiling: text("role_ceiling").$type<"admin" | "editor" | "viewer">(),
+  // Set when the key is rotated; the old key keeps working until expiresAt
+  replacedById: uuid("replaced_by_id").references((): AnyPgColumn => apiKeys.id, { onDelete: "set null" }),
+  // When the audit log recorded that the key stopped working at expiresAt
+  expiryRecordedAt: timestamp("expiry_recorded_at"),
   lastUsedAt: timestamp("last_used_at"),
   createdBy: uuid("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+  index("api_keys_org_id_idx").on(table.orgId),
+]);
+
+// One row per request authenticated with an API key; pruned per plan retention
+export const apiKeyUsage = pgTable("api_key_usage", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  apiKeyId: uuid("api_key_id").notNull().references(() => apiKeys.id, { onDelete: "cascade" }),
+  method: text("method").notNull(),
+  route: text("route").notNull(),
+  status: integer("status").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("api_key_usage_api_key_id_created_at_idx").on(table.apiKeyId, table.createdAt),
+  index("api_key_usage_org_id_created_at_idx").on(table.orgId, table.createdAt),
+]);
 
 export const settings = pgTable("settings", {
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   key: text("key").notNull(),
   value: jsonb("value").notNull(),
   updatedBy: uuid("updated_by").notNull().references(() => users.id),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  primaryKey({ columns: [table.orgId, table.key] }),
+]);
 
 export const subscriptions = pgTable("subscriptions", {
-  orgId: uuid("org_id").primaryKey().references(() => organizations.id),
+  orgId: uuid("org_id").primaryKey().references(() => organizations.id, { onDelete: "cascade" }),
   plan: text("plan").notNull(),
   status: text("status").notNull(),
   periodEnd: timestamp("period_end"),
   metered: jsonb("metered").default('{}').notNull(),
+  // When payment first failed; cleared once it succeeds
+  pastDueSince: timestamp("past_due_since"),
+  // When admins were last reminded of the failed payment
+  dunningRemindedAt: timestamp("dunning_reminded_at"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const auditLogs = pgTable("audit_logs", {
   id: bigserial("id", { mode: "number" }).primaryKey(),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   actorId: uuid("actor_id").references(() => users.id),
   action: text("action").notNull(),
   entity: text("entity").notNull(),
   entityId: text("entity_id"),
   metadata: jsonb("metadata").default('{}').notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_logs_org_id_created_at_idx").on(table.orgId, table.createdAt),
+  // Pages of the audit log, which are ordered by id
+  index("audit_logs_org_id_id_idx").on(table.orgId, table.id),
+]);
+
+// Token buckets for the Postgres rate limit store, keyed by limiter and client
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  // Epoch milliseconds of the last refill
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
 });
 
+// "dead" jobs used up their attempts and stay for inspection; "cancelled"
+// ones were stopped by an admin before they ran
+export const JOB_STATUSES = ["pending", "running", "completed", "dead", "cancelled"] as const;
+
 export const jobQueue = pgTable("job_queue", {
   id: bigserial("id", { mode: "number" }).primaryKey(),
-  orgId: uuid("org_id").references(() => organizations.id),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }),
   type: text("type").notNull(),
   payload: jsonb("payload").notNull(),
   runAt: timestamp("run_at").defaultNow().notNull(),
-  status: text("status").notNull().default("pending"),
+  status: text("status").$type<JobStatus>().notNull().default("pending"),
   attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  // A running job whose worker died is claimed again once this passes
+  lockedUntil: timestamp("locked_until"),
   lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("job_queue_org_id_idx").on(table.orgId),
+  index("job_queue_status_run_at_idx").on(table.status, table.runAt),
+]);
+
+// One row per entry in the cron schedule (server/cron.ts)
+export const cronRuns = pgTable("cron_runs", {
+  name: text("name").primaryKey(),
+  // The expression nextRunAt was computed from, so edited schedules take effect
+  schedule: text("schedule").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastJobId: bigint("last_job_id", { mode: "number" }),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Stripe webhook events already handled, so redelivered events are skipped
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
 });
 
+// Overage reported to the billing provider, one row per report. A row is
+// written before it's sent and marked reported after, so a report interrupted
+// in between is resent with the same idempotency key.
+export const usageReports = pgTable("usage_reports", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  // End of the usage period the overage belongs to
+  periodEnd: timestamp("period_end").notNull(),
+  quantity: integer("quantity").notNull(),
+  // The period's overage reported so far, including this report
+  total: integer("total").notNull(),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  reportedAt: timestamp("reported_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("usage_reports_org_id_period_end_idx").on(table.orgId, table.periodEnd),
+]);
+
 // Pipeline Management Tables
 export const pipelines = pgTable("pipelines", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("pipelines_org_id_idx").on(table.orgId),
+]);
 
 export const stages = pgTable("stages", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   pipelineId: uuid("pipeline_id").notNull().references(() => pipelines.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   order: integer("order").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("stages_org_id_idx").on(table.orgId),
+  index("stages_pipeline_id_idx").on(table.pipelineId),
+]);
 
 export const leads = pgTable("leads", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   stageId: uuid("stage_id").notNull().references(() => stages.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   email: text("email"),
@@ -113,17 +242,80 @@ export const leads = pgTable("leads", {
   airtableRecordId: text("airtable_record_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("leads_org_id_idx").on(table.orgId),
+  index("leads_stage_id_idx").on(table.stageId),
+]);
 
 export const leadComments = pgTable("lead_comments", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  orgId: uuid("org_id").notNull().references(() => organizations.id),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
   leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
   body: text("body").notNull(),
   userId: uuid("user_id").notNull().references(() => users.id),
   mentionedUserIds: text("mentioned_user_ids").array(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("lead_comments_org_id_idx").on(table.orgId),
+  index("lead_comments_lead_id_idx").on(table.leadId),
+]);
+
+// Events an organization's webhook endpoints can subscribe to
+export const WEBHOOK_EVENTS = [
+  "pipeline.created",
+  "pipeline.updated",
+  "pipeline.deleted",
+  "lead.created",
+  "lead.updated",
+  "lead.moved",
+  "lead.deleted",
+  "lead.commented",
+] as const;
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  // Signs each payload; shown to admins so receivers can verify it
+  secret: text("secret").notNull(),
+  events: text("events").array().$type<WebhookEvent[]>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("webhook_endpoints_org_id_idx").on(table.orgId),
+]);
+
+// One row per event sent to an endpoint, kept with the exact signed body and
+// the last response so failed deliveries can be inspected and resent
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: uuid("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  endpointId: uuid("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  event: text("event").$type<WebhookEvent>().notNull(),
+  requestBody: text("request_body").notNull(),
+  status: text("status").$type<"pending" | "succeeded" | "failed">().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("webhook_deliveries_endpoint_id_created_at_idx").on(table.endpointId, table.createdAt),
+  index("webhook_deliveries_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Express sessions, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
 
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -138,22 +330,80 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   ownerId: true,
   stripeCustomerId: true,
   stripeSubscriptionId: true,
+  trialEnd: true,
+  trialRemindedAt: true,
+  deletedAt: true,
   createdAt: true,
 });
 
 export const insertOrgMemberSchema = createInsertSchema(orgMembers).omit({
   createdAt: true,
-  invitedAt: true,
 });
 
-export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+export const insertInvitationSchema = createInsertSchema(invitations, {
+  email: (schema) => schema.email(),
+  role: z.enum(["admin", "editor", "viewer"]),
+}).omit({
+  id: true,
+  acceptedAt: true,
+  declinedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+  expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future").nullish(),
+  roleCeiling: z.enum(["admin", "editor", "viewer"]).nullish(),
+}).omit({
   id: true,
   keyHash: true,
   keyPreview: true,
+  replacedById: true,
+  expiryRecordedAt: true,
   lastUsedAt: true,
   createdAt: true,
 });
 
+export const insertApiKeyUsageSchema = createInsertSchema(apiKeyUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints, {
+  url: (schema) => schema.url().refine((url) => /^https?:\/\//.test(url), "URL must start with http:// or https://"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+}).omit({
+  id: true,
+  secret: true,
+  createdAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries, {
+  event: z.enum(WEBHOOK_EVENTS),
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobQueue, {
+  status: z.enum(JOB_STATUSES).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCronRunSchema = createInsertSchema(cronRuns).omit({
+  updatedAt: true,
+});
+
+export const insertUsageReportSchema = createInsertSchema(usageReports).omit({
+  id: true,
+  reportedAt: true,
+  createdAt: true,
+});
+
 export const insertSettingSchema = createInsertSchema(settings).omit({
   updatedAt: true,
 });
@@ -191,8 +441,26 @@ export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type OrgMember = typeof orgMembers.$inferSelect;
 export type InsertOrgMember = z.infer<typeof insertOrgMemberSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+export type InsertApiKeyUsage = z.infer<typeof insertApiKeyUsageSchema>;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type JobStatus = typeof JOB_STATUSES[number];
+export type Job = typeof jobQueue.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type CronRun = typeof cronRuns.$inferSelect;
+export type InsertCronRun = z.infer<typeof insertCronRunSchema>;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type UsageReport = typeof usageReports.$inferSelect;
+export type InsertUsageReport = z.infer<typeof insertUsageReportSchema>;
 export type Setting = typeof settings.$inferSelect;
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
@@ -218,6 +486,48 @@ export type UserWithOrganizations = User & {
   organizations: (Organization & { role: string })[];
 };
 
+export type ApiKeyUsageStats = {
+  daily: { day: string; requests: number; errors: number }[];
+  endpoints: { method: string; route: string; requests: number; errors: number; avgDurationMs: number }[];
+};
+
+export type JobQueueStats = {
+  counts: Record<JobStatus, number>;
+  // Pending jobs whose runAt has passed, i.e. waiting on a worker
+  due: number;
+  oldestDueAt: Date | null;
+  completedLastHour: number;
+  completedLastDay: number;
+  types: string[];
+};
+
+export type UsageSummary = {
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  used: number;
+  included: number;
+  overage: number;
+  // Overage already sent to the billing provider this period
+  reported: number;
+  // Usage at the end of the period if it continues at the current rate
+  projectedUsed: number;
+  projectedOverage: number;
+  // Cents per OVERAGE_UNIT operations, or null when the plan has no overage
+  overagePrice: number | null;
+  projectedOverageAmount: number;
+};
+
+// Where an organization whose payment failed is in dunning. During the grace
+// period everything works; after it, the organization is read-only until
+// payment succeeds.
+export type DunningState =
+  | { status: "ok" }
+  | { status: "grace"; pastDueSince: Date; graceEndsAt: Date }
+  | { status: "restricted"; pastDueSince: Date; graceEndsAt: Date };
+
+// Share of a plan's monthly operations after which admins are warned
+export const USAGE_WARNING_RATIO = 0.8;
+
 // Plan limits
 export const PLAN_LIMITS = {
   free: {
@@ -226,6 +536,8 @@ export const PLAN_LIMITS = {
     operations: 1000,
     tableMappings: 1,
     pipelines: 1,
+    apiUsageRetentionDays: 7,
+    requestsPerMinute: 60,
   },
   pro: {
     organizations: 5,
@@ -233,6 +545,8 @@ export const PLAN_LIMITS = {
     operations: 100000,
     tableMappings: 10,
     pipelines: 5,
+    apiUsageRetentionDays: 30,
+    requestsPerMinute: 600,
   },
   team: {
     organizations: 20,
@@ -240,5 +554,15 @@ export const PLAN_LIMITS = {
     operations: 1000000,
     tableMappings: 30,
     pipelines: 20,
+    apiUsageRetentionDays: 90,
+    requestsPerMinute: 3000,
   },
 };
+
+// Operations past the allowance are billed in blocks of OVERAGE_UNIT, at these
+// prices in cents per block. Plans without a price stop at their allowance.
+export const OVERAGE_UNIT = 1000;
+export const OVERAGE_PRICES: Partial<Record<keyof typeof PLAN_LIMITS, number>> = {
+  pro: 100,
+  team: 50,
+};
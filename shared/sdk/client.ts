@@ -0,0 +1,181 @@
+import type {
+  AuditLog,
+  InsertLead,
+  InsertPipeline,
+  InsertStage,
+  Lead,
+  LeadComment,
+  OrgMember,
+  Pipeline,
+  Stage,
+  User,
+} from "../schema";
+import { toApiError } from "./errors";
+
+// The shape a schema type takes after a trip through JSON: dates arrive as
+// ISO strings
+export type Jsonify<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Jsonify<U>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonify<T[K]> }
+      : T;
+
+export type PipelineData = Jsonify<Pipeline>;
+export type StageData = Jsonify<Stage>;
+export type LeadData = Jsonify<Lead>;
+export type LeadCommentData = Jsonify<LeadComment>;
+export type MemberData = Jsonify<OrgMember & { user: Pick<User, "id" | "name" | "email"> }>;
+export type AuditLogData = Jsonify<AuditLog>;
+
+export type PipelineInput = Omit<InsertPipeline, "orgId">;
+export type StageInput = Omit<InsertStage, "orgId">;
+export type LeadInput = Omit<InsertLead, "orgId" | "airtableRecordId">;
+
+export interface PipelineDetail {
+  pipeline: PipelineData;
+  stages: StageData[];
+  leads: LeadData[];
+}
+
+export interface LeadDetail {
+  lead: LeadData;
+  comments: LeadCommentData[];
+}
+
+export interface AuditLogPage {
+  limit?: number;
+  // Only entries older than this audit log id
+  before?: number;
+}
+
+interface Success {
+  success: true;
+}
+
+interface ClientOptionsBase {
+  // Origin of the app, e.g. "https://app.example.com". Defaults to the
+  // current origin, which only works in the browser.
+  baseUrl?: string;
+  // Defaults to the global fetch
+  fetch?: typeof fetch;
+}
+
+// Either an API key, for servers and scripts, or the organization to act on
+// with the signed-in user's session cookie, for the React app
+export type ApiClientOptions = ClientOptionsBase &
+  ({ apiKey: string; organizationId?: never } | { organizationId: string; apiKey?: never });
+
+type Query = Record<string, string | number | undefined>;
+
+const AUDIT_LOG_PAGE_SIZE = 100;
+
+export class ApiClient {
+  private readonly root: string;
+  private readonly apiKey?: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: ApiClientOptions) {
+    const baseUrl = (options.baseUrl || "").replace(/\/+$/, "");
+    this.root = options.apiKey !== undefined
+      ? `${baseUrl}/api/v1`
+      : `${baseUrl}/api/organizations/${encodeURIComponent(options.organizationId)}`;
+    this.apiKey = options.apiKey;
+    // Unbound fetch throws "Illegal invocation" in browsers
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  readonly pipelines = {
+    list: () => this.request<PipelineData[]>("GET", "/pipelines"),
+    get: (pipelineId: string) => this.request<PipelineDetail>("GET", `/pipelines/${pipelineId}`),
+    create: (data: PipelineInput) => this.request<PipelineData>("POST", "/pipelines", { body: data }),
+    update: (pipelineId: string, data: Partial<PipelineInput>) =>
+      this.request<PipelineData>("PUT", `/pipelines/${pipelineId}`, { body: data }),
+    delete: (pipelineId: string) => this.request<Success>("DELETE", `/pipelines/${pipelineId}`),
+  };
+
+  readonly stages = {
+    create: (data: StageInput) => this.request<StageData>("POST", "/stages", { body: data }),
+    update: (stageId: string, data: Partial<StageInput>) =>
+      this.request<StageData>("PUT", `/stages/${stageId}`, { body: data }),
+    delete: (stageId: string) => this.request<Success>("DELETE", `/stages/${stageId}`),
+    reorder: (pipelineId: string, stageOrders: { id: string; order: number }[]) =>
+      this.request<Success>("POST", "/stages/reorder", { body: { pipelineId, stageOrders } }),
+  };
+
+  readonly leads = {
+    get: (leadId: string) => this.request<LeadDetail>("GET", `/leads/${leadId}`),
+    create: (data: LeadInput) => this.request<LeadData>("POST", "/leads", { body: data }),
+    update: (leadId: string, data: Partial<LeadInput>) =>
+      this.request<LeadData>("PUT", `/leads/${leadId}`, { body: data }),
+    delete: (leadId: string) => this.request<Success>("DELETE", `/leads/${leadId}`),
+    move: (leadId: string, stageId: string) =>
+      this.request<LeadData>("POST", `/leads/${leadId}/move`, { body: { stageId } }),
+  };
+
+  readonly comments = {
+    list: async (leadId: string) => (await this.leads.get(leadId)).comments,
+    create: (leadId: string, body: string) =>
+      this.request<LeadCommentData>("POST", `/leads/${leadId}/comments`, { body: { body } }),
+    delete: (leadId: string, commentId: string) =>
+      this.request<Success>("DELETE", `/leads/${leadId}/comments/${commentId}`),
+  };
+
+  readonly members = {
+    list: () => this.request<MemberData[]>("GET", "/members"),
+  };
+
+  readonly auditLogs = {
+    // One page, newest first. Pass the last id as `before` for the next one.
+    list: (page: AuditLogPage = {}) =>
+      this.request<AuditLogData[]>("GET", "/audit-logs", { query: { ...page } }),
+    // Walks back through the whole log a page at a time
+    listAll: (pageSize: number = AUDIT_LOG_PAGE_SIZE) => this.paginateAuditLogs(pageSize),
+  };
+
+  private async *paginateAuditLogs(pageSize: number): AsyncGenerator<AuditLogData> {
+    let before: number | undefined;
+    while (true) {
+      const page = await this.auditLogs.list({ limit: pageSize, before });
+      yield* page;
+      if (page.length < pageSize) return;
+      before = page[page.length - 1].id;
+    }
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: Query; body?: unknown } = {}
+  ): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query || {})) {
+      if (value !== undefined) params.set(name, String(value));
+    }
+    const search = params.toString();
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    const res = await this.fetchImpl(`${this.root}${path}${search ? `?${search}` : ""}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      // API keys must not be mixed with whatever session the browser holds
+      credentials: this.apiKey ? "omit" : "include",
+    });
+
+    const text = await res.text();
+    let data: unknown = text;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+
+    if (!res.ok) throw toApiError(res.status, data, res.headers);
+    return data as T;
+  }
+}
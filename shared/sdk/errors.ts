@@ -0,0 +1,125 @@
+// Every non-2xx response is thrown as an ApiError, or as one of the
+// subclasses below when the status says more about what went wrong
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    // The parsed JSON error body, or the raw text when it isn't JSON
+    public readonly body: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// 400: the request body or parameters were rejected
+export class ValidationError extends ApiError {
+  constructor(message: string, body: unknown) {
+    super(400, message, body);
+    this.name = "ValidationError";
+  }
+}
+
+// 401: no session, or the API key is missing, invalid or expired
+export class AuthenticationError extends ApiError {
+  constructor(message: string, body: unknown) {
+    super(401, message, body);
+    this.name = "AuthenticationError";
+  }
+}
+
+// 403: the member's role or the API key's scopes don't allow this
+export class PermissionError extends ApiError {
+  readonly missingScope?: string;
+
+  constructor(message: string, body: unknown) {
+    super(403, message, body);
+    this.name = "PermissionError";
+    this.missingScope = (body as { missingScope?: string } | null)?.missingScope;
+  }
+}
+
+// 404: the resource doesn't exist in this organization
+export class NotFoundError extends ApiError {
+  constructor(message: string, body: unknown) {
+    super(404, message, body);
+    this.name = "NotFoundError";
+  }
+}
+
+export interface PlanLimitDetails {
+  resource: "members" | "pipelines" | "tableMappings" | "organizations";
+  plan: string;
+  limit: number;
+  current: number;
+}
+
+// 402: the organization's plan doesn't allow more of `resource`
+export class PlanLimitError extends ApiError {
+  readonly details: PlanLimitDetails;
+
+  constructor(message: string, body: PlanLimitDetails) {
+    super(402, message, body);
+    this.name = "PlanLimitError";
+    const { resource, plan, limit, current } = body;
+    this.details = { resource, plan, limit, current };
+  }
+}
+
+// 402: the organization's payment failed and its grace period is over, so
+// it's read-only until the payment succeeds
+export class PaymentRequiredError extends ApiError {
+  constructor(message: string, body: unknown) {
+    super(402, message, body);
+    this.name = "PaymentRequiredError";
+  }
+}
+
+// 429: the rate limit was hit; retry after `retryAfter` seconds
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    body: unknown,
+    public readonly retryAfter: number
+  ) {
+    super(429, message, body);
+    this.name = "RateLimitError";
+  }
+}
+
+export function toApiError(status: number, body: unknown, headers: Headers): ApiError {
+  const json = typeof body === "object" && body !== null ? (body as Record<string, any>) : {};
+  const message =
+    typeof json.error === "string"
+      ? json.error
+      : typeof body === "string" && body
+        ? body
+        : `Request failed with status ${status}`;
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, body);
+    case 401:
+      return new AuthenticationError(message, body);
+    case 402:
+      return json.code === "plan_limit_exceeded"
+        ? new PlanLimitError(message, json as PlanLimitDetails)
+        : json.code === "payment_required"
+          ? new PaymentRequiredError(message, body)
+          : new ApiError(status, message, body);
+    case 403:
+      return new PermissionError(message, body);
+    case 404:
+      return new NotFoundError(message, body);
+    case 429:
+      return new RateLimitError(
+        message,
+        body,
+        json.retryAfter ?? (parseInt(headers.get("Retry-After") || "", 10) || 1)
+      );
+    default:
+      return new ApiError(status, message, body);
+  }
+}
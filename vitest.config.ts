@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Each test file gets its own MemStorage and fake billing provider
+    env: {
+      NODE_ENV: "test",
+      STORAGE_DRIVER: "memory",
+      BILLING_PROVIDER: "fake",
+      STRIPE_WEBHOOK_SECRET: "whsec_test",
+    },
+  },
+});